@@ -0,0 +1,28 @@
+import { InjectionToken, ModuleMetadata, Type } from '@nestjs/common'
+import { AbstractRepository } from './abstract.repository'
+import { IRepositoryOptions } from './IRepositoryOptions'
+import { OutboxRelayOptions } from './outbox.relay'
+
+export interface NestlizeModuleAsyncOptions extends Pick<
+  ModuleMetadata,
+  'imports'
+> {
+  useFactory: (
+    ...args: any[]
+  ) => IRepositoryOptions | Promise<IRepositoryOptions>
+  inject?: InjectionToken[]
+}
+
+export interface NestlizeOutboxAsyncOptions extends Pick<
+  ModuleMetadata,
+  'imports'
+> {
+  useFactory: (
+    ...args: any[]
+  ) => OutboxRelayOptions | Promise<OutboxRelayOptions>
+  inject?: InjectionToken[]
+}
+
+export interface NestlizeFeatureOptions {
+  repositories?: Type<AbstractRepository<any>>[]
+}
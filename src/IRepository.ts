@@ -1,29 +1,243 @@
+import { Readable } from 'node:stream'
 import {
+  AggregateOptions as SequelizeAggregateOptions,
   Attributes,
   BulkCreateOptions,
   CreateOptions,
+  CountOptions,
   CreationAttributes,
   DestroyOptions,
   FindAndCountOptions,
   FindOptions,
+  FindOrCreateOptions as SequelizeFindOrCreateOptions,
   InstanceDestroyOptions,
   InstanceRestoreOptions,
   RestoreOptions,
   SaveOptions,
+  Sequelize,
   Transaction,
+  Transactionable,
+  TransactionOptions as SequelizeTransactionOptions,
+  UpdateOptions as SequelizeUpdateOptions,
+  UpsertOptions as SequelizeUpsertOptions,
   WhereOptions,
 } from 'sequelize'
 import { Model, ModelCtor } from 'sequelize-typescript'
+import { Propagation } from './transaction.context'
+import { ReadPreference } from './read-preference'
+import { CursorDirection } from './cursor'
+import { Specification } from './specification'
+import { QueryBuilder } from './query.builder'
+import { AuditEntry } from './audit.log'
+
+export type RepositoryQuery<TModel extends Model> =
+  | WhereOptions<Attributes<TModel>>
+  | Specification<TModel>
+
+export type CompositeKey<TModel extends Model> = Partial<Attributes<TModel>>
+
+export type PrimaryKeyOf<TModel extends Model> = TModel extends {
+  id: infer K extends string | number
+}
+  ? K
+  : string | number | CompositeKey<TModel>
+
+export interface ReadOptions {
+  readPreference?: ReadPreference
+  cache?: boolean
+}
+
+export type ReadFindOptions<TModel extends Model> = Omit<
+  FindOptions<Attributes<TModel>>,
+  'where'
+> &
+  ReadOptions
 
 export interface PaginationOptions<TModel extends Model> {
   limit?: number
   offset?: number
   page?: number
-  query?: WhereOptions<Attributes<TModel>>
+  query?: RepositoryQuery<TModel>
   findOptions?: Omit<
     FindAndCountOptions<Attributes<TModel>>,
     'where' | 'offset' | 'limit'
   >
+  skipCount?: boolean
+  readPreference?: ReadPreference
+}
+
+export interface Page<TModel extends Model> {
+  rows: TModel[]
+  count: number | null
+  limit: number
+  offset: number
+  currentPage: number
+  totalPages: number | null
+  hasNext: boolean
+  hasPrev: boolean
+}
+
+export interface CursorPaginationOptions<TModel extends Model> {
+  orderBy: [keyof Attributes<TModel> & string, CursorDirection][]
+  after?: string
+  before?: string
+  limit?: number
+  query?: WhereOptions<Attributes<TModel>>
+  findOptions?: Omit<
+    FindOptions<Attributes<TModel>>,
+    'where' | 'order' | 'offset' | 'limit'
+  >
+  readPreference?: ReadPreference
+}
+
+export interface CursorPage<TModel extends Model> {
+  rows: TModel[]
+  startCursor: string | null
+  endCursor: string | null
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+}
+
+export interface IterateOptions<TModel extends Model> extends Omit<
+  FindOptions<Attributes<TModel>>,
+  'where' | 'order' | 'offset' | 'limit'
+> {
+  batchSize?: number
+  orderBy?: [keyof Attributes<TModel> & string, CursorDirection][]
+  readPreference?: ReadPreference
+}
+
+export interface UpsertOptions<TModel extends Model> extends Omit<
+  SequelizeUpsertOptions<Attributes<TModel>>,
+  'conflictFields' | 'returning'
+> {
+  conflictFields?: (keyof Attributes<TModel> & string)[]
+}
+
+export interface UpsertManyOptions<TModel extends Model> extends Omit<
+  BulkCreateOptions<Attributes<TModel>>,
+  'updateOnDuplicate' | 'conflictAttributes' | 'ignoreDuplicates' | 'returning'
+> {
+  conflictFields?: (keyof Attributes<TModel> & string)[]
+  updateFields?: (keyof Attributes<TModel> & string)[]
+}
+
+export type FindOrCreateOptions<TModel extends Model> = Omit<
+  SequelizeFindOrCreateOptions<Attributes<TModel>, CreationAttributes<TModel>>,
+  'where' | 'defaults'
+>
+
+export interface UpdateByPkOptions<TModel extends Model> extends SaveOptions<
+  Attributes<TModel>
+> {
+  expectedVersion?: number
+}
+
+export interface DeleteByPkOptions extends InstanceDestroyOptions {
+  expectedVersion?: number
+}
+
+export type DeletedFindOptions<TModel extends Model> = Omit<
+  ReadFindOptions<TModel>,
+  'paranoid'
+>
+
+export type DeletedCountOptions<TModel extends Model> = Omit<
+  CountOptions<Attributes<TModel>>,
+  'where' | 'group' | 'paranoid'
+> &
+  ReadOptions
+
+export interface PurgeDeletedOptions<
+  TModel extends Model,
+> extends Transactionable {
+  olderThan?: Date
+  query?: RepositoryQuery<TModel>
+}
+
+export interface UpdateOptions<TModel extends Model> extends Omit<
+  SequelizeUpdateOptions<Attributes<TModel>>,
+  'where' | 'returning'
+> {
+  returning?: boolean
+}
+
+export interface EntityUpdate<TModel extends Model> {
+  pk: PrimaryKeyOf<TModel>
+  changes: Partial<Attributes<TModel>>
+}
+
+export type UpdateManyOptions<TModel extends Model> = Omit<
+  UpdateOptions<TModel>,
+  'returning'
+>
+
+export interface LockOptions<TModel extends Model> extends Omit<
+  FindOptions<Attributes<TModel>>,
+  'where' | 'lock' | 'skipLocked'
+> {
+  skipLocked?: boolean
+  noWait?: boolean
+}
+
+export type ClaimOptions<TModel extends Model> = Omit<
+  LockOptions<TModel>,
+  'skipLocked' | 'noWait' | 'limit'
+>
+
+export type AggregateOptions<TModel extends Model> = Omit<
+  SequelizeAggregateOptions<unknown, Attributes<TModel>>,
+  'where' | 'dataType'
+> &
+  ReadOptions
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+export type Aggregate<TModel extends Model> =
+  | ['count']
+  | [AggregateFunction, keyof Attributes<TModel> & string]
+
+export type AggregateValue<
+  TModel extends Model,
+  TAggregate extends Aggregate<TModel>,
+> = TAggregate extends ['min' | 'max', infer K extends keyof Attributes<TModel>]
+  ? Attributes<TModel>[K] | null
+  : TAggregate extends ['count', ...unknown[]]
+    ? number
+    : number | null
+
+export type GroupByOptions<TModel extends Model> = Omit<
+  FindOptions<Attributes<TModel>>,
+  'where' | 'attributes' | 'group' | 'raw'
+> &
+  ReadOptions
+
+export type GroupByRow<
+  TModel extends Model,
+  K extends keyof Attributes<TModel>,
+  A extends Record<string, Aggregate<TModel>>,
+> = Pick<Attributes<TModel>, K> & {
+  [P in keyof A]: AggregateValue<TModel, A[P]>
+}
+
+export interface RecordEventOptions extends Transactionable {
+  aggregateId?: string | number
+}
+
+export interface CreateResult<TModel extends Model> {
+  entity: TModel
+  created: boolean
+}
+
+export interface TransactionOptions extends Omit<
+  SequelizeTransactionOptions,
+  'transaction'
+> {
+  propagation?: Propagation
+}
+
+export interface TransactionalOptions extends TransactionOptions {
+  sequelize?: Sequelize
 }
 
 export interface IRepository<TModel extends Model> {
@@ -40,32 +254,150 @@ export interface IRepository<TModel extends Model> {
     dtos: CreationAttributes<TModel>[],
     options?: BulkCreateOptions<Attributes<TModel>>,
   ): Promise<TModel[]>
+  upsert(
+    dto: CreationAttributes<TModel>,
+    options?: UpsertOptions<TModel>,
+  ): Promise<CreateResult<TModel>>
+  upsertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: UpsertManyOptions<TModel>,
+  ): Promise<CreateResult<TModel>[]>
+  findOrCreate(
+    query: WhereOptions<Attributes<TModel>>,
+    defaults?: Partial<CreationAttributes<TModel>>,
+    options?: FindOrCreateOptions<TModel>,
+  ): Promise<CreateResult<TModel>>
   findByPk(
-    primaryKey: string | number,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
   ): Promise<TModel | null>
+  findByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel>
+  findManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]>
   findOne(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
   ): Promise<TModel | null>
+  findOneOrFail(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel>
   findAll(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]>
+  findByPkForUpdate(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel | null>
+  findAllForUpdate(
+    query?: RepositoryQuery<TModel>,
+    options?: LockOptions<TModel>,
   ): Promise<TModel[]>
-  findAllPaginated(
-    options: PaginationOptions<TModel>,
-  ): Promise<{ rows: TModel[]; count: number }>
+  claimNext(
+    query?: RepositoryQuery<TModel>,
+    limit?: number,
+    options?: ClaimOptions<TModel>,
+  ): Promise<TModel[]>
+  findAllPaginated(options: PaginationOptions<TModel>): Promise<Page<TModel>>
+  findEach(
+    query: RepositoryQuery<TModel> | undefined,
+    options: IterateOptions<TModel> | undefined,
+    handler: (entity: TModel) => void | Promise<void>,
+  ): Promise<void>
+  iterate(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): AsyncGenerator<TModel>
+  stream(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): Readable
+  findAllByCursor(
+    options: CursorPaginationOptions<TModel>,
+  ): Promise<CursorPage<TModel>>
   updateByPk(
-    primaryKey: string | number,
+    primaryKey: PrimaryKeyOf<TModel>,
     dto: Partial<Attributes<TModel>>,
-    options?: SaveOptions<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
   ): Promise<TModel | null>
+  updateByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
+  ): Promise<TModel>
+  update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options: UpdateOptions<TModel> & { returning: true },
+  ): Promise<TModel[]>
+  update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateOptions<TModel>,
+  ): Promise<number>
+  updateMany(
+    updates: EntityUpdate<TModel>[],
+    options?: UpdateManyOptions<TModel>,
+  ): Promise<number>
   deleteByPk(
-    primaryKey: string | number,
-    options?: InstanceDestroyOptions,
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
   ): Promise<TModel | null>
+  deleteByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
+  ): Promise<TModel>
+  deleteManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<number>
+  count(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<number>
+  exists(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<boolean>
+  sum(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number>
+  avg(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number | null>
+  min<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null>
+  max<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null>
+  groupBy<
+    K extends keyof Attributes<TModel> & string,
+    const A extends Record<string, Aggregate<TModel>>,
+  >(
+    columns: K[],
+    aggregates: A,
+    query?: RepositoryQuery<TModel>,
+    options?: GroupByOptions<TModel>,
+  ): Promise<GroupByRow<TModel, K, A>[]>
   delete(
-    query?: WhereOptions<Attributes<TModel>>,
+    query?: RepositoryQuery<TModel>,
     options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
   ): Promise<number>
   restore(
@@ -73,11 +405,43 @@ export interface IRepository<TModel extends Model> {
     options?: Omit<RestoreOptions<Attributes<TModel>>, 'where'>,
   ): Promise<void>
   restoreByPk(
-    primaryKey: string | number,
+    primaryKey: PrimaryKeyOf<TModel>,
     options?: InstanceRestoreOptions,
   ): Promise<TModel | null>
+  restoreByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel>
+  findDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]>
+  findAllWithDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]>
+  countDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedCountOptions<TModel>,
+  ): Promise<number>
+  purgeDeleted(options?: PurgeDeletedOptions<TModel>): Promise<number>
+  isDeleted(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable & ReadOptions,
+  ): Promise<boolean>
+  getHistory(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable,
+  ): Promise<AuditEntry<TModel>[]>
+  recordEvent<TPayload = unknown>(
+    type: string,
+    payload: TPayload,
+    options?: RecordEventOptions,
+  ): Promise<void>
   transaction<R>(
     runInTransaction: (transaction: Transaction) => Promise<R>,
+    options?: TransactionOptions,
   ): Promise<R>
   calculateOffset(limit: number, page: number): number
+  query(): QueryBuilder<TModel>
 }
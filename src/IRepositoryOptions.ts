@@ -1,5 +1,66 @@
 import { Logger } from '@nestjs/common'
+import { ModelCtor } from 'sequelize-typescript'
+import { RepositoryError } from './repository.errors'
+import { RepositoryEventBus } from './repository.events'
+import { TenantId, TenantStrategy } from './tenant.context'
+import { ReadPreference } from './read-preference'
+import { CacheStore } from './cache.store'
+import { ActorId } from './audit.context'
+import { AuditSink } from './audit.log'
+import { OutboxEvent } from './outbox'
+import { EntityKey } from './primary-key'
+
+export interface RepositoryErrorContext {
+  operation: string
+  model: string
+}
+
+export interface EntityNotFoundContext extends RepositoryErrorContext {
+  key?: EntityKey
+  query?: unknown
+}
+
+export interface TenantOptions {
+  resolver?: () => TenantId | undefined
+  strategy?: TenantStrategy
+  column?: string
+  schema?: (tenant: TenantId) => string
+  required?: boolean
+}
+
+export interface CacheOptions {
+  store?: CacheStore
+  ttl?: number
+}
+
+export interface AuditOptions {
+  sink?: AuditSink
+  resolver?: () => ActorId | undefined
+}
+
+export interface OutboxOptions {
+  model?: ModelCtor<OutboxEvent>
+}
+
+export interface SoftDeleteOptions {
+  cascade?: string[]
+}
 
 export interface IRepositoryOptions {
   logger?: Logger
+  cursorSecret?: string
+  maxLimit?: number
+  errorMapper?: (
+    error: RepositoryError,
+    context: RepositoryErrorContext,
+  ) => Error
+  notFoundError?: (context: EntityNotFoundContext) => Error
+  eventBus?: RepositoryEventBus
+  tenant?: TenantOptions
+  readPreference?: ReadPreference
+  stickyAfterWrite?: number
+  cache?: CacheOptions
+  audit?: AuditOptions
+  outbox?: OutboxOptions
+  softDelete?: SoftDeleteOptions
 }
@@ -1,30 +1,150 @@
-import { InternalServerErrorException, Logger } from '@nestjs/common'
+import { randomUUID } from 'node:crypto'
+import { Readable } from 'node:stream'
+import { HttpException, Logger } from '@nestjs/common'
 import {
+  col,
+  DataTypes,
+  fn,
+  HasMany,
+  HasOne,
+  literal,
+  ModelOptions,
+  Op,
   Transaction,
   WhereOptions,
   CreationAttributes,
   CreateOptions,
   FindOptions,
   Attributes,
-  SaveOptions,
-  InstanceDestroyOptions,
   InstanceRestoreOptions,
   BulkCreateOptions,
+  CountOptions,
   DestroyOptions,
   RestoreOptions,
+  Sequelize,
+  Transactionable,
+  ModelStatic,
 } from 'sequelize'
-import { IRepository, PaginationOptions } from './IRepository'
+import {
+  Aggregate,
+  AggregateFunction,
+  AggregateOptions,
+  CreateResult,
+  CursorPage,
+  CursorPaginationOptions,
+  DeleteByPkOptions,
+  DeletedCountOptions,
+  DeletedFindOptions,
+  EntityUpdate,
+  ClaimOptions,
+  FindOrCreateOptions,
+  GroupByOptions,
+  GroupByRow,
+  IRepository,
+  IterateOptions,
+  LockOptions,
+  Page,
+  PaginationOptions,
+  PrimaryKeyOf,
+  PurgeDeletedOptions,
+  ReadFindOptions,
+  RecordEventOptions,
+  ReadOptions,
+  RepositoryQuery,
+  TransactionOptions,
+  UpdateByPkOptions,
+  UpdateManyOptions,
+  UpdateOptions,
+  UpsertManyOptions,
+  UpsertOptions,
+} from './IRepository'
 import { Model, ModelCtor } from 'sequelize-typescript'
-import { IRepositoryOptions } from './IRepositoryOptions'
+import { EntityNotFoundContext, IRepositoryOptions } from './IRepositoryOptions'
+import { TransactionContext } from './transaction.context'
+import {
+  buildKeysetWhere,
+  CursorDirection,
+  decodeCursor,
+  encodeCursor,
+} from './cursor'
+import {
+  DuplicateEntityError,
+  EntityNotFoundError,
+  InvalidQueryError,
+  OptimisticLockError,
+  RepositoryError,
+  TenantNotResolvedError,
+  toRepositoryError,
+  TransactionRequiredError,
+  UnsupportedDialectError,
+} from './repository.errors'
+import { TenantContext, TenantId, TenantStrategy } from './tenant.context'
+import {
+  mergeFindOptions,
+  Specification,
+  SpecificationFindOptions,
+} from './specification'
+import { QueryBuilder } from './query.builder'
+import { ReadPreference } from './read-preference'
+import { LruCacheStore, toCacheKey } from './cache.store'
+import { ActorId, AuditContext } from './audit.context'
+import {
+  AuditEntry,
+  AuditOperation,
+  AuditSnapshot,
+  diffSnapshots,
+  ModelAuditSink,
+} from './audit.log'
+import { OutboxEvent } from './outbox'
+import { AuditableBaseModel } from './base.model'
+import { EntityKey, toEntityId, toKeyValues } from './primary-key'
+import {
+  getEntityChanges,
+  RepositoryEventListener,
+  RepositoryEventMap,
+  RepositoryEventName,
+  RepositoryEvents,
+  UpdateEvent,
+} from './repository.events'
+
+type CachedResult =
+  | { entities: unknown[] }
+  | { entity: unknown }
+  | { value: unknown }
+
+interface AuditChange<TModel extends Model> {
+  operation: AuditOperation
+  before: AuditSnapshot<TModel> | null
+  after: AuditSnapshot<TModel> | null
+}
+
+type CascadedAssociation = (HasMany | HasOne) & { sourceKey: string }
+
+const handledErrors = new WeakSet<object>()
+const defaultCacheStore = new LruCacheStore()
+const stickyWindows = new WeakMap<Sequelize, number>()
+const defaultAuditSink = new ModelAuditSink()
+const returningDialects = new Set(['postgres', 'mssql'])
+const lockingDialects = new Set([
+  'postgres',
+  'mysql',
+  'mariadb',
+  'oracle',
+  'snowflake',
+])
+const skipLockedDialects = new Set(['postgres', 'oracle'])
+const nullsLargestDialects = new Set(['postgres', 'oracle', 'snowflake', 'db2'])
 
 export class AbstractRepository<
   TModel extends Model,
 > implements IRepository<TModel> {
   protected readonly logger: Logger
+  protected readonly events: RepositoryEvents<TModel>
+  private readonly schemaModels = new Map<string, ModelStatic<any>>()
 
   constructor(
     protected readonly model: ModelCtor<TModel>,
-    options: IRepositoryOptions = {},
+    protected readonly options: IRepositoryOptions = {},
   ) {
     const { logger = new Logger(this.constructor.name) } = options
 
@@ -33,6 +153,7 @@ export class AbstractRepository<
     }
 
     this.logger = logger
+    this.events = new RepositoryEvents(model.name, options.eventBus)
   }
 
   public getModel(): ModelCtor<TModel> {
@@ -43,11 +164,44 @@ export class AbstractRepository<
     dto: CreationAttributes<TModel>,
     options?: CreateOptions<Attributes<TModel>>,
   ): Promise<TModel> {
+    const createOptions = this.withTransaction(options)
+    const { transaction } = createOptions
+
     try {
-      return await this.model.create(dto, options)
+      if (this.options.audit && !transaction) {
+        return await this.runInTransaction(undefined, (transaction) =>
+          this.create(dto, { ...options, transaction }),
+        )
+      }
+
+      const values = this.stampActor(this.stampTenant(dto), true)
+
+      await this.events.emit('beforeCreate', {
+        operation: 'create',
+        transaction,
+        values: [values],
+      })
+      const entity = await this.getScopedModel().create(values, createOptions)
+      await this.events.emit('afterCreate', {
+        operation: 'create',
+        transaction,
+        entities: [entity],
+      })
+      await this.audit(
+        [
+          {
+            operation: AuditOperation.CREATE,
+            before: null,
+            after: this.snapshot(entity),
+          },
+        ],
+        transaction,
+      )
+      await this.markWrite(transaction)
+
+      return entity
     } catch (error) {
-      this.logger.error(`insert: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('create', error)
     }
   }
 
@@ -62,187 +216,2411 @@ export class AbstractRepository<
     dtos: CreationAttributes<TModel>[],
     options?: BulkCreateOptions<Attributes<TModel>>,
   ): Promise<TModel[]> {
+    const createOptions = this.withTransaction(options)
+    const { transaction } = createOptions
+
+    try {
+      if (this.options.audit && !transaction) {
+        return await this.runInTransaction(undefined, (transaction) =>
+          this.insertMany(dtos, { ...options, transaction }),
+        )
+      }
+
+      const values = dtos.map((dto) =>
+        this.stampActor(this.stampTenant(dto), true),
+      )
+
+      await this.events.emit('beforeCreate', {
+        operation: 'insertMany',
+        transaction,
+        values,
+      })
+      const entities = await this.getScopedModel().bulkCreate(
+        values,
+        createOptions,
+      )
+      await this.events.emit('afterCreate', {
+        operation: 'insertMany',
+        transaction,
+        entities,
+      })
+      await this.audit(
+        entities.map((entity) => ({
+          operation: AuditOperation.CREATE,
+          before: null,
+          after: this.snapshot(entity),
+        })),
+        transaction,
+      )
+      await this.markWrite(transaction)
+
+      return entities
+    } catch (error) {
+      throw this.handleError('insertMany', error)
+    }
+  }
+
+  public async upsert(
+    dto: CreationAttributes<TModel>,
+    options?: UpsertOptions<TModel>,
+  ): Promise<CreateResult<TModel>> {
+    const {
+      conflictFields = [...this.model.primaryKeyAttributes],
+      ...upsertOptions
+    } = this.withTransaction(options)
+
+    try {
+      return await this.runInTransaction(
+        upsertOptions.transaction,
+        async (transaction) => {
+          const values = this.stampActor(this.stampTenant(dto), true)
+          const [existing] = await this.findConflicting(
+            [values],
+            conflictFields,
+            transaction,
+          )
+          await this.assertNoForeignConflicts(
+            [values],
+            conflictFields,
+            existing ? [existing] : [],
+            transaction,
+          )
+          const [event] = existing
+            ? this.getUpdateEvents('upsert', transaction, [existing], values)
+            : []
+
+          if (event) {
+            await this.events.emit('beforeUpdate', event)
+          } else if (!existing) {
+            await this.events.emit('beforeCreate', {
+              operation: 'upsert',
+              transaction,
+              values: [values],
+            })
+          }
+          const [upserted, created] = await this.getScopedModel().upsert(
+            values,
+            {
+              ...(this.isAuditable() && {
+                fields: this.getUpdateFields([values], []),
+              }),
+              ...upsertOptions,
+              conflictFields,
+              transaction,
+              returning: true,
+            },
+          )
+          const [entity = upserted] = await this.findConflicting(
+            [values],
+            conflictFields,
+            transaction,
+          )
+          const isCreated = created ?? !existing
+
+          if (event) {
+            await this.events.emit('afterUpdate', event)
+          } else if (isCreated) {
+            await this.events.emit('afterCreate', {
+              operation: 'upsert',
+              transaction,
+              entities: [entity],
+            })
+          }
+          await this.audit(
+            [
+              {
+                operation: isCreated
+                  ? AuditOperation.CREATE
+                  : AuditOperation.UPDATE,
+                before: this.snapshot(existing),
+                after: this.snapshot(entity),
+              },
+            ],
+            transaction,
+          )
+          await this.markWrite(transaction)
+
+          return { entity, created: isCreated }
+        },
+      )
+    } catch (error) {
+      throw this.handleError('upsert', error)
+    }
+  }
+
+  public async upsertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: UpsertManyOptions<TModel>,
+  ): Promise<CreateResult<TModel>[]> {
+    const {
+      conflictFields = [...this.model.primaryKeyAttributes],
+      updateFields,
+      ...bulkOptions
+    } = this.withTransaction(options)
+
+    try {
+      return await this.runInTransaction(
+        bulkOptions.transaction,
+        async (transaction) => {
+          const values = dtos.map((dto) =>
+            this.stampActor(this.stampTenant(dto), true),
+          )
+          const existing = await this.findConflicting(
+            values,
+            conflictFields,
+            transaction,
+          )
+          await this.assertNoForeignConflicts(
+            values,
+            conflictFields,
+            existing,
+            transaction,
+          )
+          const existingByKey = new Map(
+            existing.map((entity) => [
+              this.getConflictKey(entity, conflictFields),
+              entity,
+            ]),
+          )
+          const updated = values.filter((value) =>
+            existingByKey.has(this.getConflictKey(value, conflictFields)),
+          )
+          const created = values.filter((value) => !updated.includes(value))
+          const events = updated.flatMap((value) =>
+            this.getUpdateEvents(
+              'upsertMany',
+              transaction,
+              [existingByKey.get(this.getConflictKey(value, conflictFields))!],
+              value,
+            ),
+          )
+
+          if (created.length) {
+            await this.events.emit('beforeCreate', {
+              operation: 'upsertMany',
+              transaction,
+              values: created,
+            })
+          }
+          for (const event of events) {
+            await this.events.emit('beforeUpdate', event)
+          }
+          const entities = await this.getScopedModel().bulkCreate(values, {
+            ...bulkOptions,
+            transaction,
+            conflictAttributes: conflictFields,
+            updateOnDuplicate:
+              updateFields ?? this.getUpdateFields(values, conflictFields),
+          })
+          const stored = new Map(
+            (
+              await this.findConflicting(values, conflictFields, transaction)
+            ).map((entity) => [
+              this.getConflictKey(entity, conflictFields),
+              entity,
+            ]),
+          )
+          const changes = values.map((value, index) => {
+            const key = this.getConflictKey(value, conflictFields)
+
+            return {
+              before: existingByKey.get(key),
+              after: stored.get(key) ?? entities[index],
+            }
+          })
+
+          const createdEntities = changes
+            .filter(({ before }) => !before)
+            .map(({ after }) => after)
+
+          if (createdEntities.length) {
+            await this.events.emit('afterCreate', {
+              operation: 'upsertMany',
+              transaction,
+              entities: createdEntities,
+            })
+          }
+          for (const event of events) {
+            await this.events.emit('afterUpdate', event)
+          }
+          await this.audit(
+            changes.map(({ before, after }) => ({
+              operation: before ? AuditOperation.UPDATE : AuditOperation.CREATE,
+              before: this.snapshot(before),
+              after: this.snapshot(after),
+            })),
+            transaction,
+          )
+          await this.markWrite(transaction)
+
+          return changes.map(({ before, after }) => ({
+            entity: after,
+            created: !before,
+          }))
+        },
+      )
+    } catch (error) {
+      throw this.handleError('upsertMany', error)
+    }
+  }
+
+  public async findOrCreate(
+    query: WhereOptions<Attributes<TModel>>,
+    defaults?: Partial<CreationAttributes<TModel>>,
+    options?: FindOrCreateOptions<TModel>,
+  ): Promise<CreateResult<TModel>> {
+    const findOptions = this.withTransaction({
+      ...options,
+      where: this.stampTenant(query),
+      defaults: this.stampActor(
+        this.stampTenant({
+          ...defaults,
+        } as CreationAttributes<TModel>),
+        true,
+      ),
+    })
+    const { transaction } = findOptions
+
     try {
-      return await this.model.bulkCreate(dtos, options)
+      if (this.options.audit && !transaction) {
+        return await this.runInTransaction(undefined, (transaction) =>
+          this.findOrCreate(query, defaults, { ...options, transaction }),
+        )
+      }
+
+      if (this.events.has('beforeCreate', 'afterCreate')) {
+        const existing = await this.getScopedModel().findOne(findOptions)
+
+        if (existing) {
+          return { entity: existing, created: false }
+        }
+
+        await this.events.emit('beforeCreate', {
+          operation: 'findOrCreate',
+          transaction,
+          values: [
+            {
+              ...Object.fromEntries(
+                Object.entries(findOptions.where).filter(
+                  ([, value]) =>
+                    value === null ||
+                    typeof value !== 'object' ||
+                    value instanceof Date,
+                ),
+              ),
+              ...findOptions.defaults,
+            } as CreationAttributes<TModel>,
+          ],
+        })
+      }
+
+      const [entity, created] =
+        await this.getScopedModel().findOrCreate(findOptions)
+
+      if (created) {
+        await this.events.emit('afterCreate', {
+          operation: 'findOrCreate',
+          transaction,
+          entities: [entity],
+        })
+        await this.audit(
+          [
+            {
+              operation: AuditOperation.CREATE,
+              before: null,
+              after: this.snapshot(entity),
+            },
+          ],
+          transaction,
+        )
+        await this.markWrite(transaction)
+      }
+
+      return { entity, created }
     } catch (error) {
-      this.logger.error(`insertMany: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('findOrCreate', error)
     }
   }
 
   public async findByPk(
-    primaryKey: string | number,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
   ): Promise<TModel | null> {
     try {
-      return await this.model.findByPk(primaryKey, options)
+      if (!this.getTenantWhere() && !this.hasCompositeKey()) {
+        const findOptions = this.withReadPreference(options)
+
+        return await this.cached(
+          ['findByPk', primaryKey],
+          findOptions,
+          options?.cache,
+          () =>
+            this.getScopedModel().findByPk(
+              primaryKey as string | number,
+              findOptions,
+            ),
+        )
+      }
+
+      const findOptions = this.withReadPreference({
+        ...options,
+        where: this.scopeWhere(this.getPrimaryKeyWhere(primaryKey)),
+      })
+
+      return await this.cached(['findOne'], findOptions, options?.cache, () =>
+        this.getScopedModel().findOne(findOptions),
+      )
+    } catch (error) {
+      throw this.handleError('findByPk', error)
+    }
+  }
+
+  public async findByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel> {
+    const entity = await this.findByPk(primaryKey, options)
+
+    if (!entity) {
+      throw this.notFoundError('findByPkOrFail', { key: primaryKey })
+    }
+
+    return entity
+  }
+
+  public async findManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]> {
+    if (!primaryKeys.length) {
+      return []
+    }
+
+    try {
+      const entities = await this.findAll(
+        this.getPrimaryKeysWhere(primaryKeys),
+        options,
+      )
+      const byId = new Map(
+        entities.map((entity) => [this.getEntityId(entity), entity]),
+      )
+      const ids = new Set(
+        primaryKeys.map((primaryKey) =>
+          this.getEntityId(this.getPrimaryKeyValues(primaryKey)),
+        ),
+      )
+
+      return [...ids].flatMap((id) => byId.get(id) ?? [])
     } catch (error) {
-      this.logger.error(`findByPk: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('findManyByPks', error)
     }
   }
 
   public async findOne(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
   ): Promise<TModel | null> {
     try {
-      return await this.model.findOne({
-        where: query,
-        ...options,
-      })
+      const findOptions = this.withReadPreference(
+        this.resolveQuery(query, options),
+      )
+
+      return await this.cached(['findOne'], findOptions, options?.cache, () =>
+        this.getScopedModel().findOne(findOptions),
+      )
     } catch (error) {
-      this.logger.error(`findOne: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('findOne', error)
+    }
+  }
+
+  public async findOneOrFail(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel> {
+    const entity = await this.findOne(query, options)
+
+    if (!entity) {
+      throw this.notFoundError('findOneOrFail', { query })
     }
+
+    return entity
   }
 
   public async findAll(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
   ): Promise<TModel[]> {
     try {
-      return await this.model.findAll({
-        where: query,
-        ...options,
-      })
+      const findOptions = this.withReadPreference(
+        this.resolveQuery(query, options),
+      )
+
+      return await this.cached(['findAll'], findOptions, options?.cache, () =>
+        this.getScopedModel().findAll(findOptions),
+      )
+    } catch (error) {
+      throw this.handleError('findAll', error)
+    }
+  }
+
+  public async findByPkForUpdate(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel | null> {
+    const { skipLocked, noWait, ...findOptions } = options ?? {}
+
+    try {
+      const [entity = null] = await this.findLocked(
+        'findByPkForUpdate',
+        {
+          ...findOptions,
+          where: this.scopeWhere(this.getPrimaryKeyWhere(primaryKey)),
+        },
+        { skipLocked, noWait },
+      )
+
+      return entity
+    } catch (error) {
+      throw this.handleError('findByPkForUpdate', error)
+    }
+  }
+
+  public async findAllForUpdate(
+    query?: RepositoryQuery<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel[]> {
+    const { skipLocked, noWait, ...findOptions } = options ?? {}
+
+    return this.findLocked(
+      'findAllForUpdate',
+      this.resolveQuery(query, findOptions),
+      { skipLocked, noWait },
+    )
+  }
+
+  public async claimNext(
+    query?: RepositoryQuery<TModel>,
+    limit = 1,
+    options?: ClaimOptions<TModel>,
+  ): Promise<TModel[]> {
+    try {
+      this.validateLimit(limit)
+
+      return await this.findLocked(
+        'claimNext',
+        this.resolveQuery(query, {
+          order: [[this.model.primaryKeyAttribute, 'ASC']],
+          ...options,
+          limit,
+        }),
+        { skipLocked: true },
+      )
     } catch (error) {
-      this.logger.error(`findAll: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('claimNext', error)
     }
   }
 
   public async findAllPaginated(
     options: PaginationOptions<TModel>,
-  ): Promise<{ rows: TModel[]; count: number }> {
+  ): Promise<Page<TModel>> {
+    let {
+      limit = 10,
+      offset = 0,
+      page,
+      query,
+      findOptions,
+      skipCount = false,
+      readPreference,
+    } = options
+
     try {
-      let { limit = 10, offset = 0, page, query, findOptions } = options
+      this.validateLimit(limit)
+
+      if (page !== undefined && (!Number.isInteger(page) || page < 1)) {
+        throw new InvalidQueryError('Page must be a positive integer')
+      }
+
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new InvalidQueryError('Offset must be a non-negative integer')
+      }
 
       if (!offset && page) {
         offset = this.calculateOffset(limit, page)
       }
 
-      return await this.model.findAndCountAll({
-        where: query,
+      let rows: TModel[]
+      let count: number | null = null
+      let hasNext: boolean
+
+      if (skipCount) {
+        rows = await this.getScopedModel().findAll(
+          this.withReadPreference(
+            this.resolveQuery(query, {
+              limit: limit + 1,
+              offset,
+              readPreference,
+              ...findOptions,
+            }),
+          ),
+        )
+        hasNext = rows.length > limit
+        rows = rows.slice(0, limit)
+      } else {
+        const result = await this.getScopedModel().findAndCountAll(
+          this.withReadPreference(
+            this.resolveQuery(query, {
+              limit,
+              offset,
+              readPreference,
+              ...findOptions,
+            }),
+          ),
+        )
+        rows = result.rows
+        count = result.count
+        hasNext = offset + rows.length < count
+      }
+
+      return {
+        rows,
+        count,
         limit,
         offset,
-        ...findOptions,
-      })
+        currentPage: Math.floor(offset / limit) + 1,
+        totalPages: count === null ? null : Math.ceil(count / limit),
+        hasNext,
+        hasPrev: offset > 0,
+      }
     } catch (error) {
-      this.logger.error(`findAllPaginated: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('findAllPaginated', error)
     }
   }
 
-  public async updateByPk(
-    primaryKey: string | number,
-    dto: Partial<Attributes<TModel>>,
-    options?: SaveOptions<Attributes<TModel>>,
-  ): Promise<TModel | null> {
+  public async findEach(
+    query: RepositoryQuery<TModel> | undefined,
+    options: IterateOptions<TModel> | undefined,
+    handler: (entity: TModel) => void | Promise<void>,
+  ): Promise<void> {
+    for await (const entity of this.iterate(query, options)) {
+      await handler(entity)
+    }
+  }
+
+  public iterate(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): AsyncGenerator<TModel> {
+    const { batchSize = 100, orderBy = [], ...findOptions } = options ?? {}
+
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw this.handleError(
+        'iterate',
+        new InvalidQueryError('Batch size must be a positive integer'),
+      )
+    }
+
+    const order: [string, CursorDirection][] = [
+      ...orderBy,
+      ...this.model.primaryKeyAttributes
+        .filter((key) => !orderBy.some(([column]) => column === key))
+        .map((key): [string, CursorDirection] => [key, 'ASC']),
+    ]
+
+    return this.iterateBatches(
+      this.withReadPreference(this.resolveQuery(query, findOptions)),
+      order,
+      batchSize,
+    )
+  }
+
+  public stream(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): Readable {
+    return Readable.from(this.iterate(query, options))
+  }
+
+  public async findAllByCursor(
+    options: CursorPaginationOptions<TModel>,
+  ): Promise<CursorPage<TModel>> {
+    const {
+      orderBy,
+      after,
+      before,
+      limit = 10,
+      query,
+      findOptions,
+      readPreference,
+    } = options
+
     try {
-      const entity = await this.findByPk(primaryKey)
+      if (!orderBy.length) {
+        throw new InvalidQueryError('Cursor pagination requires orderBy')
+      }
 
-      if (!entity) {
-        return null
+      this.validateLimit(limit)
+
+      if (after && before) {
+        throw new InvalidQueryError('Only one of after or before can be set')
+      }
+
+      const cursor = after ?? before
+      const backward = before !== undefined
+      const values = cursor ? this.decodeCursor(cursor, orderBy) : undefined
+      const order = orderBy.map(
+        ([column, direction]): [string, 'ASC' | 'DESC'] => [
+          column,
+          backward ? (direction === 'ASC' ? 'DESC' : 'ASC') : direction,
+        ],
+      )
+      const where = this.scopeWhere(
+        values
+          ? {
+              [Op.and]: [
+                query ?? {},
+                buildKeysetWhere(order, values, this.hasNullsLargest()),
+              ],
+            }
+          : query,
+      )
+
+      const rows = await this.getScopedModel().findAll(
+        this.withReadPreference({
+          readPreference,
+          ...findOptions,
+          where,
+          order,
+          limit: limit + 1,
+        }),
+      )
+
+      const hasMore = rows.length > limit
+      const page = rows.slice(0, limit)
+
+      if (backward) {
+        page.reverse()
       }
 
-      entity.set(dto)
-      return await entity.save(options)
+      return {
+        rows: page,
+        startCursor: page.length ? this.encodeCursor(page[0], orderBy) : null,
+        endCursor: page.length
+          ? this.encodeCursor(page[page.length - 1], orderBy)
+          : null,
+        hasNextPage: backward ? true : hasMore,
+        hasPreviousPage: backward ? hasMore : after !== undefined,
+      }
     } catch (error) {
-      this.logger.error(`updatedByPk: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('findAllByCursor', error)
     }
   }
 
-  public async deleteByPk(
-    primaryKey: string | number,
-    options?: InstanceDestroyOptions,
+  public async updateByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
   ): Promise<TModel | null> {
+    const { expectedVersion, ...saveOptions } = this.withTransaction(options)
+    const { transaction } = saveOptions
+
     try {
+      if (this.options.audit && !transaction) {
+        return await this.runInTransaction(undefined, (transaction) =>
+          this.updateByPk(primaryKey, dto, { ...options, transaction }),
+        )
+      }
+
       const entity = await this.findByPk(primaryKey, {
-        paranoid: !options?.force,
+        transaction,
+        readPreference: ReadPreference.PRIMARY,
+        cache: false,
       })
 
       if (!entity) {
         return null
       }
 
-      if (options?.force && entity.getDataValue('deletedAt') !== undefined) {
-        entity.setDataValue('deletedAt', new Date())
+      this.assertVersion(entity, primaryKey, expectedVersion)
+
+      const before = this.snapshot(entity)
+
+      entity.set(this.stampActor(this.stampTenant(dto), false))
+      const event = {
+        operation: 'updateByPk',
+        transaction,
+        entity,
+        changes: getEntityChanges(entity),
       }
-      await entity.destroy(options)
+
+      await this.events.emit('beforeUpdate', event)
+      await entity.save(saveOptions)
+      await this.events.emit('afterUpdate', event)
+      await this.audit(
+        [
+          {
+            operation: AuditOperation.UPDATE,
+            before,
+            after: this.snapshot(entity),
+          },
+        ],
+        transaction,
+      )
+      await this.markWrite(transaction)
 
       return entity
     } catch (error) {
-      this.logger.error(`deleteByPk: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('updateByPk', error)
     }
   }
 
-  public async delete(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: DestroyOptions<Attributes<TModel>>,
-  ): Promise<number> {
+  public async updateByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
+  ): Promise<TModel> {
+    const entity = await this.updateByPk(primaryKey, dto, options)
+
+    if (!entity) {
+      throw this.notFoundError('updateByPkOrFail', { key: primaryKey })
+    }
+
+    return entity
+  }
+
+  public async update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options: UpdateOptions<TModel> & { returning: true },
+  ): Promise<TModel[]>
+  public async update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateOptions<TModel>,
+  ): Promise<number>
+  public async update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateOptions<TModel>,
+  ): Promise<number | TModel[]> {
+    const { returning = false, ...updateOptions } = this.withTransaction(
+      options ?? {},
+    )
+
     try {
-      return this.model.destroy({
-        where: query,
-        ...options,
-      })
+      const dialect = this.model.sequelize!.getDialect()
+
+      if (returning && !returningDialects.has(dialect)) {
+        throw new UnsupportedDialectError('RETURNING', dialect)
+      }
+
+      if (this.options.audit && !updateOptions.transaction) {
+        return await this.runInTransaction(undefined, (transaction) =>
+          this.update(query, dto, { ...options, transaction }),
+        )
+      }
+
+      const where = this.resolveQuery(query).where ?? {}
+      const loaded =
+        this.options.audit || this.events.has('beforeUpdate', 'afterUpdate')
+          ? await this.getScopedModel().findAll({
+              where,
+              paranoid: updateOptions.paranoid,
+              transaction: updateOptions.transaction,
+            })
+          : []
+      const values = this.stampActor(this.stampTenant(dto), false)
+      const events = this.getUpdateEvents(
+        'update',
+        updateOptions.transaction,
+        loaded,
+        values,
+      )
+
+      for (const event of events) {
+        await this.events.emit('beforeUpdate', event)
+      }
+      const [count, rows] = (await this.getScopedModel().update(
+        this.incrementVersion(values),
+        { ...updateOptions, where, returning },
+      )) as unknown as [number, TModel[]]
+      for (const event of events) {
+        await this.events.emit('afterUpdate', event)
+      }
+      await this.auditReloaded(
+        AuditOperation.UPDATE,
+        loaded,
+        updateOptions.transaction,
+      )
+      await this.markWrite(updateOptions.transaction)
+
+      return returning ? rows : count
     } catch (error) {
-      this.logger.error(`delete: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('update', error)
     }
   }
 
-  public async restore(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: RestoreOptions<Attributes<TModel>>,
-  ): Promise<void> {
+  public async updateMany(
+    updates: EntityUpdate<TModel>[],
+    options?: UpdateManyOptions<TModel>,
+  ): Promise<number> {
+    const { transaction, ...updateOptions } = this.withTransaction(options)
+    const groups = new Map<string, EntityUpdate<TModel>[]>()
+
+    for (const update of updates) {
+      const key = JSON.stringify(update.changes)
+      groups.set(key, [...(groups.get(key) ?? []), update])
+    }
+
     try {
-      return this.model.restore({ where: query, ...options })
+      return await this.runInTransaction(transaction, async (transaction) => {
+        const loaded =
+          this.options.audit || this.events.has('beforeUpdate', 'afterUpdate')
+            ? await this.getScopedModel().findAll({
+                where: this.scopeWhere(
+                  this.getPrimaryKeysWhere(updates.map(({ pk }) => pk)),
+                ),
+                transaction,
+              })
+            : []
+        const loadedById = new Map(
+          loaded.map((entity) => [this.getEntityId(entity), entity]),
+        )
+        let count = 0
+
+        for (const group of groups.values()) {
+          const values = this.stampActor(
+            this.stampTenant(group[0].changes),
+            false,
+          )
+          const events = this.getUpdateEvents(
+            'updateMany',
+            transaction,
+            group.flatMap(
+              ({ pk }) =>
+                loadedById.get(
+                  this.getEntityId(this.getPrimaryKeyValues(pk)),
+                ) ?? [],
+            ),
+            values,
+          )
+
+          for (const event of events) {
+            await this.events.emit('beforeUpdate', event)
+          }
+          const [affected] = await this.getScopedModel().update(
+            this.incrementVersion(values),
+            {
+              ...updateOptions,
+              transaction,
+              where: this.scopeWhere(
+                this.getPrimaryKeysWhere(group.map(({ pk }) => pk)),
+              )!,
+            },
+          )
+          for (const event of events) {
+            await this.events.emit('afterUpdate', event)
+          }
+          count += affected
+        }
+        await this.auditReloaded(AuditOperation.UPDATE, loaded, transaction)
+        await this.markWrite(transaction)
+
+        return count
+      })
     } catch (error) {
-      this.logger.error(`restore: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('updateMany', error)
     }
   }
 
-  public async restoreByPk(
-    primaryKey: string | number,
-    options?: InstanceRestoreOptions,
+  public async deleteByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
   ): Promise<TModel | null> {
+    const { expectedVersion, ...destroyOptions } = this.withTransaction(options)
+    const { transaction } = destroyOptions
+
     try {
+      const cascade =
+        !options?.force && this.getCascadedAssociations().length > 0
+
+      if ((cascade || this.options.audit) && !transaction) {
+        return await this.runInTransaction(undefined, (transaction) =>
+          this.deleteByPk(primaryKey, { ...options, transaction }),
+        )
+      }
+
       const entity = await this.findByPk(primaryKey, {
-        ...options,
-        paranoid: false,
+        paranoid: !options?.force,
+        transaction,
+        readPreference: ReadPreference.PRIMARY,
+        cache: false,
       })
 
       if (!entity) {
         return null
       }
 
-      await entity.restore(options)
+      this.assertVersion(entity, primaryKey, expectedVersion)
+
+      const event = {
+        operation: 'deleteByPk',
+        transaction,
+        entities: [entity],
+        force: !!options?.force,
+      }
+
+      await this.events.emit('beforeDelete', event)
+      if (options?.force && entity.getDataValue('deletedAt') !== undefined) {
+        entity.setDataValue('deletedAt', new Date())
+      }
+      const before = this.snapshot(entity)
+
+      await entity.destroy(destroyOptions)
+      if (cascade) {
+        await this.cascadeDelete([entity], transaction)
+      }
+      await this.events.emit('afterDelete', event)
+      await this.audit(
+        [{ operation: AuditOperation.DELETE, before, after: null }],
+        transaction,
+      )
+      await this.markWrite(transaction)
 
       return entity
     } catch (error) {
-      this.logger.error(`restoreByPk: ${error}`)
-      throw new InternalServerErrorException()
+      throw this.handleError('deleteByPk', error)
     }
   }
 
-  public async transaction<R>(
-    runInTransaction: (transaction: Transaction) => Promise<R>,
-  ): Promise<R> {
-    return this.model.sequelize!.transaction(async (transaction) => {
-      try {
-        return await runInTransaction(transaction)
-      } catch (error) {
-        this.logger.error(`transaction: ${error}`)
-        throw new InternalServerErrorException()
-      }
-    })
+  public async deleteByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
+  ): Promise<TModel> {
+    const entity = await this.deleteByPk(primaryKey, options)
+
+    if (!entity) {
+      throw this.notFoundError('deleteByPkOrFail', { key: primaryKey })
+    }
+
+    return entity
   }
 
-  public calculateOffset(limit: number, page: number): number {
-    return limit * (page - 1)
+  public async deleteManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<number> {
+    if (!primaryKeys.length) {
+      return 0
+    }
+
+    try {
+      return await this.delete(this.getPrimaryKeysWhere(primaryKeys), options)
+    } catch (error) {
+      throw this.handleError('deleteManyByPks', error)
+    }
+  }
+
+  public async count(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<number> {
+    try {
+      const findOptions = this.withReadPreference(
+        this.resolveQuery(query, options),
+      )
+
+      return await this.cached(['count'], findOptions, options?.cache, () =>
+        this.getScopedModel().count(findOptions),
+      )
+    } catch (error) {
+      throw this.handleError('count', error)
+    }
+  }
+
+  public async exists(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<boolean> {
+    try {
+      const findOptions = this.withReadPreference(
+        this.resolveQuery(query, {
+          ...options,
+          attributes: [this.model.primaryKeyAttribute],
+          raw: true,
+        }),
+      )
+
+      return await this.cached(
+        ['exists'],
+        findOptions,
+        options?.cache,
+        async () => (await this.getScopedModel().findOne(findOptions)) !== null,
+      )
+    } catch (error) {
+      throw this.handleError('exists', error)
+    }
+  }
+
+  public async sum(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number> {
+    const sum = await this.aggregateColumn('sum', column, query, options)
+
+    return Number(sum ?? 0)
+  }
+
+  public async avg(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number | null> {
+    const avg = await this.aggregateColumn('avg', column, query, options)
+
+    return avg === null ? null : Number(avg)
+  }
+
+  public async min<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null> {
+    return this.aggregateColumn('min', column, query, options) as Promise<
+      Attributes<TModel>[K] | null
+    >
+  }
+
+  public async max<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null> {
+    return this.aggregateColumn('max', column, query, options) as Promise<
+      Attributes<TModel>[K] | null
+    >
+  }
+
+  public async groupBy<
+    K extends keyof Attributes<TModel> & string,
+    const A extends Record<string, Aggregate<TModel>>,
+  >(
+    columns: K[],
+    aggregates: A,
+    query?: RepositoryQuery<TModel>,
+    options?: GroupByOptions<TModel>,
+  ): Promise<GroupByRow<TModel, K, A>[]> {
+    try {
+      const attributes = this.model.getAttributes()
+      const field = (column: string) =>
+        attributes[column as keyof Attributes<TModel>]?.field ?? column
+      const findOptions = this.withReadPreference(
+        this.resolveQuery(query, {
+          ...options,
+          attributes: [
+            ...columns,
+            ...Object.entries(aggregates).map(
+              ([alias, [aggregate, column]]): [
+                ReturnType<typeof fn>,
+                string,
+              ] => [
+                fn(aggregate.toUpperCase(), col(column ? field(column) : '*')),
+                alias,
+              ],
+            ),
+          ],
+          group: columns.map(field),
+          raw: true,
+        }),
+      )
+
+      return await this.cached(
+        ['groupBy'],
+        findOptions,
+        options?.cache,
+        async () => {
+          const rows = (await this.getScopedModel().findAll(
+            findOptions,
+          )) as unknown as Record<string, unknown>[]
+
+          return rows.map((row) => ({
+            ...row,
+            ...Object.fromEntries(
+              Object.entries(aggregates)
+                .filter(
+                  ([, [aggregate]]) => !['min', 'max'].includes(aggregate),
+                )
+                .map(([alias]) => [
+                  alias,
+                  row[alias] === null ? null : Number(row[alias]),
+                ]),
+            ),
+          })) as GroupByRow<TModel, K, A>[]
+        },
+      )
+    } catch (error) {
+      throw this.handleError('groupBy', error)
+    }
+  }
+
+  public async delete(
+    query?: RepositoryQuery<TModel>,
+    options?: DestroyOptions<Attributes<TModel>>,
+  ): Promise<number> {
+    try {
+      const destroyOptions = this.withTransaction({
+        where: this.resolveQuery(query).where,
+        ...options,
+      })
+      const { transaction } = destroyOptions
+      const cascade =
+        !options?.force && this.getCascadedAssociations().length > 0
+
+      if ((cascade || this.options.audit) && !transaction) {
+        return await this.runInTransaction(undefined, (transaction) =>
+          this.delete(query, { ...options, transaction }),
+        )
+      }
+
+      if (
+        !this.events.has('beforeDelete', 'afterDelete') &&
+        !this.options.audit &&
+        !cascade
+      ) {
+        const count = await this.getScopedModel().destroy(destroyOptions)
+        await this.markWrite(transaction)
+
+        return count
+      }
+
+      const event = {
+        operation: 'delete',
+        transaction,
+        entities: await this.getScopedModel().findAll({
+          where: destroyOptions.where,
+          paranoid: !options?.force,
+          transaction,
+        }),
+        force: !!options?.force,
+      }
+
+      await this.events.emit('beforeDelete', event)
+      const count = await this.getScopedModel().destroy(destroyOptions)
+      if (cascade) {
+        await this.cascadeDelete(event.entities, transaction)
+      }
+      await this.events.emit('afterDelete', event)
+      await this.audit(
+        event.entities.map((entity) => ({
+          operation: AuditOperation.DELETE,
+          before: this.snapshot(entity),
+          after: null,
+        })),
+        transaction,
+      )
+      await this.markWrite(transaction)
+
+      return count
+    } catch (error) {
+      throw this.handleError('delete', error)
+    }
+  }
+
+  public async restore(
+    query?: WhereOptions<Attributes<TModel>>,
+    options?: RestoreOptions<Attributes<TModel>>,
+  ): Promise<void> {
+    try {
+      const restoreOptions = this.withTransaction({
+        where: this.scopeWhere(query),
+        ...options,
+      })
+      const { transaction } = restoreOptions
+      const cascade = this.getCascadedAssociations().length > 0
+
+      if ((cascade || this.options.audit) && !transaction) {
+        return await this.runInTransaction(undefined, (transaction) =>
+          this.restore(query, { ...options, transaction }),
+        )
+      }
+
+      if (
+        !this.events.has('beforeRestore', 'afterRestore') &&
+        !this.options.audit &&
+        !cascade
+      ) {
+        await this.getScopedModel().restore(restoreOptions)
+        await this.markWrite(transaction)
+
+        return
+      }
+
+      const entities = await this.getScopedModel().findAll({
+        where: restoreOptions.where,
+        paranoid: false,
+        transaction,
+      })
+      const event = {
+        operation: 'restore',
+        transaction,
+        entities: entities.filter((entity) => entity.isSoftDeleted()),
+      }
+
+      await this.events.emit('beforeRestore', event)
+      await this.cascadeRestore(event.entities, transaction)
+      await this.getScopedModel().restore(restoreOptions)
+      await this.events.emit('afterRestore', event)
+      await this.auditReloaded(
+        AuditOperation.RESTORE,
+        event.entities,
+        transaction,
+      )
+      await this.markWrite(transaction)
+    } catch (error) {
+      throw this.handleError('restore', error)
+    }
+  }
+
+  public async restoreByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel | null> {
+    const restoreOptions = this.withTransaction(options)
+    const { transaction } = restoreOptions
+
+    try {
+      if (
+        (this.getCascadedAssociations().length || this.options.audit) &&
+        !transaction
+      ) {
+        return await this.runInTransaction(undefined, (transaction) =>
+          this.restoreByPk(primaryKey, { ...options, transaction }),
+        )
+      }
+
+      const entity = await this.findByPk(primaryKey, {
+        ...options,
+        paranoid: false,
+        readPreference: ReadPreference.PRIMARY,
+        cache: false,
+      })
+
+      if (!entity) {
+        return null
+      }
+
+      const event = {
+        operation: 'restoreByPk',
+        transaction,
+        entities: [entity],
+      }
+
+      const before = this.snapshot(entity)
+
+      await this.events.emit('beforeRestore', event)
+      await this.cascadeRestore([entity], transaction)
+      await entity.restore(restoreOptions)
+      await this.events.emit('afterRestore', event)
+      await this.audit(
+        [
+          {
+            operation: AuditOperation.RESTORE,
+            before,
+            after: this.snapshot(entity),
+          },
+        ],
+        transaction,
+      )
+      await this.markWrite(transaction)
+
+      return entity
+    } catch (error) {
+      throw this.handleError('restoreByPk', error)
+    }
+  }
+
+  public async restoreByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel> {
+    const entity = await this.restoreByPk(primaryKey, options)
+
+    if (!entity) {
+      throw this.notFoundError('restoreByPkOrFail', { key: primaryKey })
+    }
+
+    return entity
+  }
+
+  public async findDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]> {
+    const deleted = this.onlyDeleted(query)
+
+    if (!deleted) {
+      return []
+    }
+
+    return this.findAll(deleted, { ...options, paranoid: false })
+  }
+
+  public async findAllWithDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]> {
+    return this.findAll(query, { ...options, paranoid: false })
+  }
+
+  public async countDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedCountOptions<TModel>,
+  ): Promise<number> {
+    const deleted = this.onlyDeleted(query)
+
+    if (!deleted) {
+      return 0
+    }
+
+    return this.count(deleted, { ...options, paranoid: false })
+  }
+
+  public async purgeDeleted(
+    options?: PurgeDeletedOptions<TModel>,
+  ): Promise<number> {
+    const { olderThan, query, transaction } = options ?? {}
+    const deleted = this.onlyDeleted(query, olderThan)
+
+    if (!deleted) {
+      return 0
+    }
+
+    return this.delete(deleted, { transaction, force: true })
+  }
+
+  public async isDeleted(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable & ReadOptions,
+  ): Promise<boolean> {
+    if (!this.getDeletedAtAttribute()) {
+      return false
+    }
+
+    const entity = await this.findByPk(primaryKey, {
+      ...options,
+      paranoid: false,
+    })
+
+    return !!entity?.isSoftDeleted()
+  }
+
+  public async getHistory(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable,
+  ): Promise<AuditEntry<TModel>[]> {
+    const { sink = defaultAuditSink } = this.options.audit ?? {}
+
+    try {
+      return (await sink.getHistory(
+        this.model.name,
+        this.getEntityId(this.getPrimaryKeyValues(primaryKey)),
+        this.withTransaction(options).transaction,
+      )) as AuditEntry<TModel>[]
+    } catch (error) {
+      throw this.handleError('getHistory', error)
+    }
+  }
+
+  public async recordEvent<TPayload = unknown>(
+    type: string,
+    payload: TPayload,
+    options?: RecordEventOptions,
+  ): Promise<void> {
+    const { aggregateId, transaction } = this.withTransaction(options)
+    const { model = OutboxEvent } = this.options.outbox ?? {}
+
+    try {
+      if (!transaction) {
+        throw new TransactionRequiredError('recordEvent')
+      }
+
+      await model.create(
+        {
+          aggregateType: this.model.name,
+          aggregateId: aggregateId === undefined ? null : String(aggregateId),
+          type,
+          payload,
+        },
+        { transaction },
+      )
+    } catch (error) {
+      throw this.handleError('recordEvent', error)
+    }
+  }
+
+  public async transaction<R>(
+    runInTransaction: (transaction: Transaction) => Promise<R>,
+    options?: TransactionOptions,
+  ): Promise<R> {
+    return TransactionContext.run(
+      this.model.sequelize!,
+      async (transaction) => {
+        try {
+          return await runInTransaction(transaction)
+        } catch (error) {
+          throw this.handleError('transaction', error)
+        }
+      },
+      options,
+    )
+  }
+
+  public calculateOffset(limit: number, page: number): number {
+    return limit * (page - 1)
+  }
+
+  public query(): QueryBuilder<TModel> {
+    return new QueryBuilder(this)
+  }
+
+  public on<E extends RepositoryEventName>(
+    event: E,
+    listener: RepositoryEventListener<RepositoryEventMap<TModel>[E]>,
+  ): () => void {
+    return this.events.on(event, listener)
+  }
+
+  public onBeforeCreate(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['beforeCreate']
+    >,
+  ): () => void {
+    return this.on('beforeCreate', listener)
+  }
+
+  public onAfterCreate(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['afterCreate']
+    >,
+  ): () => void {
+    return this.on('afterCreate', listener)
+  }
+
+  public onBeforeUpdate(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['beforeUpdate']
+    >,
+  ): () => void {
+    return this.on('beforeUpdate', listener)
+  }
+
+  public onAfterUpdate(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['afterUpdate']
+    >,
+  ): () => void {
+    return this.on('afterUpdate', listener)
+  }
+
+  public onBeforeDelete(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['beforeDelete']
+    >,
+  ): () => void {
+    return this.on('beforeDelete', listener)
+  }
+
+  public onAfterDelete(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['afterDelete']
+    >,
+  ): () => void {
+    return this.on('afterDelete', listener)
+  }
+
+  public onBeforeRestore(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['beforeRestore']
+    >,
+  ): () => void {
+    return this.on('beforeRestore', listener)
+  }
+
+  public onAfterRestore(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['afterRestore']
+    >,
+  ): () => void {
+    return this.on('afterRestore', listener)
+  }
+
+  protected resolveQuery<TOptions extends SpecificationFindOptions<TModel>>(
+    query?: RepositoryQuery<TModel>,
+    options?: TOptions,
+  ): TOptions & { where?: WhereOptions<Attributes<TModel>> } {
+    if (!(query instanceof Specification)) {
+      return { where: this.scopeWhere(query), ...options } as TOptions & {
+        where?: WhereOptions<Attributes<TModel>>
+      }
+    }
+
+    return {
+      ...options,
+      ...mergeFindOptions(query.toFindOptions(), options ?? {}),
+      where: this.scopeWhere(query.toWhere()),
+    } as TOptions & { where: WhereOptions<Attributes<TModel>> }
+  }
+
+  protected getTenant(): TenantId | undefined {
+    const { tenant } = this.options
+
+    if (!tenant) {
+      return undefined
+    }
+
+    const { resolver = () => TenantContext.getTenant(), required = true } =
+      tenant
+    const tenantId = resolver()
+
+    if (tenantId === undefined && required) {
+      throw new TenantNotResolvedError(this.model.name)
+    }
+
+    return tenantId
+  }
+
+  protected getScopedModel(): ModelCtor<TModel> {
+    return this.scopeModel(this.model)
+  }
+
+  protected scopeModel<M extends ModelStatic<any>>(model: M): M {
+    if (this.options.tenant?.strategy !== TenantStrategy.SCHEMA) {
+      return model
+    }
+
+    const tenant = this.getTenant()
+
+    if (tenant === undefined) {
+      return model
+    }
+
+    const { schema = String } = this.options.tenant
+    const schemaName = schema(tenant)
+    const key = toCacheKey(model.name, schemaName)
+    let scoped = this.schemaModels.get(key)
+
+    if (!scoped) {
+      scoped = model.schema(schemaName)
+      this.schemaModels.set(key, scoped)
+    }
+
+    return scoped as M
+  }
+
+  protected getTenantWhere(): WhereOptions<Attributes<TModel>> | undefined {
+    const { tenant } = this.options
+
+    if (!tenant || tenant.strategy === TenantStrategy.SCHEMA) {
+      return undefined
+    }
+
+    const tenantId = this.getTenant()
+
+    if (tenantId === undefined) {
+      return undefined
+    }
+
+    return { [tenant.column ?? 'tenantId']: tenantId } as WhereOptions<
+      Attributes<TModel>
+    >
+  }
+
+  protected scopeWhere(
+    where?: WhereOptions<Attributes<TModel>>,
+  ): WhereOptions<Attributes<TModel>> | undefined {
+    const tenantWhere = this.getTenantWhere()
+
+    if (!tenantWhere) {
+      return where
+    }
+
+    return where ? { [Op.and]: [where, tenantWhere] } : tenantWhere
+  }
+
+  protected stampTenant<T extends object>(values: T): T {
+    const tenantWhere = this.getTenantWhere()
+
+    return tenantWhere ? { ...values, ...tenantWhere } : values
+  }
+
+  protected hasCompositeKey(): boolean {
+    return this.model.primaryKeyAttributes.length > 1
+  }
+
+  protected getPrimaryKeyValues(
+    primaryKey: EntityKey,
+  ): Record<string, unknown> {
+    return toKeyValues(
+      this.model.name,
+      [...this.model.primaryKeyAttributes],
+      primaryKey,
+    )
+  }
+
+  protected getPrimaryKeyWhere(
+    primaryKey: EntityKey,
+  ): WhereOptions<Attributes<TModel>> {
+    return this.getPrimaryKeyValues(primaryKey) as WhereOptions<
+      Attributes<TModel>
+    >
+  }
+
+  protected getPrimaryKeysWhere(
+    primaryKeys: EntityKey[],
+  ): WhereOptions<Attributes<TModel>> {
+    const keys = primaryKeys.map((primaryKey) =>
+      this.getPrimaryKeyValues(primaryKey),
+    )
+
+    if (!this.hasCompositeKey()) {
+      const primaryKey = this.model.primaryKeyAttribute
+
+      return {
+        [primaryKey]: keys.map((key) => key[primaryKey]),
+      } as WhereOptions<Attributes<TModel>>
+    }
+
+    return { [Op.or]: keys } as WhereOptions<Attributes<TModel>>
+  }
+
+  protected getEntityId(values: object): string {
+    return toEntityId(
+      [...this.model.primaryKeyAttributes],
+      values instanceof Model
+        ? values.get({ plain: true })
+        : (values as Record<string, unknown>),
+    )
+  }
+
+  protected isAuditable(): boolean {
+    return this.model.prototype instanceof AuditableBaseModel
+  }
+
+  protected getActor(): ActorId | undefined {
+    const { resolver = () => AuditContext.getActor() } =
+      this.options.audit ?? {}
+
+    return resolver()
+  }
+
+  protected stampActor<T extends object>(values: T, created: boolean): T {
+    const actorId = this.isAuditable() ? this.getActor() : undefined
+
+    if (actorId === undefined) {
+      return values
+    }
+
+    const actor = String(actorId)
+
+    return created
+      ? { createdBy: actor, updatedBy: actor, ...values }
+      : { updatedBy: actor, ...values }
+  }
+
+  protected async runInTransaction<R>(
+    transaction: Transaction | null | undefined,
+    callback: (transaction: Transaction) => Promise<R>,
+  ): Promise<R> {
+    if (transaction) {
+      return callback(transaction)
+    }
+
+    return TransactionContext.run(this.model.sequelize!, callback)
+  }
+
+  protected async findLocked(
+    operation: string,
+    findOptions: FindOptions<Attributes<TModel>>,
+    lockOptions: Pick<LockOptions<TModel>, 'skipLocked' | 'noWait'> = {},
+  ): Promise<TModel[]> {
+    const { skipLocked = false, noWait = false } = lockOptions
+    const dialect = this.model.sequelize!.getDialect()
+
+    try {
+      if (!lockingDialects.has(dialect)) {
+        throw new UnsupportedDialectError('Row locking', dialect)
+      }
+
+      if (skipLocked && !skipLockedDialects.has(dialect)) {
+        throw new UnsupportedDialectError('SKIP LOCKED', dialect)
+      }
+
+      if (noWait) {
+        throw new UnsupportedDialectError('NOWAIT', dialect)
+      }
+
+      const { transaction, ...options } = this.withTransaction(findOptions)
+
+      if (!transaction) {
+        throw new TransactionRequiredError(operation)
+      }
+
+      return await this.getScopedModel().findAll({
+        ...options,
+        transaction,
+        lock: Transaction.LOCK.UPDATE,
+        skipLocked,
+      })
+    } catch (error) {
+      throw this.handleError(operation, error)
+    }
+  }
+
+  protected async *iterateBatches(
+    findOptions: FindOptions<Attributes<TModel>>,
+    order: [string, CursorDirection][],
+    batchSize: number,
+  ): AsyncGenerator<TModel> {
+    const { where, ...options } = findOptions
+    let values: unknown[] | undefined
+
+    while (true) {
+      let rows: TModel[]
+
+      try {
+        rows = await this.getScopedModel().findAll({
+          ...options,
+          where: values
+            ? {
+                [Op.and]: [
+                  where ?? {},
+                  buildKeysetWhere(order, values, this.hasNullsLargest()),
+                ],
+              }
+            : where,
+          order,
+          limit: batchSize,
+        })
+      } catch (error) {
+        throw this.handleError('iterate', error)
+      }
+
+      yield* rows
+
+      if (rows.length < batchSize) {
+        return
+      }
+
+      const last = rows[rows.length - 1]
+      values = order.map(([column]) =>
+        last.getDataValue(column as keyof TModel),
+      )
+    }
+  }
+
+  protected async aggregateColumn(
+    aggregate: AggregateFunction,
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<unknown> {
+    try {
+      const findOptions = this.withReadPreference(
+        this.resolveQuery<
+          AggregateOptions<TModel> & SpecificationFindOptions<TModel>
+        >(query, { ...options }),
+      )
+
+      return await this.cached(
+        [aggregate, column],
+        findOptions,
+        options?.cache,
+        async () =>
+          (await this.getScopedModel().aggregate(column, aggregate, {
+            ...findOptions,
+            dataType:
+              aggregate === 'sum' || aggregate === 'avg'
+                ? DataTypes.FLOAT
+                : undefined,
+          })) ?? null,
+      )
+    } catch (error) {
+      throw this.handleError(aggregate, error)
+    }
+  }
+
+  protected snapshot(entity?: TModel | null): AuditSnapshot<TModel> | null {
+    return entity ? entity.get({ plain: true, clone: true }) : null
+  }
+
+  protected getUpdateEvents(
+    operation: string,
+    transaction: Transaction | null | undefined,
+    entities: TModel[],
+    values: Partial<Attributes<TModel>>,
+  ): Omit<UpdateEvent<TModel>, 'model'>[] {
+    if (!this.events.has('beforeUpdate', 'afterUpdate')) {
+      return []
+    }
+
+    return entities.map((loaded) => {
+      const entity = this.model.build(loaded.get({ plain: true }), {
+        isNewRecord: false,
+        raw: true,
+      })
+
+      entity.set(values)
+      return {
+        operation,
+        transaction,
+        entity,
+        changes: getEntityChanges(entity),
+      }
+    })
+  }
+
+  protected async audit(
+    changes: AuditChange<TModel>[],
+    transaction?: Transaction | null,
+  ): Promise<void> {
+    const { audit } = this.options
+
+    if (!audit || !changes.length) {
+      return
+    }
+
+    const { sink = defaultAuditSink } = audit
+    const actorId = this.getActor()
+    const createdAt = new Date()
+
+    await sink.write(
+      changes.map(({ operation, before, after }) => ({
+        model: this.model.name,
+        entityId: this.getEntityId((after ?? before)!),
+        operation,
+        actorId: actorId === undefined ? null : String(actorId),
+        before,
+        after,
+        diff: diffSnapshots(before, after),
+        createdAt,
+      })),
+      transaction,
+    )
+  }
+
+  protected async auditReloaded(
+    operation: AuditOperation,
+    entities: TModel[],
+    transaction?: Transaction | null,
+  ): Promise<void> {
+    if (!this.options.audit || !entities.length) {
+      return
+    }
+
+    const reloaded = await this.getScopedModel().findAll({
+      where: this.getPrimaryKeysWhere(
+        entities.map((entity) => entity.get({ plain: true })),
+      ),
+      paranoid: false,
+      transaction,
+    })
+    const afterByKey = new Map(
+      reloaded.map((entity) => [this.getEntityId(entity), entity]),
+    )
+
+    await this.audit(
+      entities.map((entity) => ({
+        operation,
+        before: this.snapshot(entity),
+        after: this.snapshot(afterByKey.get(this.getEntityId(entity))),
+      })),
+      transaction,
+    )
+  }
+
+  protected async findConflicting(
+    values: object[],
+    conflictFields: string[],
+    transaction: Transaction,
+    scoped = true,
+  ): Promise<TModel[]> {
+    const keys = values
+      .map((value) =>
+        Object.fromEntries(
+          conflictFields.map((field) => [
+            field,
+            (value as Record<string, unknown>)[field],
+          ]),
+        ),
+      )
+      .filter((key) => Object.values(key).every((value) => value != null))
+
+    if (!keys.length) {
+      return []
+    }
+
+    const where = { [Op.or]: keys } as WhereOptions<Attributes<TModel>>
+
+    return this.getScopedModel().findAll({
+      where: scoped ? this.scopeWhere(where) : where,
+      paranoid: false,
+      transaction,
+    })
+  }
+
+  protected async assertNoForeignConflicts(
+    values: object[],
+    conflictFields: string[],
+    existing: TModel[],
+    transaction: Transaction,
+  ): Promise<void> {
+    if (!this.getTenantWhere()) {
+      return
+    }
+
+    const owned = new Set(
+      existing.map((entity) => this.getConflictKey(entity, conflictFields)),
+    )
+    const foreign = (
+      await this.findConflicting(values, conflictFields, transaction, false)
+    ).find((entity) => !owned.has(this.getConflictKey(entity, conflictFields)))
+
+    if (foreign) {
+      throw new DuplicateEntityError(
+        conflictFields,
+        Object.fromEntries(
+          conflictFields.map((field) => [
+            field,
+            foreign.getDataValue(field as keyof TModel),
+          ]),
+        ),
+      )
+    }
+  }
+
+  protected getConflictKey(values: object, conflictFields: string[]): string {
+    return JSON.stringify(
+      conflictFields.map((field) =>
+        values instanceof Model
+          ? values.getDataValue(field as keyof TModel)
+          : (values as Record<string, unknown>)[field],
+      ),
+    )
+  }
+
+  protected getUpdateFields(
+    values: object[],
+    conflictFields: string[],
+  ): (keyof Attributes<TModel>)[] {
+    const { timestamps, updatedAt = 'updatedAt' } = this.model.options
+    const fields = new Set(values.flatMap((value) => Object.keys(value)))
+
+    if (timestamps !== false && typeof updatedAt === 'string') {
+      fields.add(updatedAt)
+    }
+
+    return [...fields].filter(
+      (field) =>
+        !conflictFields.includes(field) &&
+        !this.model.primaryKeyAttributes.includes(field) &&
+        !(field === 'createdBy' && this.isAuditable()),
+    ) as (keyof Attributes<TModel>)[]
+  }
+
+  protected getDeletedAtAttribute(
+    model: { options: ModelOptions } = this.model,
+  ): string | undefined {
+    const { paranoid, deletedAt } = model.options
+
+    if (!paranoid) {
+      return undefined
+    }
+
+    return typeof deletedAt === 'string' ? deletedAt : 'deletedAt'
+  }
+
+  protected onlyDeleted(
+    query?: RepositoryQuery<TModel>,
+    olderThan?: Date,
+  ): Specification<TModel> | undefined {
+    const attribute = this.getDeletedAtAttribute()
+
+    if (!attribute) {
+      return undefined
+    }
+
+    const deleted = Specification.where<TModel>({
+      [attribute]: olderThan ? { [Op.lt]: olderThan } : { [Op.ne]: null },
+    } as WhereOptions<Attributes<TModel>>)
+
+    if (query === undefined) {
+      return deleted
+    }
+
+    return (
+      query instanceof Specification ? query : Specification.where(query)
+    ).and(deleted)
+  }
+
+  protected getCascadedAssociations(): CascadedAssociation[] {
+    return (this.options.softDelete?.cascade ?? []).map((name) => {
+      const association = this.model.associations[name]
+
+      if (
+        !(association instanceof HasMany || association instanceof HasOne) ||
+        !this.getDeletedAtAttribute(association.target)
+      ) {
+        throw new RepositoryError(
+          `${name} is not a paranoid HasOne or HasMany association of ${this.model.name}`,
+        )
+      }
+
+      return association as CascadedAssociation
+    })
+  }
+
+  protected async cascadeDelete(
+    entities: TModel[],
+    transaction?: Transaction | null,
+  ): Promise<void> {
+    if (!entities.length) {
+      return
+    }
+
+    for (const {
+      target,
+      foreignKey,
+      sourceKey,
+    } of this.getCascadedAssociations()) {
+      await this.scopeModel(target).destroy({
+        where: {
+          [foreignKey]: entities.map((entity) => entity.get(sourceKey)),
+        },
+        transaction,
+      })
+      await this.invalidateCache(target, transaction)
+    }
+  }
+
+  protected async cascadeRestore(
+    entities: TModel[],
+    transaction?: Transaction | null,
+  ): Promise<void> {
+    const deletedAt = this.getDeletedAtAttribute()
+    const deleted = entities.filter((entity) => entity.isSoftDeleted())
+
+    if (!deletedAt || !deleted.length) {
+      return
+    }
+
+    for (const {
+      target,
+      foreignKey,
+      sourceKey,
+    } of this.getCascadedAssociations()) {
+      await this.scopeModel(target).restore({
+        where: {
+          [Op.or]: deleted.map((entity) => ({
+            [foreignKey]: entity.get(sourceKey),
+            [this.getDeletedAtAttribute(target)!]: {
+              [Op.gte]: entity.get(deletedAt),
+            },
+          })),
+        },
+        transaction,
+      })
+      await this.invalidateCache(target, transaction)
+    }
+  }
+
+  protected getVersionAttribute(): string | undefined {
+    const { version } = this.model.options
+
+    if (!version) {
+      return undefined
+    }
+
+    return typeof version === 'string' ? version : 'version'
+  }
+
+  protected incrementVersion<T extends object>(values: T): T {
+    const attribute = this.getVersionAttribute()
+
+    if (!attribute) {
+      return values
+    }
+
+    const field = this.model.getAttributes()[attribute].field ?? attribute
+    const column = this.model
+      .sequelize!.getQueryInterface()
+      .quoteIdentifier(field)
+
+    return { ...values, [attribute]: literal(`${column} + 1`) }
+  }
+
+  protected assertVersion(
+    entity: TModel,
+    primaryKey: EntityKey,
+    expectedVersion?: number,
+  ): void {
+    if (expectedVersion === undefined) {
+      return
+    }
+
+    const attribute = this.getVersionAttribute()
+
+    if (!attribute) {
+      throw new Error(`${this.model.name} does not have a version attribute`)
+    }
+
+    if (entity.getDataValue(attribute as keyof TModel) !== expectedVersion) {
+      throw new OptimisticLockError(this.model.name, primaryKey)
+    }
+  }
+
+  protected handleError(operation: string, error: unknown): unknown {
+    if (
+      handledErrors.has(error as object) ||
+      (error instanceof HttpException && !(error instanceof RepositoryError))
+    ) {
+      return error
+    }
+
+    this.logger.error(`${operation}: ${error}`)
+
+    const repositoryError = toRepositoryError(error)
+    const mappedError =
+      this.options.errorMapper?.(repositoryError, {
+        operation,
+        model: this.model.name,
+      }) ?? repositoryError
+
+    handledErrors.add(mappedError)
+    return mappedError
+  }
+
+  protected notFoundError(
+    operation: string,
+    lookup: Pick<EntityNotFoundContext, 'key' | 'query'>,
+  ): unknown {
+    const context = { operation, model: this.model.name, ...lookup }
+
+    if (this.options.notFoundError) {
+      return this.options.notFoundError(context)
+    }
+
+    const error = new EntityNotFoundError(
+      context.model,
+      context.key,
+      context.query,
+    )
+
+    const mappedError = this.options.errorMapper?.(error, context) ?? error
+
+    handledErrors.add(mappedError)
+    return mappedError
+  }
+
+  protected validateLimit(limit: number): void {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new InvalidQueryError('Limit must be a positive integer')
+    }
+
+    const { maxLimit } = this.options
+
+    if (maxLimit !== undefined && limit > maxLimit) {
+      throw new InvalidQueryError(`Limit must not exceed ${maxLimit}`)
+    }
+  }
+
+  protected hasNullsLargest(): boolean {
+    return nullsLargestDialects.has(this.model.sequelize!.getDialect())
+  }
+
+  protected encodeCursor(
+    entity: TModel,
+    orderBy: CursorPaginationOptions<TModel>['orderBy'],
+  ): string {
+    return encodeCursor(
+      orderBy,
+      orderBy.map(([column]) => entity.getDataValue(column)),
+      this.options.cursorSecret,
+    )
+  }
+
+  protected decodeCursor(
+    cursor: string,
+    orderBy: CursorPaginationOptions<TModel>['orderBy'],
+  ): unknown[] {
+    const values = decodeCursor(cursor, orderBy, this.options.cursorSecret)
+
+    if (!values) {
+      throw new InvalidQueryError('Invalid cursor')
+    }
+
+    return values
+  }
+
+  protected withReadPreference<
+    T extends ReadOptions & {
+      transaction?: Transaction | null
+      useMaster?: boolean
+    },
+  >(options?: T): Omit<T, keyof ReadOptions> {
+    const {
+      readPreference = this.options.readPreference ?? ReadPreference.AUTO,
+      cache,
+      ...findOptions
+    } = this.withTransaction(options)
+
+    if (findOptions.useMaster !== undefined) {
+      return findOptions
+    }
+
+    return {
+      ...findOptions,
+      useMaster:
+        !!findOptions.transaction ||
+        readPreference === ReadPreference.PRIMARY ||
+        (readPreference === ReadPreference.AUTO &&
+          Date.now() < (stickyWindows.get(this.model.sequelize!) ?? 0)),
+    }
+  }
+
+  protected async markWrite(transaction?: Transaction | null): Promise<void> {
+    const { stickyAfterWrite } = this.options
+
+    if (stickyAfterWrite) {
+      const sequelize = this.model.sequelize!
+      const written = () => {
+        stickyWindows.set(
+          sequelize,
+          Math.max(
+            stickyWindows.get(sequelize) ?? 0,
+            Date.now() + stickyAfterWrite,
+          ),
+        )
+      }
+
+      if (transaction) {
+        transaction.afterCommit(written)
+      } else {
+        written()
+      }
+    }
+
+    await this.invalidateCache(this.model, transaction)
+  }
+
+  protected async invalidateCache(
+    model: ModelStatic<any>,
+    transaction?: Transaction | null,
+  ): Promise<void> {
+    const generationKey = this.getCacheGenerationKey(model)
+    const invalidate = async () => {
+      await (this.options.cache?.store ?? defaultCacheStore).set(
+        generationKey,
+        randomUUID(),
+      )
+    }
+
+    if (transaction) {
+      transaction.afterCommit(invalidate)
+    } else {
+      await invalidate()
+    }
+  }
+
+  protected async cached<R>(
+    key: unknown[],
+    options: FindOptions<Attributes<TModel>>,
+    cache: boolean | undefined,
+    load: () => Promise<R>,
+  ): Promise<R> {
+    if (!this.options.cache || cache === false || options.transaction) {
+      return load()
+    }
+
+    const { store = defaultCacheStore, ttl = 60_000 } = this.options.cache
+    const { transaction, logging, benchmark, useMaster, ...keyOptions } =
+      options
+    const generationKey = this.getCacheGenerationKey()
+    let generation = await store.get<string>(generationKey)
+
+    if (generation === undefined) {
+      generation = randomUUID()
+      await store.set(generationKey, generation)
+    }
+
+    const cacheKey = toCacheKey(generationKey, generation, key, keyOptions)
+    const entry = await store.get<CachedResult>(cacheKey)
+
+    if (entry) {
+      return this.fromCache(entry, options) as R
+    }
+
+    const result = await load()
+
+    await store.set(cacheKey, this.toCache(result), ttl)
+    return result
+  }
+
+  protected getCacheGenerationKey(
+    model: ModelStatic<any> = this.model,
+  ): string {
+    return toCacheKey(model.name, this.scopeModel(model).getTableName())
+  }
+
+  protected toCache(result: unknown): CachedResult {
+    const toValues = (entity: unknown) =>
+      entity instanceof Model ? entity.get({ plain: true }) : entity
+
+    if (Array.isArray(result)) {
+      return { entities: result.map(toValues) }
+    }
+
+    if (result instanceof Model) {
+      return { entity: toValues(result) }
+    }
+
+    return { value: result }
+  }
+
+  protected fromCache(
+    entry: CachedResult,
+    options: FindOptions<Attributes<TModel>>,
+  ): unknown {
+    const build = (values: unknown) =>
+      options.raw
+        ? values
+        : this.getScopedModel().build(values as CreationAttributes<TModel>, {
+            isNewRecord: false,
+            raw: true,
+            include: options.include,
+          })
+
+    if ('entities' in entry) {
+      return entry.entities.map(build)
+    }
+
+    if ('entity' in entry) {
+      return build(entry.entity)
+    }
+
+    return entry.value
+  }
+
+  protected withTransaction<T extends { transaction?: Transaction | null }>(
+    options?: T,
+  ): T {
+    if (options?.transaction !== undefined) {
+      return options
+    }
+
+    const transaction = TransactionContext.getTransaction(this.model.sequelize!)
+
+    return { ...options, transaction } as T
   }
 }
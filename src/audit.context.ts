@@ -0,0 +1,15 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+export type ActorId = string | number
+
+export class AuditContext {
+  private static readonly storage = new AsyncLocalStorage<ActorId>()
+
+  public static getActor(): ActorId | undefined {
+    return this.storage.getStore()
+  }
+
+  public static run<R>(actor: ActorId, callback: () => R): R {
+    return this.storage.run(actor, callback)
+  }
+}
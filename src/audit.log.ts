@@ -0,0 +1,128 @@
+import { isDeepStrictEqual } from 'node:util'
+import { Attributes, Transaction } from 'sequelize'
+import {
+  AllowNull,
+  AutoIncrement,
+  Column,
+  CreatedAt,
+  DataType,
+  Model,
+  ModelCtor,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript'
+import { EntityChanges } from './repository.events'
+
+export enum AuditOperation {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  RESTORE = 'RESTORE',
+}
+
+export type AuditSnapshot<TModel extends Model = Model> = Partial<
+  Attributes<TModel>
+>
+
+export interface AuditEntry<TModel extends Model = Model> {
+  model: string
+  entityId: string
+  operation: AuditOperation
+  actorId: string | null
+  before: AuditSnapshot<TModel> | null
+  after: AuditSnapshot<TModel> | null
+  diff: EntityChanges<TModel>
+  createdAt: Date
+}
+
+export interface AuditSink {
+  write(entries: AuditEntry[], transaction?: Transaction | null): Promise<void>
+  getHistory(
+    model: string,
+    entityId: string,
+    transaction?: Transaction | null,
+  ): Promise<AuditEntry[]>
+}
+
+@Table({
+  tableName: 'audit_logs',
+  updatedAt: false,
+  indexes: [{ fields: ['model', 'entityId'] }],
+})
+export class AuditLog extends Model<AuditEntry & { id: number }, AuditEntry> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @Column(DataType.STRING)
+  declare model: string
+
+  @Column(DataType.STRING)
+  declare entityId: string
+
+  @Column(DataType.STRING)
+  declare operation: AuditOperation
+
+  @AllowNull
+  @Column(DataType.STRING)
+  declare actorId: string | null
+
+  @AllowNull
+  @Column(DataType.JSON)
+  declare before: AuditSnapshot | null
+
+  @AllowNull
+  @Column(DataType.JSON)
+  declare after: AuditSnapshot | null
+
+  @Column(DataType.JSON)
+  declare diff: EntityChanges<Model>
+
+  @CreatedAt
+  @Column
+  declare createdAt: Date
+}
+
+export class ModelAuditSink implements AuditSink {
+  constructor(private readonly model: ModelCtor<AuditLog> = AuditLog) {}
+
+  public async write(
+    entries: AuditEntry[],
+    transaction?: Transaction | null,
+  ): Promise<void> {
+    await this.model.bulkCreate(entries, { transaction })
+  }
+
+  public async getHistory(
+    model: string,
+    entityId: string,
+    transaction?: Transaction | null,
+  ): Promise<AuditEntry[]> {
+    const logs = await this.model.findAll({
+      where: { model, entityId },
+      order: [
+        ['createdAt', 'ASC'],
+        ['id', 'ASC'],
+      ],
+      transaction,
+    })
+
+    return logs.map((log) => log.get({ plain: true }))
+  }
+}
+
+export const diffSnapshots = <TModel extends Model>(
+  before: AuditSnapshot<TModel> | null,
+  after: AuditSnapshot<TModel> | null,
+): EntityChanges<TModel> => {
+  const from: Record<string, unknown> = before ?? {}
+  const to: Record<string, unknown> = after ?? {}
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)])
+
+  return Object.fromEntries(
+    [...keys]
+      .filter((key) => !isDeepStrictEqual(from[key] ?? null, to[key] ?? null))
+      .map((key) => [key, { from: from[key] ?? null, to: to[key] ?? null }]),
+  ) as EntityChanges<TModel>
+}
@@ -1,15 +1,17 @@
 import {
   AllowNull,
+  AutoIncrement,
   Column,
   CreatedAt,
   DataType,
   Default,
   DeletedAt,
   Model,
+  PrimaryKey,
   UpdatedAt,
 } from 'sequelize-typescript'
 
-export class BaseModel<
+export class TimestampedModel<
   TModelAttributes extends {} = any,
   TCreationAttributes extends {} = TModelAttributes,
 > extends Model<TModelAttributes, TCreationAttributes> {
@@ -20,10 +22,52 @@ export class BaseModel<
   @UpdatedAt
   @Column
   declare updatedAt: Date
+}
 
+export class BaseModel<
+  TModelAttributes extends {} = any,
+  TCreationAttributes extends {} = TModelAttributes,
+> extends TimestampedModel<TModelAttributes, TCreationAttributes> {
   @Default(null)
   @AllowNull
   @DeletedAt
   @Column({ type: DataType.DATE })
   declare deletedAt: Date | null
+
+  declare version?: number
+}
+
+export class UuidBaseModel<
+  TModelAttributes extends {} = any,
+  TCreationAttributes extends {} = TModelAttributes,
+> extends BaseModel<TModelAttributes, TCreationAttributes> {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string
+}
+
+export class IntBaseModel<
+  TModelAttributes extends {} = any,
+  TCreationAttributes extends {} = TModelAttributes,
+> extends BaseModel<TModelAttributes, TCreationAttributes> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+}
+
+export class AuditableBaseModel<
+  TModelAttributes extends {} = any,
+  TCreationAttributes extends {} = TModelAttributes,
+> extends BaseModel<TModelAttributes, TCreationAttributes> {
+  @Default(null)
+  @AllowNull
+  @Column(DataType.STRING)
+  declare createdBy: string | null
+
+  @Default(null)
+  @AllowNull
+  @Column(DataType.STRING)
+  declare updatedBy: string | null
 }
@@ -0,0 +1,98 @@
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>
+  set<T>(key: string, value: T, ttl?: number): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+interface CacheEntry {
+  value: unknown
+  expiresAt: number
+}
+
+export class LruCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>()
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key)
+
+    if (!entry) {
+      return undefined
+    }
+
+    this.entries.delete(key)
+
+    if (entry.expiresAt <= Date.now()) {
+      return undefined
+    }
+
+    this.entries.set(key, entry)
+    return entry.value as T
+  }
+
+  public async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, {
+      value,
+      expiresAt: ttl ? Date.now() + ttl : Infinity,
+    })
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break
+      }
+
+      this.entries.delete(oldest)
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+}
+
+const normalize = (value: unknown, seen: WeakSet<object>): unknown => {
+  if (typeof value === 'function') {
+    return `[${value.name}]`
+  }
+
+  if (typeof value === 'symbol') {
+    return value.toString()
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]'
+  }
+
+  seen.add(value)
+
+  if (Array.isArray(value)) {
+    return value.map((item) => normalize(item, seen))
+  }
+
+  return Object.fromEntries(
+    [...Object.keys(value), ...Object.getOwnPropertySymbols(value)]
+      .map((key): [string, unknown] => [
+        key.toString(),
+        normalize((value as Record<string | symbol, unknown>)[key], seen),
+      ])
+      .sort(([a], [b]) => a.localeCompare(b)),
+  )
+}
+
+export const toCacheKey = (...parts: unknown[]): string => {
+  return JSON.stringify(normalize(parts, new WeakSet()))
+}
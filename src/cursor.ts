@@ -0,0 +1,119 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import { Op, WhereOptions } from 'sequelize'
+
+export type CursorDirection = 'ASC' | 'DESC'
+
+type CursorValue = string | number | boolean | null | { $date: string }
+
+interface CursorPayload {
+  order: string
+  values: CursorValue[]
+}
+
+const defaultSecret = randomBytes(32).toString('base64url')
+
+const serializeOrder = (orderBy: [string, CursorDirection][]) => {
+  return orderBy.map(([column, direction]) => `${column}:${direction}`).join()
+}
+
+const sign = (payload: string, secret: string) => {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+export const encodeCursor = (
+  orderBy: [string, CursorDirection][],
+  values: unknown[],
+  secret = defaultSecret,
+): string => {
+  const cursor: CursorPayload = {
+    order: serializeOrder(orderBy),
+    values: values.map((value) =>
+      value instanceof Date
+        ? { $date: value.toISOString() }
+        : (value as CursorValue),
+    ),
+  }
+  const payload = Buffer.from(JSON.stringify(cursor)).toString('base64url')
+
+  return `${payload}.${sign(payload, secret)}`
+}
+
+export const decodeCursor = (
+  cursor: string,
+  orderBy: [string, CursorDirection][],
+  secret = defaultSecret,
+): unknown[] | null => {
+  const [payload, signature, ...rest] = cursor.split('.')
+
+  if (!payload || !signature || rest.length) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const decoded: CursorPayload = JSON.parse(
+      Buffer.from(payload, 'base64url').toString(),
+    )
+
+    if (
+      decoded.order !== serializeOrder(orderBy) ||
+      !Array.isArray(decoded.values) ||
+      decoded.values.length !== orderBy.length
+    ) {
+      return null
+    }
+
+    return decoded.values.map((value) =>
+      value !== null && typeof value === 'object'
+        ? new Date(value.$date)
+        : value,
+    )
+  } catch {
+    return null
+  }
+}
+
+const isNull = (value: unknown) => value === null || value === undefined
+
+export const buildKeysetWhere = (
+  orderBy: [string, CursorDirection][],
+  values: unknown[],
+  nullsLargest = false,
+): WhereOptions => {
+  return {
+    [Op.or]: orderBy.flatMap(([column, direction], index): WhereOptions[] => {
+      const value = values[index]
+      const nullsLast = nullsLargest === (direction === 'ASC')
+
+      if (isNull(value) && nullsLast) {
+        return []
+      }
+
+      const beyond = { [direction === 'ASC' ? Op.gt : Op.lt]: value }
+
+      return [
+        {
+          ...Object.fromEntries(
+            orderBy
+              .slice(0, index)
+              .map(([previous], previousIndex) => [
+                previous,
+                values[previousIndex] ?? null,
+              ]),
+          ),
+          [column]: isNull(value)
+            ? { [Op.ne]: null }
+            : nullsLast
+              ? { [Op.or]: { ...beyond, [Op.eq]: null } }
+              : beyond,
+        },
+      ]
+    }),
+  }
+}
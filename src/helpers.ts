@@ -1,5 +1,8 @@
 import { ModelCtor } from 'sequelize-typescript'
 
+export const NESTLIZE_MODULE_OPTIONS = 'NESTLIZE_MODULE_OPTIONS'
+export const NESTLIZE_OUTBOX_OPTIONS = 'NESTLIZE_OUTBOX_OPTIONS'
+
 export const getRepositoryToken = (model: ModelCtor<any>) => {
   return `NESTLIZE_REPOSITORY_${model.name}`
 }
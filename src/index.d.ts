@@ -1,4 +1,15 @@
-import { Inject, Logger, Provider } from '@nestjs/common'
+import {
+  DynamicModule,
+  HttpException,
+  HttpStatus,
+  InjectionToken,
+  Logger,
+  ModuleMetadata,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+  Provider,
+  Type,
+} from '@nestjs/common'
 import {
   Transaction,
   WhereOptions,
@@ -11,363 +22,2972 @@ import {
   FindOptions,
   BulkCreateOptions,
   FindAndCountOptions,
+  IncludeOptions,
+  WhereAttributeHashValue,
+  CountOptions,
   DestroyOptions,
   RestoreOptions,
+  Sequelize,
+  TransactionOptions as SequelizeTransactionOptions,
+  UpdateOptions as SequelizeUpdateOptions,
+  UpsertOptions as SequelizeUpsertOptions,
+  FindOrCreateOptions as SequelizeFindOrCreateOptions,
+  AggregateOptions as SequelizeAggregateOptions,
+  Transactionable,
 } from 'sequelize'
 import { Model, ModelCtor } from 'sequelize-typescript'
-import { NestlizeRepository } from './nestlize.repository'
+import { Readable } from 'node:stream'
 
 /**
- * Options for the find with pagination.
+ * Include and order options a specification adds to the find query.
  *
  * @template TModel Type of the Sequelize model.
  */
-export interface PaginationOptions<TModel extends Model> {
+export type SpecificationFindOptions<TModel extends Model> = Pick<
+  FindOptions<Attributes<TModel>>,
+  'include' | 'order'
+>
+
+/**
+ * Reusable, composable query criteria. A specification compiles to a
+ * Sequelize where clause and may add includes and ordering to the query.
+ *
+ * @template TModel Type of the Sequelize model.
+ *
+ * @example
+ * ```ts
+ * const active = Specification.where<User>({ active: true })
+ * const admins = Specification.where<User>({ role: 'admin' })
+ *
+ * await userRepository.findAll(active.and(admins.not()))
+ * ```
+ */
+export declare abstract class Specification<TModel extends Model> {
   /**
-   * Sets the amount of returned records.
+   * Compile the specification to a Sequelize where clause.
    */
-  limit?: number
+  abstract toWhere(): WhereOptions<Attributes<TModel>>
 
   /**
-   * Amount of records to skip from the start.
+   * Includes and ordering required by the specification.
+   *
+   * @returns Empty options by default.
    */
-  offset?: number
+  toFindOptions(): SpecificationFindOptions<TModel>
 
   /**
-   * Used for page pagination instead of offset.
+   * Match records satisfying this and every given specification.
+   *
+   * @param specifications Specifications to combine with `Op.and`.
    */
-  page?: number
+  and(...specifications: Specification<TModel>[]): Specification<TModel>
 
   /**
-   * A Sequelize where clause.
+   * Match records satisfying this or any given specification.
+   *
+   * @param specifications Specifications to combine with `Op.or`.
    */
-  query?: WhereOptions<Attributes<TModel>>
+  or(...specifications: Specification<TModel>[]): Specification<TModel>
 
   /**
-   * Optional Sequelize find options, excluding 'where', 'offset' and 'limit'.
+   * Match records not satisfying this specification.
    */
-  findOptions?: Omit<
-    FindAndCountOptions<Attributes<TModel>>,
-    'where' | 'offset' | 'limit'
-  >
-}
+  not(): Specification<TModel>
 
-/**
- * Configuration options for the abstract repository.
- */
-export interface IRepositoryOptions {
   /**
-   * Optional NestJS logger instance used for internal logging.
+   * Create a specification from a where clause.
+   *
+   * @param where A Sequelize where clause.
+   * @param findOptions Optional includes and ordering.
    */
-  logger?: Logger
+  static where<TModel extends Model>(
+    where: WhereOptions<Attributes<TModel>>,
+    findOptions?: SpecificationFindOptions<TModel>,
+  ): Specification<TModel>
 }
 
 /**
- * Generic interface defining basic repository operations
- * such as CRUD and transaction management.
+ * Merge the includes and ordering of several find options. Arrays are
+ * concatenated in the given order.
+ */
+export declare function mergeFindOptions<TModel extends Model>(
+  ...options: SpecificationFindOptions<TModel>[]
+): SpecificationFindOptions<TModel>
+
+/**
+ * A Sequelize where clause or a specification.
  *
  * @template TModel Type of the Sequelize model.
  */
-export interface IRepository<TModel extends Model> {
+export type RepositoryQuery<TModel extends Model> =
+  | WhereOptions<Attributes<TModel>>
+  | Specification<TModel>
+
+/**
+ * Attribute names of the model.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type ColumnName<TModel extends Model> = keyof Attributes<TModel> & string
+
+/**
+ * Names of the model properties holding associated models.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type AssociationName<TModel extends Model> = {
+  [K in keyof TModel]-?: NonNullable<TModel[K]> extends Model | Model[]
+    ? K
+    : never
+}[keyof TModel] &
+  string
+
+/**
+ * Fluent query typed against the model attributes. Created by
+ * `repository.query()` and executed through the repository methods, so
+ * it joins the active transaction and throws repository errors.
+ *
+ * @template TModel Type of the Sequelize model.
+ *
+ * @example
+ * ```ts
+ * const users = await userRepository
+ *   .query()
+ *   .where('email', Op.like, '%@example.com')
+ *   .orderBy('createdAt', 'DESC')
+ *   .select('id', 'name')
+ *   .with('orders')
+ *   .paginate(1, 20)
+ *   .getMany()
+ * ```
+ */
+export declare class QueryBuilder<TModel extends Model> {
   /**
-   * Get a model instance.
-   *
-   * @returns A model constructor instance.
+   * @param repository Repository executing the query.
    */
-  getModel(): ModelCtor<TModel>
+  constructor(repository: IRepository<TModel>)
 
   /**
-   * Creates a new record in the database.
+   * Add a where clause or a specification. Conditions are combined with `Op.and`.
    *
-   * @param dto The data to create record with.
-   * @param options Optional Sequelize create options.
-   * @returns A promise resolving to the created model instance.
+   * @param query A Sequelize where clause or a specification.
    */
-  create(
-    dto: CreationAttributes<TModel>,
-    options?: CreateOptions<TModel>,
-  ): Promise<TModel>
+  where(query: RepositoryQuery<TModel>): this
 
   /**
-   * Creates a new record in the database. Alias for `create`
+   * Match records whose column equals the value.
    *
-   * @param dto The data to create record with.
-   * @param options Optional Sequelize create options.
-   * @returns A promise resolving to the created model instance.
+   * @param column Attribute name.
+   * @param value Value or Sequelize operators object.
    */
-  insert(
-    dto: CreationAttributes<TModel>,
-    options?: CreateOptions<TModel>,
-  ): Promise<TModel>
+  where<K extends ColumnName<TModel>>(
+    column: K,
+    value: WhereAttributeHashValue<Attributes<TModel>[K]>,
+  ): this
 
   /**
-   * Creates multiple new records in the database.
+   * Match records whose column satisfies the operator.
    *
-   * @param dtos The array of data to create records with.
-   * @param options Optional Sequelize create options.
-   * @returns A promise resolving to the created models instances.
+   * @param column Attribute name.
+   * @param operator A Sequelize operator, e.g. `Op.like`.
+   * @param value Operand of the operator.
    */
-  insertMany(
-    dtos: CreationAttributes<TModel>[],
-    options?: BulkCreateOptions<Attributes<TModel>>,
-  ): Promise<TModel[]>
+  where<K extends ColumnName<TModel>>(
+    column: K,
+    operator: symbol,
+    value: unknown,
+  ): this
 
   /**
-   * Finds a record by its primary key
+   * Order records by a column. Can be called several times.
    *
-   * @param primaryKey The value of the primary key.
-   * @param options Optional Sequelize find options, excluding 'where'.
-   * @returns A Promise resolving the found record or null.
+   * @param column Attribute name.
+   * @param direction Default is `ASC`.
    */
-  findByPk(
-    primaryKey: string | number,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel | null>
+  orderBy(column: ColumnName<TModel>, direction?: 'ASC' | 'DESC'): this
 
   /**
-   * Finds a single record by matching the provided query
+   * Select only the given columns.
    *
-   * @param query A Sequelize where clause.
-   * @param options Optional Sequelize find options, excluding 'where'.
-   * @returns A Promise resolving the found record or null.
+   * @param columns Attribute names.
    */
-  findOne(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel | null>
+  select(...columns: ColumnName<TModel>[]): this
 
   /**
-   * Finds all records matching the provided query
+   * Include associated models.
    *
-   * @param query A Sequelize where clause.
-   * @param options Optional Sequelize find options, excluding 'where'.
-   * @returns A Promise resolving the found records or empty erray.
+   * @param associations Association names or Sequelize include options.
    */
-  findAll(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel[]>
+  with(...associations: (AssociationName<TModel> | IncludeOptions)[]): this
 
   /**
-   * Find first amount of records set by limit and count all existing records
-   *
-   * @param options Pagination options.
+   * Limit the query to a page of records.
    *
-   * @returns A Promise resolving `rows`(found records) and `count`(amout of existing records).
+   * @param page Page number, starting from 1.
+   * @param limit Amount of records per page.
    */
-  findAllPaginated(
-    options: PaginationOptions<TModel>,
-  ): Promise<{ rows: TModel[]; count: number }>
+  paginate(page: number, limit: number): this
 
   /**
-   * Updates a records by its primary key.
-   *
-   * @param primaryKey The value of the primary key.
-   * @param dto Partial data to update the record with.
-   * @param options Optional Sequelize save options.
-   * @returns A Promise resolving the updated record or null.
+   * Get the Sequelize find options the query is executed with.
    */
-  updateByPk(
-    primaryKey: string | number,
-    dto: Partial<Attributes<TModel>>,
-    options?: SaveOptions<Attributes<TModel>>,
-  ): Promise<TModel | null>
+  getFindOptions(): FindOptions<Attributes<TModel>>
 
   /**
-   * Delete all records matching query
-   *
-   * @param query A Sequelize where clause.
-   * @param options Optional Sequelize destroy options.
-   * @returns A Promise represented amount of deleted records.
+   * Find all matching records.
    */
-  delete(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<number>
+  getMany(): Promise<TModel[]>
 
   /**
-   * Restore all deleted records.
-   *
-   * @param query A Sequelize where clause.
-   * @param options Optional Sequelize restore options.
-   * @returns Promise<void>
+   * Find the first matching record.
    */
-  restore(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<RestoreOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<void>
+  getOne(): Promise<TModel | null>
 
   /**
-   * Deletes (soft or hard) a record by its primary key.
-   *
-   * @param primaryKey The value of the primary key.
-   * @param options Optional Sequelize destroy options.
-   * @returns A Promise resolving the deleted record or null.
+   * Find a page of records with `findAllPaginated`.
    */
-  deleteByPk(
-    primaryKey: string | number,
-    options?: InstanceDestroyOptions,
-  ): Promise<TModel | null>
+  getPage(): Promise<Page<TModel>>
 
   /**
-   * Restores a preiously soft-deleted record by its primary key.
-   *
-   * @param primaryKey The value of the primary key.
-   * @param options Optional Sequelize restore options.
-   * @returns A Promise resolving the found record or null.
+   * Count matching records.
    */
-  restoreByPk(
-    primaryKey: string | number,
-    options?: InstanceRestoreOptions,
-  ): Promise<TModel | null>
+  count(): Promise<number>
 
   /**
-   * Executes a callback function withing a Sequelize transaction.
-   *
-   * @param runInTransaction The callback to execute, receiving the transaction object.
-   * @returns A promise resolving to the result of the callback.
+   * Check whether a matching record exists.
    */
-  transaction<R>(
-    runInTransaction: (transaction: Transaction) => Promise<R>,
-  ): Promise<R>
+  exists(): Promise<boolean>
 
   /**
-   * Calculate offset for page pagination
+   * Iterate over matching records, fetching them in batches. Records are
+   * ordered by primary key unless `orderBy` is set.
    *
-   * @param limit Amount of records to return per page
-   * @param page Target page number
-   * @returns Number, amount of records to skip (offset)
+   * @param batchSize Amount of records per query. Default is 100.
    */
-  calculateOffset(limit: number, page: number): number
+  stream(batchSize?: number): AsyncGenerator<TModel>
 }
 
 /**
- * Base model class based on sequelize `Model` class
- * adding timestamps.
+ * Previous and new value of a changed field.
+ */
+export interface EntityChange<TValue = unknown> {
+  from: TValue
+  to: TValue
+}
+
+/**
+ * Changed fields of a record.
  *
- * @template TModelAttributes Type of the Model class. Default is `any`
- * @template TCreationAttributes Type of the Model creation attributes. Default is Model class
+ * @template TModel Type of the Sequelize model.
  */
-export declare class BaseModel<
-  TModelAttributes extends {} = any,
-  TCreationAttributes extends {} = TModelAttributes,
-> extends Model<TModelAttributes, TCreationAttributes> {
+export type EntityChanges<TModel extends Model> = {
+  [K in keyof Attributes<TModel>]?: EntityChange<Attributes<TModel>[K]>
+}
+
+/**
+ * Common payload of the repository events.
+ */
+export interface RepositoryEvent {
   /**
-   * Model creation time
+   * Name of the model.
    */
-  createdAt: Date
+  model: string
 
   /**
-   * Model update time. Default is `createdAt` timestamp
+   * Repository method that emitted the event, e.g. `insertMany`.
    */
-  updatedAt: Date
+  operation: string
 
   /**
-   * Model deletion time
-   *
-   * @default null
+   * Transaction the operation runs in.
    */
-  deletedAt: Date | null
+  transaction?: Transaction | null
 }
 
 /**
- * Base abstract class providing default implementations of common
- * repository operations. Designed to be extended for model-specific logic.
- *
- * @template TModel Type of the Sequelize model.
+ * Emitted before records are created.
  */
-export declare class AbstractRepository<
+export interface BeforeCreateEvent<
   TModel extends Model,
-> implements IRepository<TModel> {
+> extends RepositoryEvent {
   /**
-   * Logger instance used for logging errors.
+   * Values of the records to create.
    */
-  protected readonly logger: Logger
+  values: CreationAttributes<TModel>[]
+}
 
+/**
+ * Emitted after records are created.
+ */
+export interface AfterCreateEvent<
+  TModel extends Model,
+> extends RepositoryEvent {
   /**
-   * Constructs the abstract repository.
-   *
-   * @param model The Sequelize model constructor.
-   * @param options Optional configuration options.
+   * Created records.
    */
-  constructor(model: ModelCtor<TModel>, options?: IRepositoryOptions)
+  entities: TModel[]
+}
 
+/**
+ * Emitted before and after a record is updated.
+ */
+export interface UpdateEvent<TModel extends Model> extends RepositoryEvent {
   /**
-   * @inheritdoc
+   * Updated record.
    */
-  public getModel(): ModelCtor<TModel> {
-    return this.model
-  }
+  entity: TModel
 
   /**
-   * @inheritdoc
+   * Fields changed by the update.
    */
-  create(
-    dto: CreationAttributes<TModel>,
-    options?: CreateOptions<TModel>,
-  ): Promise<TModel>
+  changes: EntityChanges<TModel>
+}
 
+/**
+ * Emitted before and after records are deleted.
+ */
+export interface DeleteEvent<TModel extends Model> extends RepositoryEvent {
   /**
-   * @inheritdoc
+   * Deleted records. Bulk deletes load them only when a listener or
+   * an event bus is registered.
    */
-  insert(
-    dto: CreationAttributes<TModel>,
-    options?: CreateOptions<TModel>,
-  ): Promise<TModel>
+  entities: TModel[]
 
   /**
-   * @inheritdoc
+   * Whether the records are deleted permanently.
    */
-  insertMany(
-    dtos: CreationAttributes<TModel>[],
-    options?: BulkCreateOptions<Attributes<TModel>>,
-  ): Promise<TModel[]>
+  force: boolean
+}
 
+/**
+ * Emitted before and after records are restored.
+ */
+export interface RestoreEvent<TModel extends Model> extends RepositoryEvent {
   /**
-   * @inheritdoc
+   * Restored records.
    */
-  findByPk(
-    primaryKey: string | number,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel | null>
+  entities: TModel[]
+}
+
+/**
+ * Repository events and their payloads.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface RepositoryEventMap<TModel extends Model> {
+  beforeCreate: BeforeCreateEvent<TModel>
+  afterCreate: AfterCreateEvent<TModel>
+  beforeUpdate: UpdateEvent<TModel>
+  afterUpdate: UpdateEvent<TModel>
+  beforeDelete: DeleteEvent<TModel>
+  afterDelete: DeleteEvent<TModel>
+  beforeRestore: RestoreEvent<TModel>
+  afterRestore: RestoreEvent<TModel>
+}
+
+/**
+ * Name of a repository event.
+ */
+export type RepositoryEventName = keyof RepositoryEventMap<Model>
 
+/**
+ * Listener of a repository event.
+ */
+export type RepositoryEventListener<TEvent> = (
+  event: TEvent,
+) => void | Promise<void>
+
+/**
+ * Event bus the repository events are forwarded to.
+ */
+export interface RepositoryEventBus {
   /**
-   * @inheritdoc
+   * @param event Event name, e.g. `User.afterCreate`.
+   * @param payload Event payload.
    */
-  findOne(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel | null>
+  emit(event: string, payload: unknown): unknown
+}
 
+/**
+ * Options for `upsert`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface UpsertOptions<TModel extends Model> extends Omit<
+  SequelizeUpsertOptions<Attributes<TModel>>,
+  'conflictFields' | 'returning'
+> {
   /**
-   * @inheritdoc
+   * Fields of the unique constraint deciding whether the record exists.
+   *
+   * @default [primaryKey]
    */
-  findAll(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel[]>
+  conflictFields?: (keyof Attributes<TModel> & string)[]
+}
+
+/**
+ * Options for `upsertMany`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface UpsertManyOptions<TModel extends Model> extends Omit<
+  BulkCreateOptions<Attributes<TModel>>,
+  'updateOnDuplicate' | 'conflictAttributes' | 'ignoreDuplicates' | 'returning'
+> {
+  /**
+   * Fields of the unique constraint deciding whether a record exists.
+   *
+   * @default [primaryKey]
+   */
+  conflictFields?: (keyof Attributes<TModel> & string)[]
+
+  /**
+   * Fields updated on existing records. Defaults to the fields of the
+   * passed records, excluding the conflict fields and the primary key.
+   */
+  updateFields?: (keyof Attributes<TModel> & string)[]
+}
+
+/**
+ * Options for `findOrCreate`, excluding 'where' and 'defaults'.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type FindOrCreateOptions<TModel extends Model> = Omit<
+  SequelizeFindOrCreateOptions<Attributes<TModel>, CreationAttributes<TModel>>,
+  'where' | 'defaults'
+>
+
+/**
+ * Options for `updateByPk`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface UpdateByPkOptions<TModel extends Model> extends SaveOptions<
+  Attributes<TModel>
+> {
+  /**
+   * Version the record must have. Requires a model with the
+   * `version` option enabled.
+   */
+  expectedVersion?: number
+}
+
+/**
+ * Options for `deleteByPk`.
+ */
+export interface DeleteByPkOptions extends InstanceDestroyOptions {
+  /**
+   * Version the record must have. Requires a model with the
+   * `version` option enabled.
+   */
+  expectedVersion?: number
+}
+
+/**
+ * Options for `findDeleted` and `findAllWithDeleted`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type DeletedFindOptions<TModel extends Model> = Omit<
+  ReadFindOptions<TModel>,
+  'paranoid'
+>
+
+/**
+ * Options for `countDeleted`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type DeletedCountOptions<TModel extends Model> = Omit<
+  CountOptions<Attributes<TModel>>,
+  'where' | 'group' | 'paranoid'
+> &
+  ReadOptions
+
+/**
+ * Options for `purgeDeleted`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface PurgeDeletedOptions<
+  TModel extends Model,
+> extends Transactionable {
+  /**
+   * Only purge records deleted before this date.
+   */
+  olderThan?: Date
+
+  /**
+   * A Sequelize where clause or a specification the purged records must match.
+   */
+  query?: RepositoryQuery<TModel>
+}
+
+/**
+ * Options for `update`, excluding 'where'.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface UpdateOptions<TModel extends Model> extends Omit<
+  SequelizeUpdateOptions<Attributes<TModel>>,
+  'where' | 'returning'
+> {
+  /**
+   * Return the updated records instead of their count. Only supported
+   * on dialects with RETURNING, i.e. Postgres and MSSQL.
+   *
+   * @default false
+   */
+  returning?: boolean
+}
+
+/**
+ * Changes of a single record passed to `updateMany`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface EntityUpdate<TModel extends Model> {
+  /**
+   * The value of the primary key.
+   */
+  pk: PrimaryKeyOf<TModel>
+
+  /**
+   * Partial data to update the record with.
+   */
+  changes: Partial<Attributes<TModel>>
+}
+
+/**
+ * Options for `updateMany`, excluding 'where' and 'returning'.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type UpdateManyOptions<TModel extends Model> = Omit<
+  UpdateOptions<TModel>,
+  'returning'
+>
+
+/**
+ * Options for `findEach`, `iterate` and `stream`, excluding 'where', 'order',
+ * 'offset' and 'limit'.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface IterateOptions<TModel extends Model> extends Omit<
+  FindOptions<Attributes<TModel>>,
+  'where' | 'order' | 'offset' | 'limit'
+> {
+  /**
+   * Amount of records loaded per query. Default is `100`.
+   */
+  batchSize?: number
+
+  /**
+   * Columns and directions the records are iterated in. Every primary key
+   * column is appended as a tiebreaker. Default is the primary key ascending.
+   */
+  orderBy?: [keyof Attributes<TModel> & string, 'ASC' | 'DESC'][]
+
+  /**
+   * Where the records are read from. Default is the repository `readPreference`.
+   */
+  readPreference?: ReadPreference
+}
+
+/**
+ * Options for `findByPkForUpdate` and `findAllForUpdate`, excluding 'where'.
+ * The records are locked with `SELECT ... FOR UPDATE`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface LockOptions<TModel extends Model> extends Omit<
+  FindOptions<Attributes<TModel>>,
+  'where' | 'lock' | 'skipLocked'
+> {
+  /**
+   * Skip records locked by other transactions (`SKIP LOCKED`).
+   * Supported by postgres and oracle.
+   */
+  skipLocked?: boolean
+
+  /**
+   * Fail instead of waiting for records locked by other transactions
+   * (`NOWAIT`). Sequelize 6 can not emit `NOWAIT`, so every dialect throws
+   * `UnsupportedDialectError`. Set `lock_timeout` in the transaction instead.
+   */
+  noWait?: boolean
+}
+
+/**
+ * Options for `claimNext`, excluding 'where' and 'limit'.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type ClaimOptions<TModel extends Model> = Omit<
+  LockOptions<TModel>,
+  'skipLocked' | 'noWait' | 'limit'
+>
+
+/**
+ * Record returned by `upsert`, `upsertMany` and `findOrCreate`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface CreateResult<TModel extends Model> {
+  /**
+   * The created, updated or found record.
+   */
+  entity: TModel
+
+  /**
+   * Whether the record was created.
+   */
+  created: boolean
+}
+
+/**
+ * Defines which database a read is sent to when Sequelize
+ * is configured with read replication.
+ */
+export declare enum ReadPreference {
+  /**
+   * Read from the primary.
+   */
+  PRIMARY = 'PRIMARY',
+
+  /**
+   * Read from a replica.
+   */
+  REPLICA = 'REPLICA',
+
+  /**
+   * Read from a replica, or from the primary within the `stickyAfterWrite`
+   * window after a write. Default.
+   */
+  AUTO = 'AUTO',
+}
+
+/**
+ * Primary key of a model with several `@PrimaryKey` columns, given as an
+ * object holding the value of every primary key attribute,
+ * e.g. `{ userId, roleId }`.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type CompositeKey<TModel extends Model> = Partial<Attributes<TModel>>
+
+/**
+ * Type of the primary key of a model: the type of its `id` attribute,
+ * or a scalar or {@link CompositeKey} for models without a declared `id`.
+ * Key objects missing a primary key attribute, and scalars for composite
+ * primary keys, are rejected with status 400.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type PrimaryKeyOf<TModel extends Model> = TModel extends {
+  id: infer K extends string | number
+}
+  ? K
+  : string | number | CompositeKey<TModel>
+
+/**
+ * Read options accepted by the find and count methods. Reads inside
+ * a transaction always use the primary.
+ */
+export interface ReadOptions {
+  /**
+   * Where the records are read from. Default is the repository `readPreference`.
+   */
+  readPreference?: ReadPreference
+
+  /**
+   * Set to false to skip the query cache of the repository.
+   */
+  cache?: boolean
+}
+
+/**
+ * Sequelize find options, excluding 'where', with the read options.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type ReadFindOptions<TModel extends Model> = Omit<
+  FindOptions<Attributes<TModel>>,
+  'where'
+> &
+  ReadOptions
+
+/**
+ * Sequelize aggregate options, excluding 'where' and 'dataType', with the read options.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type AggregateOptions<TModel extends Model> = Omit<
+  SequelizeAggregateOptions<unknown, Attributes<TModel>>,
+  'where' | 'dataType'
+> &
+  ReadOptions
+
+/**
+ * SQL aggregate function applied by `groupBy`.
+ */
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+/**
+ * Aggregate computed by `groupBy`: `['count']` counts the rows of the group,
+ * `[fn, column]` applies the function to the column.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type Aggregate<TModel extends Model> =
+  | ['count']
+  | [AggregateFunction, keyof Attributes<TModel> & string]
+
+/**
+ * Type of an aggregate value: a number for counts, sums and averages,
+ * the column type for `min` and `max`.
+ *
+ * @template TModel Type of the Sequelize model.
+ * @template TAggregate The aggregate.
+ */
+export type AggregateValue<
+  TModel extends Model,
+  TAggregate extends Aggregate<TModel>,
+> = TAggregate extends ['min' | 'max', infer K extends keyof Attributes<TModel>]
+  ? Attributes<TModel>[K] | null
+  : TAggregate extends ['count', ...unknown[]]
+    ? number
+    : number | null
+
+/**
+ * Sequelize find options accepted by `groupBy`, excluding 'where', 'attributes',
+ * 'group' and 'raw', with the read options.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type GroupByOptions<TModel extends Model> = Omit<
+  FindOptions<Attributes<TModel>>,
+  'where' | 'attributes' | 'group' | 'raw'
+> &
+  ReadOptions
+
+/**
+ * Row returned by `groupBy`: the grouped columns and one value per aggregate alias.
+ *
+ * @template TModel Type of the Sequelize model.
+ * @template K The grouped columns.
+ * @template A The aggregates by alias.
+ */
+export type GroupByRow<
+  TModel extends Model,
+  K extends keyof Attributes<TModel>,
+  A extends Record<string, Aggregate<TModel>>,
+> = Pick<Attributes<TModel>, K> & {
+  [P in keyof A]: AggregateValue<TModel, A[P]>
+}
+
+/**
+ * Options for recording a domain event in the outbox.
+ */
+export interface RecordEventOptions extends Transactionable {
+  /**
+   * Id of the aggregate the event belongs to. Events of the same aggregate
+   * are published in the order they were recorded.
+   */
+  aggregateId?: string | number
+}
+
+/**
+ * Store of the repository query cache, e.g. an adapter of Nest's cache manager.
+ * Values are plain objects.
+ */
+export interface CacheStore {
+  /**
+   * Get a value, undefined when it is missing or expired.
+   *
+   * @param key Cache key.
+   */
+  get<T>(key: string): Promise<T | undefined>
+
+  /**
+   * Set a value.
+   *
+   * @param key Cache key.
+   * @param value Value to store.
+   * @param ttl Milliseconds the value is kept. Kept until evicted when missing.
+   */
+  set<T>(key: string, value: T, ttl?: number): Promise<void>
+
+  /**
+   * Delete a value.
+   *
+   * @param key Cache key.
+   */
+  delete(key: string): Promise<void>
+}
+
+/**
+ * In-memory cache store evicting the least recently used entries.
+ * Default store of the query cache, shared by all repositories.
+ */
+export declare class LruCacheStore implements CacheStore {
+  /**
+   * @param maxEntries Maximum number of entries. Default is `1000`.
+   */
+  constructor(maxEntries?: number)
+
+  get<T>(key: string): Promise<T | undefined>
+
+  set<T>(key: string, value: T, ttl?: number): Promise<void>
+
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Options of the repository query cache.
+ */
+export interface CacheOptions {
+  /**
+   * Store of the cached results. Default is a shared `LruCacheStore`.
+   */
+  store?: CacheStore
+
+  /**
+   * Milliseconds results are cached. Default is `60000`.
+   */
+  ttl?: number
+}
+
+/**
+ * Identifier of the actor of a write, e.g. a user id.
+ */
+export type ActorId = string | number
+
+/**
+ * Keeps track of the actor of the current async context, e.g. of the
+ * current request. Used as the default actor resolver of the audit trail.
+ *
+ * @example
+ * ```ts
+ * app.use((req, res, next) => AuditContext.run(req.user.id, next))
+ * ```
+ */
+export declare class AuditContext {
+  /**
+   * Get the actor of the current async context.
+   *
+   * @returns The actor or undefined.
+   */
+  static getActor(): ActorId | undefined
+
+  /**
+   * Executes a callback with the actor set for its async context.
+   *
+   * @param actor The actor.
+   * @param callback The callback to execute.
+   * @returns The result of the callback.
+   */
+  static run<R>(actor: ActorId, callback: () => R): R
+}
+
+/**
+ * Type of an audited write.
+ */
+export declare enum AuditOperation {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  RESTORE = 'RESTORE',
+}
+
+/**
+ * Plain values of a record at the time of an audited write.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export type AuditSnapshot<TModel extends Model = Model> = Partial<
+  Attributes<TModel>
+>
+
+/**
+ * Entry of the audit trail, one per written record.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface AuditEntry<TModel extends Model = Model> {
+  /**
+   * Name of the model.
+   */
+  model: string
+
+  /**
+   * Primary key of the record.
+   */
+  entityId: string
+
+  /**
+   * Type of the write.
+   */
+  operation: AuditOperation
+
+  /**
+   * Actor of the write, null when none was resolved.
+   */
+  actorId: string | null
+
+  /**
+   * Values before the write, null for `CREATE`.
+   */
+  before: AuditSnapshot<TModel> | null
+
+  /**
+   * Values after the write, null for `DELETE`.
+   */
+  after: AuditSnapshot<TModel> | null
+
+  /**
+   * Changed fields with their values before and after the write.
+   */
+  diff: EntityChanges<TModel>
+
+  /**
+   * Time of the write.
+   */
+  createdAt: Date
+}
+
+/**
+ * Destination of the audit trail.
+ */
+export interface AuditSink {
+  /**
+   * Write the entries of a write.
+   *
+   * @param entries The entries.
+   * @param transaction The transaction of the write, if any.
+   */
+  write(entries: AuditEntry[], transaction?: Transaction | null): Promise<void>
+
+  /**
+   * Read the entries of a record, oldest first.
+   *
+   * @param model Name of the model.
+   * @param entityId Primary key of the record.
+   * @param transaction Optional transaction.
+   */
+  getHistory(
+    model: string,
+    entityId: string,
+    transaction?: Transaction | null,
+  ): Promise<AuditEntry[]>
+}
+
+/**
+ * Model of the `audit_logs` table written by the default audit sink.
+ * Register it with Sequelize when auditing is enabled.
+ */
+export declare class AuditLog extends Model<
+  AuditEntry & { id: number },
+  AuditEntry
+> {
+  id: number
+  model: string
+  entityId: string
+  operation: AuditOperation
+  actorId: string | null
+  before: AuditSnapshot | null
+  after: AuditSnapshot | null
+  diff: EntityChanges<Model>
+  createdAt: Date
+}
+
+/**
+ * Audit sink storing the entries with a model. Default sink, using `AuditLog`.
+ */
+export declare class ModelAuditSink implements AuditSink {
+  /**
+   * @param model Model storing the entries. Default is `AuditLog`.
+   */
+  constructor(model?: ModelCtor<AuditLog>)
+
+  write(entries: AuditEntry[], transaction?: Transaction | null): Promise<void>
+
+  getHistory(
+    model: string,
+    entityId: string,
+    transaction?: Transaction | null,
+  ): Promise<AuditEntry[]>
+}
+
+/**
+ * Options of the repository audit trail.
+ */
+export interface AuditOptions {
+  /**
+   * Destination of the entries. Default is a `ModelAuditSink` writing `AuditLog`.
+   */
+  sink?: AuditSink
+
+  /**
+   * Resolves the actor of the current request. Default is `AuditContext.getActor`.
+   */
+  resolver?: () => ActorId | undefined
+}
+
+/**
+ * Delivery status of an outbox event.
+ */
+export declare enum OutboxStatus {
+  PENDING = 'PENDING',
+  PUBLISHED = 'PUBLISHED',
+  DEAD = 'DEAD',
+}
+
+/**
+ * Domain event handed to the outbox publisher.
+ *
+ * @template TPayload Type of the event payload.
+ */
+export interface OutboxMessage<TPayload = unknown> {
+  /**
+   * Id of the outbox row. Use it to deduplicate deliveries.
+   */
+  id: number
+
+  /**
+   * Name of the model of the repository recording the event.
+   */
+  aggregateType: string
+
+  /**
+   * Id of the aggregate, null for unordered events.
+   */
+  aggregateId: string | null
+
+  /**
+   * Event type.
+   */
+  type: string
+
+  /**
+   * JSON payload of the event.
+   */
+  payload: TPayload
+
+  /**
+   * Amount of failed publish attempts before this one.
+   */
+  attempts: number
+
+  /**
+   * Time the event was recorded.
+   */
+  createdAt: Date
+}
+
+/**
+ * Delivers outbox events, e.g. to a message broker.
+ */
+export interface OutboxPublisher {
+  /**
+   * Publishes an event. A rejected promise schedules a retry.
+   *
+   * @param message The event to publish.
+   */
+  publish(message: OutboxMessage): Promise<void>
+}
+
+/**
+ * Model of the `outbox_events` table written by `recordEvent`.
+ * Register it with Sequelize when using the outbox.
+ */
+export declare class OutboxEvent extends Model {
+  id: number
+  aggregateType: string
+  aggregateId: string | null
+  type: string
+  payload: unknown
+  status: OutboxStatus
+  attempts: number
+  availableAt: Date
+  lastError: string | null
+  publishedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Options of the outbox relay.
+ */
+export interface OutboxRelayOptions {
+  /**
+   * Delivers the pending events.
+   */
+  publisher: OutboxPublisher
+
+  /**
+   * Model storing the events. Default is `OutboxEvent`.
+   */
+  model?: ModelCtor<OutboxEvent>
+
+  /**
+   * Milliseconds between two polls. Default is `1000`.
+   */
+  pollInterval?: number
+
+  /**
+   * Maximum amount of events published per poll. Default is `100`.
+   */
+  batchSize?: number
+
+  /**
+   * Failed attempts after which an event is dead-lettered. Default is `5`.
+   */
+  maxAttempts?: number
+
+  /**
+   * Milliseconds to wait before retrying an event after a given amount of
+   * failed attempts. Default doubles from one second.
+   */
+  backoff?: (attempts: number) => number
+
+  /**
+   * Milliseconds during which the events of a batch are held by the relay
+   * publishing them, after which another relay may publish them again.
+   * Should exceed the time needed to publish a batch. Default is `60000`.
+   */
+  leaseTimeout?: number
+
+  /**
+   * Whether polling starts with the application. Default is `true`.
+   */
+  autoStart?: boolean
+
+  /**
+   * Logger of publish failures.
+   */
+  logger?: Logger
+}
+
+/**
+ * Polls the outbox and publishes the pending events in order.
+ * Events of the same aggregate are published one after another: a failed
+ * event holds back the later events of its aggregate until it is published
+ * or dead-lettered. Delivery is at least once. Several relays can run at
+ * once: each one claims its batch before publishing it.
+ */
+export declare class OutboxRelay
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  /**
+   * @param options Options of the relay.
+   */
+  constructor(options: OutboxRelayOptions)
+
+  onApplicationBootstrap(): void
+
+  onApplicationShutdown(): Promise<void>
+
+  /**
+   * Starts polling, unless already started.
+   */
+  start(): void
+
+  /**
+   * Stops polling and waits for the running poll.
+   */
+  stop(): Promise<void>
+
+  /**
+   * Publishes one batch of pending events.
+   *
+   * @returns A Promise resolving the amount of published events.
+   */
+  relay(): Promise<number>
+
+  /**
+   * Moves the dead-lettered events back to pending, resetting their attempts.
+   *
+   * @returns A Promise resolving the amount of requeued events.
+   */
+  requeueDead(): Promise<number>
+}
+
+/**
+ * Options of the repository soft deletes.
+ */
+export interface SoftDeleteOptions {
+  /**
+   * Names of paranoid `HasOne` and `HasMany` associations whose records are
+   * soft-deleted and restored with the records of the repository.
+   * Restores only bring back the associated records deleted with or after
+   * their parent. The associated records are written without the events and
+   * audit trail of their repository, only their cache is invalidated.
+   */
+  cascade?: string[]
+}
+
+/**
+ * Options of the repository outbox.
+ */
+export interface OutboxOptions {
+  /**
+   * Model storing the events. Default is `OutboxEvent`.
+   */
+  model?: ModelCtor<OutboxEvent>
+}
+
+/**
+ * Options for the find with pagination.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface PaginationOptions<TModel extends Model> {
+  /**
+   * Sets the amount of returned records.
+   */
+  limit?: number
+
+  /**
+   * Amount of records to skip from the start.
+   */
+  offset?: number
+
+  /**
+   * Used for page pagination instead of offset.
+   */
+  page?: number
+
+  /**
+   * A Sequelize where clause or a specification.
+   */
+  query?: RepositoryQuery<TModel>
+
+  /**
+   * Optional Sequelize find options, excluding 'where', 'offset' and 'limit'.
+   */
+  findOptions?: Omit<
+    FindAndCountOptions<Attributes<TModel>>,
+    'where' | 'offset' | 'limit'
+  >
+
+  /**
+   * Skip the COUNT query. `count` and `totalPages` are null and
+   * `hasNext` is computed by fetching one extra record.
+   *
+   * @default false
+   */
+  skipCount?: boolean
+
+  /**
+   * Where the records are read from. Default is the repository `readPreference`.
+   */
+  readPreference?: ReadPreference
+}
+
+/**
+ * Page of records found with offset or page pagination.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface Page<TModel extends Model> {
+  /**
+   * Found records.
+   */
+  rows: TModel[]
+
+  /**
+   * Amount of existing records, null when `skipCount` is set.
+   */
+  count: number | null
+
+  /**
+   * Amount of records per page.
+   */
+  limit: number
+
+  /**
+   * Amount of skipped records.
+   */
+  offset: number
+
+  /**
+   * Current page number, starting from 1.
+   */
+  currentPage: number
+
+  /**
+   * Amount of pages, null when `skipCount` is set.
+   */
+  totalPages: number | null
+
+  /**
+   * Whether there is a next page.
+   */
+  hasNext: boolean
+
+  /**
+   * Whether there is a previous page.
+   */
+  hasPrev: boolean
+}
+
+/**
+ * Options for the find with cursor (keyset) pagination.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface CursorPaginationOptions<TModel extends Model> {
+  /**
+   * Sort columns and directions the cursors are built from. NULL values are
+   * paged in the NULL order of the dialect.
+   * The last column must be unique, e.g. the primary key.
+   */
+  orderBy: [keyof Attributes<TModel> & string, 'ASC' | 'DESC'][]
+
+  /**
+   * Return records after this cursor.
+   */
+  after?: string
+
+  /**
+   * Return records before this cursor.
+   */
+  before?: string
+
+  /**
+   * Sets the amount of returned records. Default is `10`.
+   */
+  limit?: number
+
+  /**
+   * A Sequelize where clause.
+   */
+  query?: WhereOptions<Attributes<TModel>>
+
+  /**
+   * Optional Sequelize find options, excluding 'where', 'order', 'offset' and 'limit'.
+   */
+  findOptions?: Omit<
+    FindOptions<Attributes<TModel>>,
+    'where' | 'order' | 'offset' | 'limit'
+  >
+
+  /**
+   * Where the records are read from. Default is the repository `readPreference`.
+   */
+  readPreference?: ReadPreference
+}
+
+/**
+ * Page of records found with cursor pagination.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface CursorPage<TModel extends Model> {
+  /**
+   * Found records.
+   */
+  rows: TModel[]
+
+  /**
+   * Cursor of the first record, null for an empty page.
+   */
+  startCursor: string | null
+
+  /**
+   * Cursor of the last record, null for an empty page.
+   */
+  endCursor: string | null
+
+  /**
+   * Whether there are records after `endCursor`.
+   */
+  hasNextPage: boolean
+
+  /**
+   * Whether there are records before `startCursor`.
+   */
+  hasPreviousPage: boolean
+}
+
+/**
+ * Defines how records of different tenants are separated.
+ */
+export declare enum TenantStrategy {
+  /**
+   * Tenants share tables. Every query is scoped by the tenant column
+   * and created records are stamped with the tenant.
+   */
+  COLUMN = 'COLUMN',
+
+  /**
+   * Every tenant has its own schema. Queries run against the schema of the tenant.
+   */
+  SCHEMA = 'SCHEMA',
+}
+
+/**
+ * Identifier of a tenant.
+ */
+export type TenantId = string | number
+
+/**
+ * Keeps track of the tenant of the current async context, e.g. of the
+ * current request. Used as the default tenant resolver.
+ *
+ * @example
+ * ```ts
+ * app.use((req, res, next) =>
+ *   TenantContext.run(req.header('x-tenant-id'), next),
+ * )
+ * ```
+ */
+export declare class TenantContext {
+  /**
+   * Get the tenant of the current async context.
+   *
+   * @returns The tenant or undefined.
+   */
+  static getTenant(): TenantId | undefined
+
+  /**
+   * Executes a callback with the tenant set for its async context.
+   *
+   * @param tenant The tenant.
+   * @param callback The callback to execute.
+   * @returns The result of the callback.
+   */
+  static run<R>(tenant: TenantId, callback: () => R): R
+}
+
+/**
+ * Options of a tenant-aware repository.
+ */
+export interface TenantOptions {
+  /**
+   * Resolves the tenant of the current request. Default is `TenantContext.getTenant`.
+   */
+  resolver?: () => TenantId | undefined
+
+  /**
+   * How tenants are separated. Default is `TenantStrategy.COLUMN`.
+   */
+  strategy?: TenantStrategy
+
+  /**
+   * Tenant column used by the column strategy. Default is `tenantId`.
+   */
+  column?: string
+
+  /**
+   * Maps a tenant to its schema name for the schema strategy.
+   * Default is the tenant itself.
+   */
+  schema?: (tenant: TenantId) => string
+
+  /**
+   * Throw `TenantNotResolvedError` when no tenant is resolved. When disabled,
+   * queries without a tenant are not scoped.
+   *
+   * @default true
+   */
+  required?: boolean
+}
+
+/**
+ * Defines how a transaction relates to the transaction already
+ * active in the current async context.
+ */
+export declare enum Propagation {
+  /**
+   * Joins the active transaction or starts a new one. Default.
+   */
+  REQUIRED = 'REQUIRED',
+
+  /**
+   * Always starts a new independent transaction.
+   */
+  REQUIRES_NEW = 'REQUIRES_NEW',
+
+  /**
+   * Creates a savepoint inside the active transaction or starts a new one.
+   */
+  NESTED = 'NESTED',
+
+  /**
+   * Throws if a transaction is active, otherwise starts a new one.
+   */
+  NEVER = 'NEVER',
+}
+
+/**
+ * Options for running work in a transaction.
+ */
+export interface TransactionOptions extends Omit<
+  SequelizeTransactionOptions,
+  'transaction'
+> {
+  /**
+   * How to treat a transaction already active in the current async context.
+   *
+   * @default Propagation.REQUIRED
+   */
+  propagation?: Propagation
+}
+
+/**
+ * Options for the `@Transactional()` decorator.
+ */
+export interface TransactionalOptions extends TransactionOptions {
+  /**
+   * Sequelize instance to start the transaction on. Defaults to the
+   * Sequelize instance of the first repository found on the decorated class.
+   */
+  sequelize?: Sequelize
+}
+
+/**
+ * Keeps track of the transactions active in the current async context.
+ * Repository methods join the transaction of their model's Sequelize
+ * instance unless a `transaction` option is passed explicitly.
+ */
+export declare class TransactionContext {
+  /**
+   * Get the transaction active in the current async context.
+   *
+   * @param sequelize The Sequelize instance the transaction belongs to.
+   * @returns The active transaction or undefined.
+   */
+  static getTransaction(sequelize: Sequelize): Transaction | undefined
+
+  /**
+   * Executes a callback function within a transaction according to the propagation mode.
+   *
+   * @param sequelize The Sequelize instance to start the transaction on.
+   * @param runInTransaction The callback to execute, receiving the transaction object.
+   * @param options Optional transaction options.
+   * @returns A promise resolving to the result of the callback.
+   */
+  static run<R>(
+    sequelize: Sequelize,
+    runInTransaction: (transaction: Transaction) => Promise<R>,
+    options?: TransactionOptions,
+  ): Promise<R>
+}
+
+/**
+ * Base class of the errors thrown by repository methods. Errors that
+ * are not mapped to a more specific subclass are thrown as `RepositoryError`
+ * with status 500.
+ */
+export declare class RepositoryError extends HttpException {
+  /**
+   * @param message Error message. Default is `Internal Server Error`.
+   * @param status HTTP status. Default is 500.
+   * @param cause The original error.
+   */
+  constructor(message?: string, status?: HttpStatus, cause?: unknown)
+}
+
+/**
+ * Thrown with status 404 by the `*OrFail` methods when no record is found.
+ */
+export declare class EntityNotFoundError extends RepositoryError {
+  /**
+   * Name of the model.
+   */
+  readonly model: string
+
+  /**
+   * Primary key the record was looked up by.
+   */
+  readonly key?: string | number | object
+
+  /**
+   * Where clause the record was looked up by.
+   */
+  readonly query?: unknown
+
+  constructor(model: string, key?: string | number | object, query?: unknown)
+}
+
+/**
+ * Thrown with status 409 when a unique constraint is violated.
+ */
+export declare class DuplicateEntityError extends RepositoryError {
+  /**
+   * Fields of the violated unique constraint.
+   */
+  readonly fields: string[]
+
+  /**
+   * Duplicated values by field.
+   */
+  readonly values: Record<string, unknown>
+
+  constructor(
+    fields: string[],
+    values?: Record<string, unknown>,
+    cause?: unknown,
+  )
+}
+
+/**
+ * Thrown with status 409 when a record was modified since it was read,
+ * i.e. its version does not match the expected version.
+ */
+export declare class OptimisticLockError extends RepositoryError {
+  /**
+   * Name of the model.
+   */
+  readonly model: string
+
+  /**
+   * Primary key of the record, if known.
+   */
+  readonly key?: string | number | object
+
+  /**
+   * @param model Name of the model.
+   * @param key Optional primary key of the record.
+   * @param cause Optional original error.
+   */
+  constructor(model: string, key?: string | number | object, cause?: unknown)
+}
+
+/**
+ * Thrown with status 409 when a foreign key constraint is violated.
+ */
+export declare class RelatedEntityError extends RepositoryError {
+  /**
+   * Fields of the violated foreign key.
+   */
+  readonly fields: string[]
+
+  /**
+   * Referenced table, if reported by the database.
+   */
+  readonly table?: string
+
+  constructor(fields: string[], table?: string, cause?: unknown)
+}
+
+/**
+ * A single failed validation.
+ */
+export interface EntityValidationErrorItem {
+  /**
+   * Validated field, null for model-level validators.
+   */
+  field: string | null
+
+  /**
+   * Validation message.
+   */
+  message: string
+}
+
+/**
+ * Thrown with status 400 when model validation fails.
+ */
+export declare class EntityValidationError extends RepositoryError {
+  /**
+   * Fields that failed validation.
+   */
+  readonly fields: string[]
+
+  /**
+   * Failed validations.
+   */
+  readonly errors: EntityValidationErrorItem[]
+
+  constructor(errors: EntityValidationErrorItem[], cause?: unknown)
+}
+
+/**
+ * Thrown with status 400 when the options of a query are invalid, e.g. a
+ * `limit` below one, a tampered cursor or an incomplete composite key.
+ */
+export declare class InvalidQueryError extends RepositoryError {
+  constructor(message: string)
+}
+
+/**
+ * Thrown with status 500 when the database rejects a query.
+ */
+export declare class DatabaseQueryError extends RepositoryError {
+  constructor(cause?: unknown)
+}
+
+/**
+ * Thrown with status 503 when a query or connection times out.
+ */
+export declare class RepositoryTimeoutError extends RepositoryError {
+  constructor(cause?: unknown)
+}
+
+/**
+ * Thrown with status 409 when a lock is not acquired in time, e.g. within
+ * the postgres `lock_timeout`.
+ */
+export declare class LockNotAvailableError extends RepositoryError {
+  constructor(cause?: unknown)
+}
+
+/**
+ * Thrown with status 500 when a tenant-aware repository is used
+ * without a resolved tenant and the tenant is required.
+ */
+export declare class TenantNotResolvedError extends RepositoryError {
+  /**
+   * Name of the model.
+   */
+  readonly model: string
+
+  /**
+   * @param model Name of the model.
+   */
+  constructor(model: string)
+}
+
+/**
+ * Thrown with status 500 when an operation that locks records
+ * is called without an explicit or active transaction.
+ */
+export declare class TransactionRequiredError extends RepositoryError {
+  /**
+   * Name of the repository operation.
+   */
+  readonly operation: string
+
+  /**
+   * @param operation Name of the repository operation.
+   */
+  constructor(operation: string)
+}
+
+/**
+ * Thrown with status 501 when a repository feature is not supported
+ * by the dialect of the Sequelize instance.
+ */
+export declare class UnsupportedDialectError extends RepositoryError {
+  /**
+   * Name of the unsupported feature, e.g. `RETURNING`.
+   */
+  readonly feature: string
+
+  /**
+   * Name of the dialect.
+   */
+  readonly dialect: string
+
+  /**
+   * @param feature Name of the unsupported feature.
+   * @param dialect Name of the dialect.
+   */
+  constructor(feature: string, dialect: string)
+}
+
+/**
+ * Maps a Sequelize error to a repository error.
+ *
+ * @param error The original error.
+ * @returns The matching repository error.
+ */
+export declare function toRepositoryError(error: unknown): RepositoryError
+
+/**
+ * Describes where a repository error was thrown.
+ */
+export interface RepositoryErrorContext {
+  /**
+   * Name of the repository method.
+   */
+  operation: string
+
+  /**
+   * Name of the model.
+   */
+  model: string
+}
+
+/**
+ * Describes the lookup of a record that was not found.
+ */
+export interface EntityNotFoundContext extends RepositoryErrorContext {
+  /**
+   * Primary key the record was looked up by.
+   */
+  key?: string | number | object
+
+  /**
+   * Where clause the record was looked up by.
+   */
+  query?: unknown
+}
+
+/**
+ * Configuration options for the abstract repository.
+ */
+export interface IRepositoryOptions {
+  /**
+   * Optional NestJS logger instance used for internal logging.
+   */
+  logger?: Logger
+
+  /**
+   * Secret used to sign pagination cursors. Default is a random secret of
+   * the process, set the same secret on every instance of the application
+   * when a cursor can be sent to another instance.
+   */
+  cursorSecret?: string
+
+  /**
+   * Maximum `limit` accepted by the pagination methods. Not limited by default.
+   */
+  maxLimit?: number
+
+  /**
+   * Translates repository errors before they are thrown,
+   * e.g. to the HTTP exceptions of your application.
+   */
+  errorMapper?: (
+    error: RepositoryError,
+    context: RepositoryErrorContext,
+  ) => Error
+
+  /**
+   * Creates the error thrown by the `*OrFail` methods when no record is found.
+   * Default is `EntityNotFoundError`.
+   */
+  notFoundError?: (context: EntityNotFoundContext) => Error
+
+  /**
+   * Event bus the repository events are emitted through, e.g. `EventEmitter2`
+   * from `@nestjs/event-emitter`. Events are named `<Model>.<event>`,
+   * e.g. `User.afterCreate`.
+   */
+  eventBus?: RepositoryEventBus
+
+  /**
+   * Makes the repository tenant-aware.
+   */
+  tenant?: TenantOptions
+
+  /**
+   * Where reads are sent to when Sequelize is configured with read replication.
+   * Default is `ReadPreference.AUTO`.
+   */
+  readPreference?: ReadPreference
+
+  /**
+   * Milliseconds after a write, or after the commit of the transaction
+   * it ran in, during which `AUTO` reads use the primary. The window is
+   * shared by the repositories of the same Sequelize instance, so reads of
+   * other models see the write too. Disabled by default.
+   */
+  stickyAfterWrite?: number
+
+  /**
+   * Caches the results of `findByPk`, `findOne`, `findAll`, `count` and the
+   * aggregation methods outside of transactions. Writes of any repository of
+   * the model invalidate the cached results of the model in its store, the
+   * default store when the writing repository has no `cache`. Disabled by
+   * default.
+   */
+  cache?: CacheOptions
+
+  /**
+   * Records an audit entry for every record written by the repository,
+   * in the transaction of the write. Disabled by default.
+   */
+  audit?: AuditOptions
+
+  /**
+   * Options of `recordEvent`.
+   */
+  outbox?: OutboxOptions
+
+  /**
+   * Options of soft deletes, e.g. the associations to cascade to.
+   */
+  softDelete?: SoftDeleteOptions
+}
+
+/**
+ * Generic interface defining basic repository operations
+ * such as CRUD and transaction management.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export interface IRepository<TModel extends Model> {
+  /**
+   * Get a model instance.
+   *
+   * @returns A model constructor instance.
+   */
+  getModel(): ModelCtor<TModel>
+
+  /**
+   * Creates a new record in the database.
+   *
+   * @param dto The data to create record with.
+   * @param options Optional Sequelize create options.
+   * @returns A promise resolving to the created model instance.
+   */
+  create(
+    dto: CreationAttributes<TModel>,
+    options?: CreateOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * Creates a new record in the database. Alias for `create`
+   *
+   * @param dto The data to create record with.
+   * @param options Optional Sequelize create options.
+   * @returns A promise resolving to the created model instance.
+   */
+  insert(
+    dto: CreationAttributes<TModel>,
+    options?: CreateOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * Creates multiple new records in the database.
+   *
+   * @param dtos The array of data to create records with.
+   * @param options Optional Sequelize create options.
+   * @returns A promise resolving to the created models instances.
+   */
+  insertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: BulkCreateOptions<Attributes<TModel>>,
+  ): Promise<TModel[]>
+
+  /**
+   * Creates a record or updates the record conflicting with it
+   * in a single statement.
+   *
+   * @param dto The data to create or update the record with.
+   * @param options Optional Sequelize upsert options and the conflict fields.
+   * @returns A promise resolving to the record and whether it was created.
+   */
+  upsert(
+    dto: CreationAttributes<TModel>,
+    options?: UpsertOptions<TModel>,
+  ): Promise<CreateResult<TModel>>
+
+  /**
+   * Creates records or updates the records conflicting with them
+   * in a single statement.
+   *
+   * @param dtos The array of data to create or update records with.
+   * @param options Optional Sequelize bulk create options, the conflict
+   * fields and the updated fields.
+   * @returns A promise resolving to the records, in the order of `dtos`,
+   * and whether they were created.
+   */
+  upsertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: UpsertManyOptions<TModel>,
+  ): Promise<CreateResult<TModel>[]>
+
+  /**
+   * Finds a record matching the query or creates it from the query
+   * and the defaults. A record created concurrently is found instead.
+   *
+   * @param query A Sequelize where clause.
+   * @param defaults Optional values used only when creating the record.
+   * @param options Optional Sequelize find or create options.
+   * @returns A promise resolving to the record and whether it was created.
+   */
+  findOrCreate(
+    query: WhereOptions<Attributes<TModel>>,
+    defaults?: Partial<CreationAttributes<TModel>>,
+    options?: FindOrCreateOptions<TModel>,
+  ): Promise<CreateResult<TModel>>
+
+  /**
+   * Finds a record by its primary key
+   *
+   * @param primaryKey The value of the primary key, or an object of the values of a composite primary key.
+   * @param options Optional Sequelize find options, excluding 'where', and the read preference.
+   * @returns A Promise resolving the found record or null.
+   */
+  findByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * Finds a record by its primary key or throws if it does not exist.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param options Optional Sequelize find options, excluding 'where', and the read preference.
+   * @returns A Promise resolving the found record.
+   * @throws EntityNotFoundError or the error created by `notFoundError`.
+   */
+  findByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * Finds the records of several primary keys in one query.
+   *
+   * @param primaryKeys The values of the primary keys, or objects of the values of composite primary keys.
+   * @param options Optional Sequelize find options, excluding 'where', and the read preference.
+   * @returns A Promise resolving the found records in the order of the keys, without the missing ones.
+   */
+  findManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * Finds a single record by matching the provided query
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize find options, excluding 'where', and the read preference.
+   * @returns A Promise resolving the found record or null.
+   */
+  findOne(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * Finds a single record by matching the provided query or throws if it does not exist.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize find options, excluding 'where', and the read preference.
+   * @returns A Promise resolving the found record.
+   * @throws EntityNotFoundError or the error created by `notFoundError`.
+   */
+  findOneOrFail(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * Finds all records matching the provided query
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize find options, excluding 'where', and the read preference.
+   * @returns A Promise resolving the found records or empty erray.
+   */
+  findAll(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * Finds a record by its primary key and locks it until the transaction ends.
+   * Joins the active transaction.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param options Optional Sequelize find options and the lock mode.
+   * @returns A Promise resolving the locked record or null.
+   * @throws TransactionRequiredError when no transaction is active.
+   * @throws UnsupportedDialectError when the dialect has no row locks or lock mode.
+   */
+  findByPkForUpdate(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * Finds all records matching the provided query and locks them until the transaction ends.
+   * Joins the active transaction.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize find options and the lock mode.
+   * @returns A Promise resolving the locked records or empty array.
+   * @throws TransactionRequiredError when no transaction is active.
+   * @throws UnsupportedDialectError when the dialect has no row locks or lock mode.
+   */
+  findAllForUpdate(
+    query?: RepositoryQuery<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * Locks the next records matching the provided query, skipping records
+   * locked by other transactions. Records are ordered by primary key unless
+   * `order` is set.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param limit Maximum number of records to claim, defaults to 1.
+   * @param options Optional Sequelize find options, excluding 'where' and 'limit'.
+   * @returns A Promise resolving the claimed records or empty array.
+   * @throws TransactionRequiredError when no transaction is active.
+   * @throws UnsupportedDialectError when the dialect has no `SKIP LOCKED`.
+   */
+  claimNext(
+    query?: RepositoryQuery<TModel>,
+    limit?: number,
+    options?: ClaimOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * Find first amount of records set by limit and count all existing records
+   *
+   * @param options Pagination options.
+   *
+   * @returns A Promise resolving `rows`(found records), `count`(amout of existing records) and page metadata.
+   * @throws InvalidQueryError if `limit`, `page` or `offset` is invalid or `limit` exceeds `maxLimit`.
+   */
+  findAllPaginated(options: PaginationOptions<TModel>): Promise<Page<TModel>>
+
+  /**
+   * Calls the handler for every record matching the provided query. Records
+   * are loaded in batches of `batchSize`, so they are never all in memory.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Batch size, order and Sequelize find options.
+   * @param handler Awaited function called with every record.
+   * @returns A Promise resolved when every record was handled.
+   * @throws InvalidQueryError if `batchSize` is invalid.
+   */
+  findEach(
+    query: RepositoryQuery<TModel> | undefined,
+    options: IterateOptions<TModel> | undefined,
+    handler: (entity: TModel) => void | Promise<void>,
+  ): Promise<void>
+
+  /**
+   * Iterates over the records matching the provided query. Records are
+   * loaded in batches of `batchSize`, each batch starting after the last
+   * record of the previous one (keyset pagination).
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Batch size, order and Sequelize find options.
+   * @returns An async iterator of the records.
+   * @throws InvalidQueryError if `batchSize` is invalid.
+   */
+  iterate(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): AsyncGenerator<TModel>
+
+  /**
+   * Streams the records matching the provided query, loaded like `iterate`.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Batch size, order and Sequelize find options.
+   * @returns A `Readable` in object mode emitting the records.
+   * @throws InvalidQueryError if `batchSize` is invalid.
+   */
+  stream(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): Readable
+
+  /**
+   * Find records after or before a cursor, ordered by the `orderBy` columns.
+   *
+   * @param options Cursor pagination options.
+   * @returns A Promise resolving the found records and the cursors of the page.
+   * @throws InvalidQueryError if a cursor is invalid or was tampered with.
+   */
+  findAllByCursor(
+    options: CursorPaginationOptions<TModel>,
+  ): Promise<CursorPage<TModel>>
+
+  /**
+   * Updates a records by its primary key.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param dto Partial data to update the record with.
+   * @param options Optional Sequelize save options and the expected version.
+   * @returns A Promise resolving the updated record or null.
+   * @throws OptimisticLockError when the version does not match `expectedVersion`.
+   */
+  updateByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * Updates a records by its primary key or throws if it does not exist.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param dto Partial data to update the record with.
+   * @param options Optional Sequelize save options and the expected version.
+   * @returns A Promise resolving the updated record.
+   * @throws EntityNotFoundError or the error created by `notFoundError`.
+   * @throws OptimisticLockError when the version does not match `expectedVersion`.
+   */
+  updateByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * Updates the records matching a query in a single statement
+   * and returns the updated records.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param dto Partial data to update the records with.
+   * @param options Sequelize update options with `returning` enabled.
+   * @returns A Promise resolving the updated records.
+   * @throws UnsupportedDialectError when the dialect has no RETURNING.
+   */
+  update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options: UpdateOptions<TModel> & { returning: true },
+  ): Promise<TModel[]>
+
+  /**
+   * Updates the records matching a query in a single statement.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param dto Partial data to update the records with.
+   * @param options Optional Sequelize update options, excluding 'where'.
+   * @returns A Promise resolving the number of updated records.
+   */
+  update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * Updates multiple records by their primary keys in a single transaction.
+   * Records with the same changes are updated by a single statement.
+   *
+   * @param updates The primary keys and changes of the records.
+   * @param options Optional Sequelize update options, excluding 'where'.
+   * @returns A Promise resolving the number of updated records.
+   */
+  updateMany(
+    updates: EntityUpdate<TModel>[],
+    options?: UpdateManyOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * Count all records matching the provided query
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize count options, excluding 'where' and 'group', and the read preference.
+   * @returns A Promise resolving the amount of matching records.
+   */
+  count(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<number>
+
+  /**
+   * Check whether any record matches the provided query
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize count options, excluding 'where' and 'group', and the read preference.
+   * @returns A Promise resolving true when a matching record exists.
+   */
+  exists(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<boolean>
+
+  /**
+   * Sum a column over all records matching the provided query
+   *
+   * @param column The column to sum.
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize aggregate options and the read preference.
+   * @returns A Promise resolving the sum, 0 when no record matches.
+   */
+  sum(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * Average a column over all records matching the provided query
+   *
+   * @param column The column to average.
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize aggregate options and the read preference.
+   * @returns A Promise resolving the average, null when no record matches.
+   */
+  avg(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number | null>
+
+  /**
+   * Get the smallest value of a column over all records matching the provided query
+   *
+   * @param column The column.
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize aggregate options and the read preference.
+   * @returns A Promise resolving the smallest value, null when no record matches.
+   */
+  min<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null>
+
+  /**
+   * Get the largest value of a column over all records matching the provided query
+   *
+   * @param column The column.
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize aggregate options and the read preference.
+   * @returns A Promise resolving the largest value, null when no record matches.
+   */
+  max<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null>
+
+  /**
+   * Group the records matching the provided query and compute aggregates per group
+   *
+   * @param columns The columns to group by.
+   * @param aggregates The aggregates by alias, e.g. `{ revenue: ['sum', 'total'] }`.
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize find options and the read preference.
+   * @returns A Promise resolving one row per group with the columns and aggregates.
+   */
+  groupBy<
+    K extends keyof Attributes<TModel> & string,
+    const A extends Record<string, Aggregate<TModel>>,
+  >(
+    columns: K[],
+    aggregates: A,
+    query?: RepositoryQuery<TModel>,
+    options?: GroupByOptions<TModel>,
+  ): Promise<GroupByRow<TModel, K, A>[]>
+
+  /**
+   * Delete all records matching query
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize destroy options.
+   * @returns A Promise represented amount of deleted records.
+   */
+  delete(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<number>
+
+  /**
+   * Restore all deleted records.
+   *
+   * @param query A Sequelize where clause.
+   * @param options Optional Sequelize restore options.
+   * @returns Promise<void>
+   */
+  restore(
+    query?: WhereOptions<Attributes<TModel>>,
+    options?: Omit<RestoreOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<void>
+
+  /**
+   * Deletes (soft or hard) a record by its primary key.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param options Optional Sequelize destroy options and the expected version.
+   * @returns A Promise resolving the deleted record or null.
+   * @throws OptimisticLockError when the version does not match `expectedVersion`.
+   */
+  deleteByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
+  ): Promise<TModel | null>
+
+  /**
+   * Deletes (soft or hard) a record by its primary key or throws if it does not exist.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param options Optional Sequelize destroy options and the expected version.
+   * @returns A Promise resolving the deleted record.
+   * @throws EntityNotFoundError or the error created by `notFoundError`.
+   * @throws OptimisticLockError when the version does not match `expectedVersion`.
+   */
+  deleteByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
+  ): Promise<TModel>
+
+  /**
+   * Deletes (soft or hard) the records of several primary keys in one query.
+   *
+   * @param primaryKeys The values of the primary keys, or objects of the values of composite primary keys.
+   * @param options Optional Sequelize destroy options, excluding 'where'.
+   * @returns A Promise resolving the amount of deleted records.
+   */
+  deleteManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<number>
+
+  /**
+   * Restores a preiously soft-deleted record by its primary key.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param options Optional Sequelize restore options.
+   * @returns A Promise resolving the found record or null.
+   */
+  restoreByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel | null>
+
+  /**
+   * Restores a preiously soft-deleted record by its primary key or throws if it does not exist.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param options Optional Sequelize restore options.
+   * @returns A Promise resolving the restored record.
+   * @throws EntityNotFoundError or the error created by `notFoundError`.
+   */
+  restoreByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel>
+
+  /**
+   * Find the soft-deleted records matching the provided query.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize find options, excluding 'where' and 'paranoid', and the read preference.
+   * @returns A Promise resolving the deleted records, empty for models without `paranoid`.
+   */
+  findDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * Find the records matching the provided query, including the soft-deleted ones.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize find options, excluding 'where' and 'paranoid', and the read preference.
+   * @returns A Promise resolving the matching records.
+   */
+  findAllWithDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * Count the soft-deleted records matching the provided query.
+   *
+   * @param query A Sequelize where clause or a specification.
+   * @param options Optional Sequelize count options, excluding 'where', 'group' and 'paranoid', and the read preference.
+   * @returns A Promise resolving the amount of deleted records.
+   */
+  countDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedCountOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * Permanently deletes soft-deleted records, e.g. those deleted before a retention date.
+   *
+   * @param options Optional date, query and transaction.
+   * @returns A Promise resolving the amount of purged records.
+   */
+  purgeDeleted(options?: PurgeDeletedOptions<TModel>): Promise<number>
+
+  /**
+   * Check whether a record is soft-deleted.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param options Optional transaction and read preference.
+   * @returns A Promise resolving true when the record exists and is deleted.
+   */
+  isDeleted(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable & ReadOptions,
+  ): Promise<boolean>
+
+  /**
+   * Reads the audit trail of a record, oldest entry first.
+   *
+   * @param primaryKey The value of the primary key.
+   * @param options Optional transaction.
+   * @returns A Promise resolving the audit entries of the record.
+   */
+  getHistory(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable,
+  ): Promise<AuditEntry<TModel>[]>
+
+  /**
+   * Records a domain event in the outbox, in the active transaction, so it
+   * is only published when the transaction commits.
+   *
+   * @param type The event type.
+   * @param payload The JSON payload of the event.
+   * @param options Optional aggregate id and transaction.
+   * @returns A Promise resolved once the event is stored.
+   * @throws TransactionRequiredError when no transaction is active.
+   */
+  recordEvent<TPayload = unknown>(
+    type: string,
+    payload: TPayload,
+    options?: RecordEventOptions,
+  ): Promise<void>
+
+  /**
+   * Executes a callback function withing a Sequelize transaction.
+   * Repository methods called inside the callback join the transaction
+   * without passing it explicitly.
+   *
+   * @param runInTransaction The callback to execute, receiving the transaction object.
+   * @param options Optional transaction options, including the propagation mode.
+   * @returns A promise resolving to the result of the callback.
+   */
+  transaction<R>(
+    runInTransaction: (transaction: Transaction) => Promise<R>,
+    options?: TransactionOptions,
+  ): Promise<R>
+
+  /**
+   * Calculate offset for page pagination
+   *
+   * @param limit Amount of records to return per page
+   * @param page Target page number
+   * @returns Number, amount of records to skip (offset)
+   */
+  calculateOffset(limit: number, page: number): number
+
+  /**
+   * Start a fluent query typed against the model attributes.
+   *
+   * @returns A new query builder.
+   */
+  query(): QueryBuilder<TModel>
+}
+
+/**
+ * Base model class based on sequelize `Model` class
+ * adding creation and update timestamps, without soft deletes.
+ *
+ * @template TModelAttributes Type of the Model class. Default is `any`
+ * @template TCreationAttributes Type of the Model creation attributes. Default is Model class
+ */
+export declare class TimestampedModel<
+  TModelAttributes extends {} = any,
+  TCreationAttributes extends {} = TModelAttributes,
+> extends Model<TModelAttributes, TCreationAttributes> {
+  /**
+   * Model creation time
+   */
+  createdAt: Date
+
+  /**
+   * Model update time. Default is `createdAt` timestamp
+   */
+  updatedAt: Date
+}
+
+/**
+ * Base model class based on sequelize `Model` class
+ * adding timestamps and soft deletes.
+ *
+ * @template TModelAttributes Type of the Model class. Default is `any`
+ * @template TCreationAttributes Type of the Model creation attributes. Default is Model class
+ */
+export declare class BaseModel<
+  TModelAttributes extends {} = any,
+  TCreationAttributes extends {} = TModelAttributes,
+> extends TimestampedModel<TModelAttributes, TCreationAttributes> {
+  /**
+   * Model deletion time
+   *
+   * @default null
+   */
+  deletedAt: Date | null
+
+  /**
+   * Model version, incremented on every update. Only present when
+   * optimistic locking is enabled with `@Table({ version: true })`
+   */
+  version?: number
+}
+
+/**
+ * `BaseModel` with a UUID v4 primary key generated on create.
+ *
+ * @template TModelAttributes Type of the Model class. Default is `any`
+ * @template TCreationAttributes Type of the Model creation attributes. Default is Model class
+ */
+export declare class UuidBaseModel<
+  TModelAttributes extends {} = any,
+  TCreationAttributes extends {} = TModelAttributes,
+> extends BaseModel<TModelAttributes, TCreationAttributes> {
+  /**
+   * Primary key
+   */
+  id: string
+}
+
+/**
+ * `BaseModel` with an auto-increment integer primary key.
+ *
+ * @template TModelAttributes Type of the Model class. Default is `any`
+ * @template TCreationAttributes Type of the Model creation attributes. Default is Model class
+ */
+export declare class IntBaseModel<
+  TModelAttributes extends {} = any,
+  TCreationAttributes extends {} = TModelAttributes,
+> extends BaseModel<TModelAttributes, TCreationAttributes> {
+  /**
+   * Primary key
+   */
+  id: number
+}
+
+/**
+ * `BaseModel` with the actors who created and last updated a record.
+ * Repositories fill both columns from the actor of `AuditContext`, or the
+ * `audit.resolver` repository option, unless the values are passed.
+ *
+ * @template TModelAttributes Type of the Model class. Default is `any`
+ * @template TCreationAttributes Type of the Model creation attributes. Default is Model class
+ */
+export declare class AuditableBaseModel<
+  TModelAttributes extends {} = any,
+  TCreationAttributes extends {} = TModelAttributes,
+> extends BaseModel<TModelAttributes, TCreationAttributes> {
+  /**
+   * Actor who created the record
+   *
+   * @default null
+   */
+  createdBy: string | null
+
+  /**
+   * Actor who last updated the record
+   *
+   * @default null
+   */
+  updatedBy: string | null
+}
+
+/**
+ * Base abstract class providing default implementations of common
+ * repository operations. Designed to be extended for model-specific logic.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export declare class AbstractRepository<
+  TModel extends Model,
+> implements IRepository<TModel> {
+  /**
+   * Logger instance used for logging errors.
+   */
+  protected readonly logger: Logger
+
+  /**
+   * Configuration options passed to the constructor.
+   */
+  protected readonly options: IRepositoryOptions
+
+  /**
+   * Constructs the abstract repository.
+   *
+   * @param model The Sequelize model constructor.
+   * @param options Optional configuration options.
+   */
+  constructor(model: ModelCtor<TModel>, options?: IRepositoryOptions)
+
+  /**
+   * @inheritdoc
+   */
+  getModel(): ModelCtor<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  create(
+    dto: CreationAttributes<TModel>,
+    options?: CreateOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  insert(
+    dto: CreationAttributes<TModel>,
+    options?: CreateOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  insertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: BulkCreateOptions<Attributes<TModel>>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  upsert(
+    dto: CreationAttributes<TModel>,
+    options?: UpsertOptions<TModel>,
+  ): Promise<CreateResult<TModel>>
+
+  /**
+   * @inheritdoc
+   */
+  upsertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: UpsertManyOptions<TModel>,
+  ): Promise<CreateResult<TModel>[]>
+
+  /**
+   * @inheritdoc
+   */
+  findOrCreate(
+    query: WhereOptions<Attributes<TModel>>,
+    defaults?: Partial<CreationAttributes<TModel>>,
+    options?: FindOrCreateOptions<TModel>,
+  ): Promise<CreateResult<TModel>>
+
+  /**
+   * @inheritdoc
+   */
+  findByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * @inheritdoc
+   */
+  findByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  findManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  findOne(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * @inheritdoc
+   */
+  findOneOrFail(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  findAll(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  findByPkForUpdate(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * @inheritdoc
+   */
+  findAllForUpdate(
+    query?: RepositoryQuery<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  claimNext(
+    query?: RepositoryQuery<TModel>,
+    limit?: number,
+    options?: ClaimOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  findAllPaginated(options: PaginationOptions<TModel>): Promise<Page<TModel>>
+
+  /**
+   * @inheritdoc
+   */
+  findEach(
+    query: RepositoryQuery<TModel> | undefined,
+    options: IterateOptions<TModel> | undefined,
+    handler: (entity: TModel) => void | Promise<void>,
+  ): Promise<void>
+
+  /**
+   * @inheritdoc
+   */
+  iterate(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): AsyncGenerator<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  stream(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): Readable
 
   /**
    * @inheritdoc
    */
-  findAllPaginated(
-    options: PaginationOptions<TModel>,
-  ): Promise<{ rows: TModel[]; count: number }>
+  findAllByCursor(
+    options: CursorPaginationOptions<TModel>,
+  ): Promise<CursorPage<TModel>>
 
   /**
    * @inheritdoc
    */
   updateByPk(
-    primaryKey: string | number,
+    primaryKey: PrimaryKeyOf<TModel>,
     dto: Partial<Attributes<TModel>>,
-    options?: SaveOptions<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
   ): Promise<TModel | null>
 
+  /**
+   * @inheritdoc
+   */
+  updateByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options: UpdateOptions<TModel> & { returning: true },
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  updateMany(
+    updates: EntityUpdate<TModel>[],
+    options?: UpdateManyOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  count(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  exists(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<boolean>
+
+  /**
+   * @inheritdoc
+   */
+  sum(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  avg(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number | null>
+
+  /**
+   * @inheritdoc
+   */
+  min<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null>
+
+  /**
+   * @inheritdoc
+   */
+  max<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null>
+
+  /**
+   * @inheritdoc
+   */
+  groupBy<
+    K extends keyof Attributes<TModel> & string,
+    const A extends Record<string, Aggregate<TModel>>,
+  >(
+    columns: K[],
+    aggregates: A,
+    query?: RepositoryQuery<TModel>,
+    options?: GroupByOptions<TModel>,
+  ): Promise<GroupByRow<TModel, K, A>[]>
+
   /**
    * @inheritdoc
    */
   delete(
-    query?: WhereOptions<Attributes<TModel>>,
+    query?: RepositoryQuery<TModel>,
     options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
   ): Promise<number>
 
@@ -383,35 +3003,417 @@ export declare class AbstractRepository<
    * @inheritdoc
    */
   deleteByPk(
-    primaryKey: string | number,
-    options?: InstanceDestroyOptions,
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
   ): Promise<TModel | null>
 
+  /**
+   * @inheritdoc
+   */
+  deleteByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  deleteManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<number>
+
   /**
    * @inheritdoc
    */
   restoreByPk(
-    primaryKey: string | number,
+    primaryKey: PrimaryKeyOf<TModel>,
     options?: InstanceRestoreOptions,
   ): Promise<TModel | null>
 
+  /**
+   * @inheritdoc
+   */
+  restoreByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  findDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  findAllWithDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  countDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedCountOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  purgeDeleted(options?: PurgeDeletedOptions<TModel>): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  isDeleted(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable & ReadOptions,
+  ): Promise<boolean>
+
+  /**
+   * @inheritdoc
+   */
+  getHistory(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable,
+  ): Promise<AuditEntry<TModel>[]>
+
+  /**
+   * @inheritdoc
+   */
+  recordEvent<TPayload = unknown>(
+    type: string,
+    payload: TPayload,
+    options?: RecordEventOptions,
+  ): Promise<void>
+
   /**
    * @inheritdoc
    */
   transaction<R>(
     runInTransaction: (transaction: Transaction) => Promise<R>,
+    options?: TransactionOptions,
   ): Promise<R>
 
   /**
    * @inheritDoc
    */
   calculateOffset(limit: number, page: number): number
+
+  /**
+   * @inheritDoc
+   */
+  query(): QueryBuilder<TModel>
+
+  /**
+   * Listen to a repository event. Listeners are awaited in the order they
+   * were added and run in the transaction of the operation. An error thrown
+   * by a listener fails the operation.
+   *
+   * @param event Name of the event.
+   * @param listener Awaited event listener.
+   * @returns A function removing the listener.
+   */
+  on<E extends RepositoryEventName>(
+    event: E,
+    listener: RepositoryEventListener<RepositoryEventMap<TModel>[E]>,
+  ): () => void
+
+  /**
+   * Add a listener called before records are created by `create`, `insert`, `insertMany`, `upsert`, `upsertMany` or `findOrCreate`.
+   *
+   * @param listener Awaited event listener.
+   * @returns A function removing the listener.
+   */
+  onBeforeCreate(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['beforeCreate']
+    >,
+  ): () => void
+
+  /**
+   * Add a listener called after records are created by `create`, `insert`, `insertMany`, `upsert`, `upsertMany` or `findOrCreate`.
+   *
+   * @param listener Awaited event listener.
+   * @returns A function removing the listener.
+   */
+  onAfterCreate(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['afterCreate']
+    >,
+  ): () => void
+
+  /**
+   * Add a listener called before a record is saved by `updateByPk`, and for every record updated by `update`, `updateMany`, `upsert` or `upsertMany`. The listener receives the changed fields.
+   *
+   * @param listener Awaited event listener.
+   * @returns A function removing the listener.
+   */
+  onBeforeUpdate(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['beforeUpdate']
+    >,
+  ): () => void
+
+  /**
+   * Add a listener called after a record is saved by `updateByPk`, and for every record updated by `update`, `updateMany`, `upsert` or `upsertMany`.
+   *
+   * @param listener Awaited event listener.
+   * @returns A function removing the listener.
+   */
+  onAfterUpdate(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['afterUpdate']
+    >,
+  ): () => void
+
+  /**
+   * Add a listener called before records are deleted by `delete` or `deleteByPk`.
+   *
+   * @param listener Awaited event listener.
+   * @returns A function removing the listener.
+   */
+  onBeforeDelete(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['beforeDelete']
+    >,
+  ): () => void
+
+  /**
+   * Add a listener called after records are deleted by `delete` or `deleteByPk`.
+   *
+   * @param listener Awaited event listener.
+   * @returns A function removing the listener.
+   */
+  onAfterDelete(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['afterDelete']
+    >,
+  ): () => void
+
+  /**
+   * Add a listener called before records are restored by `restore` or `restoreByPk`.
+   *
+   * @param listener Awaited event listener.
+   * @returns A function removing the listener.
+   */
+  onBeforeRestore(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['beforeRestore']
+    >,
+  ): () => void
+
+  /**
+   * Add a listener called after records are restored by `restore` or `restoreByPk`.
+   *
+   * @param listener Awaited event listener.
+   * @returns A function removing the listener.
+   */
+  onAfterRestore(
+    listener: RepositoryEventListener<
+      RepositoryEventMap<TModel>['afterRestore']
+    >,
+  ): () => void
+}
+
+/**
+ * Repository created for models registered without a custom repository class.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export declare class NestlizeRepository<
+  TModel extends Model,
+> extends AbstractRepository<TModel> {
+  /**
+   * @param model The Sequelize model constructor.
+   * @param options Optional configuration options.
+   */
+  constructor(model: ModelCtor<TModel>, options?: IRepositoryOptions)
+}
+
+/**
+ * Runs the decorated method in a transaction. Repository methods
+ * called inside it join the transaction without passing it explicitly.
+ *
+ * @param options Optional transaction options, e.g. `isolationLevel` or `readOnly`.
+ */
+export declare function Transactional(
+  options?: TransactionalOptions,
+): MethodDecorator
+
+/**
+ * Options for `retryOnConflict`.
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of calls, including the first one.
+   *
+   * @default 3
+   */
+  attempts?: number
+
+  /**
+   * Milliseconds to wait before the next attempt, or a function of the
+   * failed attempt returning them. Default doubles from 50ms.
+   */
+  backoff?: number | ((attempt: number) => number)
 }
 
+/**
+ * Calls a read-modify-write callback again when it throws
+ * `OptimisticLockError`. Other errors are rethrown immediately.
+ *
+ * @param callback Callback receiving the number of the attempt, starting at 1.
+ * @param options Optional number of attempts and backoff.
+ * @returns A promise resolving to the result of the callback.
+ */
+export declare function retryOnConflict<R>(
+  callback: (attempt: number) => Promise<R>,
+  options?: RetryOptions,
+): Promise<R>
+
+/**
+ * Injection token of the global repository options registered by
+ * `NestlizeModule.forRoot` and `NestlizeModule.forRootAsync`.
+ */
+export declare const NESTLIZE_MODULE_OPTIONS = 'NESTLIZE_MODULE_OPTIONS'
+
+/**
+ * Injection token of the relay options registered by
+ * `NestlizeModule.forOutbox` and `NestlizeModule.forOutboxAsync`.
+ */
+export declare const NESTLIZE_OUTBOX_OPTIONS = 'NESTLIZE_OUTBOX_OPTIONS'
+
+/**
+ * Get the injection token of the repository registered for a model.
+ *
+ * @param model The Sequelize model constructor.
+ * @returns The injection token.
+ */
+export declare function getRepositoryToken(model: ModelCtor<any>): string
+
+/**
+ * Injects the repository registered for a model.
+ *
+ * @param model The Sequelize model constructor.
+ */
 export declare function InjectRepository(
   model: ModelCtor<any>,
 ): PropertyDecorator & ParameterDecorator
 
+/**
+ * Injects the global repository options, e.g. to pass them
+ * to a custom repository constructor.
+ */
+export declare function InjectRepositoryOptions(): PropertyDecorator &
+  ParameterDecorator
+
 export declare class Nestlize {
-  getProvider(model: ModelCtor<any>): Provider
+  /**
+   * Creates the provider of a model-backed repository.
+   *
+   * @param model The Sequelize model constructor.
+   */
+  static getProvider(model: ModelCtor<any>): Provider
+}
+
+/**
+ * Options for registering global repository options asynchronously.
+ */
+export interface NestlizeModuleAsyncOptions extends Pick<
+  ModuleMetadata,
+  'imports'
+> {
+  /**
+   * Factory returning the global repository options.
+   */
+  useFactory: (
+    ...args: any[]
+  ) => IRepositoryOptions | Promise<IRepositoryOptions>
+
+  /**
+   * Providers injected into the factory.
+   */
+  inject?: InjectionToken[]
+}
+
+/**
+ * Options for registering the outbox relay asynchronously.
+ */
+export interface NestlizeOutboxAsyncOptions extends Pick<
+  ModuleMetadata,
+  'imports'
+> {
+  /**
+   * Factory returning the relay options.
+   */
+  useFactory: (
+    ...args: any[]
+  ) => OutboxRelayOptions | Promise<OutboxRelayOptions>
+
+  /**
+   * Providers injected into the factory.
+   */
+  inject?: InjectionToken[]
+}
+
+/**
+ * Options for registering repositories of a feature module.
+ */
+export interface NestlizeFeatureOptions {
+  /**
+   * Custom repository classes. A repository is registered under the token
+   * of the model it was constructed with instead of a `NestlizeRepository`.
+   */
+  repositories?: Type<AbstractRepository<any>>[]
+}
+
+/**
+ * Nest module registering repositories and global repository options.
+ */
+export declare class NestlizeModule {
+  /**
+   * Registers global repository options.
+   *
+   * @param options Options passed to every `NestlizeRepository`.
+   */
+  static forRoot(options?: IRepositoryOptions): DynamicModule
+
+  /**
+   * Registers global repository options resolved by a factory.
+   *
+   * @param options Factory, its dependencies and imported modules.
+   */
+  static forRootAsync(options: NestlizeModuleAsyncOptions): DynamicModule
+
+  /**
+   * Registers and exports a repository for each model under `getRepositoryToken(model)`.
+   *
+   * @param models The Sequelize model constructors.
+   * @param options Optional custom repositories.
+   */
+  static forFeature(
+    models?: ModelCtor<any>[],
+    options?: NestlizeFeatureOptions,
+  ): DynamicModule
+
+  /**
+   * Registers and exports an `OutboxRelay` polling while the application runs.
+   *
+   * @param options Options of the relay.
+   */
+  static forOutbox(options: OutboxRelayOptions): DynamicModule
+
+  /**
+   * Registers and exports an `OutboxRelay` with options resolved by a factory.
+   *
+   * @param options Factory, its dependencies and imported modules.
+   */
+  static forOutboxAsync(options: NestlizeOutboxAsyncOptions): DynamicModule
 }
@@ -1,377 +1,35 @@
-import {
-  Inject,
-  InternalServerErrorException,
-  Logger,
-  Provider,
-} from '@nestjs/common'
-import {
-  Transaction,
-  WhereOptions,
-  CreationAttributes,
-  CreateOptions,
-  FindOptions,
-  Attributes,
-  SaveOptions,
-  InstanceDestroyOptions,
-  InstanceRestoreOptions,
-  BulkCreateOptions,
-  FindAndCountOptions,
-  DestroyOptions,
-  RestoreOptions,
-} from 'sequelize'
-import {
-  AllowNull,
-  Column,
-  CreatedAt,
-  DataType,
-  Default,
-  DeletedAt,
-  Model,
-  ModelCtor,
-  UpdatedAt,
-} from 'sequelize-typescript'
-
-const getRepositoryToken = (model: ModelCtor<any>) => {
-  return `NESTLIZE_REPOSITORY_${model.name}`
-}
-
-export interface PaginationOptions<TModel extends Model> {
-  limit?: number
-  offset?: number
-  page?: number
-  query?: WhereOptions<Attributes<TModel>>
-  findOptions?: Omit<
-    FindAndCountOptions<Attributes<TModel>>,
-    'where' | 'offset' | 'limit'
-  >
-}
-
-export interface IRepositoryOptions {
-  logger?: Logger
-}
-
-export interface IRepository<TModel extends Model> {
-  getModel(): ModelCtor<TModel>
-  create(
-    dto: CreationAttributes<TModel>,
-    options?: CreateOptions<TModel>,
-  ): Promise<TModel>
-  insert(
-    dto: CreationAttributes<TModel>,
-    options?: CreateOptions<TModel>,
-  ): Promise<TModel>
-  insertMany(
-    dtos: CreationAttributes<TModel>[],
-    options?: BulkCreateOptions<Attributes<TModel>>,
-  ): Promise<TModel[]>
-  findByPk(
-    primaryKey: string | number,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel | null>
-  findOne(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel | null>
-  findAll(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel[]>
-  findAllPaginated(
-    options: PaginationOptions<TModel>,
-  ): Promise<{ rows: TModel[]; count: number }>
-  updateByPk(
-    primaryKey: string | number,
-    dto: Partial<Attributes<TModel>>,
-    options?: SaveOptions<Attributes<TModel>>,
-  ): Promise<TModel | null>
-  delete(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<number>
-  restore(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<RestoreOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<void>
-  deleteByPk(
-    primaryKey: string | number,
-    options?: InstanceDestroyOptions,
-  ): Promise<TModel | null>
-  restoreByPk(
-    primaryKey: string | number,
-    options?: InstanceRestoreOptions,
-  ): Promise<TModel | null>
-  transaction<R>(
-    runInTransaction: (transaction: Transaction) => Promise<R>,
-  ): Promise<R>
-  calculateOffset(limit: number, page: number): number
-}
-
-export class BaseModel<
-  TModelAttributes extends {} = any,
-  TCreationAttributes extends {} = TModelAttributes,
-> extends Model<TModelAttributes, TCreationAttributes> {
-  @CreatedAt
-  @Column
-  declare createdAt: Date
-
-  @UpdatedAt
-  @Column
-  declare updatedAt: Date
-
-  @Default(null)
-  @AllowNull
-  @DeletedAt
-  @Column({ type: DataType.DATE })
-  declare deletedAt: Date | null
-}
-
-export class AbstractRepository<
-  TModel extends Model,
-> implements IRepository<TModel> {
-  protected readonly logger: Logger
-
-  constructor(
-    protected readonly model: ModelCtor<TModel>,
-    options: IRepositoryOptions = {},
-  ) {
-    const { logger = new Logger(this.constructor.name) } = options
-
-    if (new.target === AbstractRepository) {
-      throw new Error('AbstractRepository cannot be instantiated directly')
-    }
-
-    this.logger = logger
-  }
-
-  public getModel(): ModelCtor<TModel> {
-    return this.model
-  }
-
-  public async create(
-    dto: CreationAttributes<TModel>,
-    options?: CreateOptions<Attributes<TModel>>,
-  ): Promise<TModel> {
-    try {
-      return await this.model.create(dto, options)
-    } catch (error) {
-      this.logger.error(`insert: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async insert(
-    dto: CreationAttributes<TModel>,
-    options?: CreateOptions<Attributes<TModel>>,
-  ): Promise<TModel> {
-    return this.create(dto, options)
-  }
-
-  public async insertMany(
-    dtos: CreationAttributes<TModel>[],
-    options?: BulkCreateOptions<Attributes<TModel>>,
-  ): Promise<TModel[]> {
-    try {
-      return await this.model.bulkCreate(dtos, options)
-    } catch (error) {
-      this.logger.error(`insertMany: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async findByPk(
-    primaryKey: string | number,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel | null> {
-    try {
-      return await this.model.findByPk(primaryKey, options)
-    } catch (error) {
-      this.logger.error(`findByPk: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async findOne(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel | null> {
-    try {
-      return await this.model.findOne({
-        where: query,
-        ...options,
-      })
-    } catch (error) {
-      this.logger.error(`findOne: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async findAll(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: Omit<FindOptions<Attributes<TModel>>, 'where'>,
-  ): Promise<TModel[]> {
-    try {
-      return await this.model.findAll({
-        where: query,
-        ...options,
-      })
-    } catch (error) {
-      this.logger.error(`findAll: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async findAllPaginated(
-    options: PaginationOptions<TModel>,
-  ): Promise<{ rows: TModel[]; count: number }> {
-    try {
-      let { limit = 10, offset = 0, page, query, findOptions } = options
-
-      if (!offset && page) {
-        offset = this.calculateOffset(limit, page)
-      }
-
-      return await this.model.findAndCountAll({
-        where: query,
-        limit,
-        offset,
-        ...findOptions,
-      })
-    } catch (error) {
-      this.logger.error(`findAllPaginated: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async updateByPk(
-    primaryKey: string | number,
-    dto: Partial<Attributes<TModel>>,
-    options?: SaveOptions<Attributes<TModel>>,
-  ): Promise<TModel | null> {
-    try {
-      const entity = await this.findByPk(primaryKey)
-
-      if (!entity) {
-        return null
-      }
-
-      entity.set(dto)
-      return await entity.save(options)
-    } catch (error) {
-      this.logger.error(`updatedByPk: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async delete(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: DestroyOptions<Attributes<TModel>>,
-  ): Promise<number> {
-    try {
-      return this.model.destroy({
-        where: query,
-        ...options,
-      })
-    } catch (error) {
-      this.logger.error(`delete: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async restore(
-    query?: WhereOptions<Attributes<TModel>>,
-    options?: RestoreOptions<Attributes<TModel>>,
-  ): Promise<void> {
-    try {
-      return this.model.restore({ where: query, ...options })
-    } catch (error) {
-      this.logger.error(`restore: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async deleteByPk(
-    primaryKey: string | number,
-    options?: InstanceDestroyOptions,
-  ): Promise<TModel | null> {
-    try {
-      const entity = await this.findByPk(primaryKey, {
-        paranoid: !options?.force,
-      })
-
-      if (!entity) {
-        return null
-      }
-
-      if (options?.force && entity.getDataValue('deletedAt') !== undefined) {
-        entity.setDataValue('deletedAt', new Date())
-      }
-      await entity.destroy(options)
-
-      return entity
-    } catch (error) {
-      this.logger.error(`deleteByPk: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async restoreByPk(
-    primaryKey: string | number,
-    options?: InstanceRestoreOptions,
-  ): Promise<TModel | null> {
-    try {
-      const entity = await this.findByPk(primaryKey, {
-        ...options,
-        paranoid: false,
-      })
-
-      if (!entity) {
-        return null
-      }
-
-      await entity.restore(options)
-
-      return entity
-    } catch (error) {
-      this.logger.error(`restoreByPk: ${error}`)
-      throw new InternalServerErrorException()
-    }
-  }
-
-  public async transaction<R>(
-    runInTransaction: (transaction: Transaction) => Promise<R>,
-  ): Promise<R> {
-    return this.model.sequelize!.transaction(async (transaction) => {
-      try {
-        return await runInTransaction(transaction)
-      } catch (error) {
-        this.logger.error(`transaction: ${error}`)
-        throw new InternalServerErrorException()
-      }
-    })
-  }
-
-  public calculateOffset(limit: number, page: number): number {
-    return limit * (page - 1)
-  }
-}
-
-class NestlizeRepository<
-  TModel extends Model,
-> extends AbstractRepository<TModel> {
-  constructor(model: ModelCtor<TModel>) {
-    super(model)
-  }
-}
-
-export const InjectRepository = (model: ModelCtor<any>) => {
-  return Inject(getRepositoryToken(model))
-}
-
-export class Nestlize {
-  public static getProvider(model: ModelCtor<any>): Provider {
-    return {
-      provide: getRepositoryToken(model),
-      useFactory: () => new NestlizeRepository(model),
-    }
-  }
-}
+export * from './IRepository'
+export * from './IRepositoryOptions'
+export * from './INestlizeModuleOptions'
+export * from './base.model'
+export * from './abstract.repository'
+export * from './nestlize.repository'
+export * from './inject-repository.decorator'
+export * from './repository.providers'
+export * from './nestlize.module'
+export * from './transaction.context'
+export * from './transactional.decorator'
+export * from './tenant.context'
+export * from './read-preference'
+export { CacheStore, LruCacheStore } from './cache.store'
+export * from './audit.context'
+export {
+  AuditEntry,
+  AuditLog,
+  AuditOperation,
+  AuditSink,
+  AuditSnapshot,
+  ModelAuditSink,
+} from './audit.log'
+export * from './repository.errors'
+export * from './specification'
+export * from './query.builder'
+export * from './repository.events'
+export * from './retry-on-conflict'
+export * from './outbox'
+export * from './outbox.relay'
+export {
+  getRepositoryToken,
+  NESTLIZE_MODULE_OPTIONS,
+  NESTLIZE_OUTBOX_OPTIONS,
+} from './helpers'
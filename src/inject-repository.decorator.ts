@@ -1,7 +1,11 @@
 import { ModelCtor } from 'sequelize-typescript'
 import { Inject } from '@nestjs/common'
-import { getRepositoryToken } from './helpers'
+import { getRepositoryToken, NESTLIZE_MODULE_OPTIONS } from './helpers'
 
 export const InjectRepository = (model: ModelCtor<any>) => {
   return Inject(getRepositoryToken(model))
 }
+
+export const InjectRepositoryOptions = () => {
+  return Inject(NESTLIZE_MODULE_OPTIONS)
+}
@@ -0,0 +1,126 @@
+import { DynamicModule, Global, Module, Provider } from '@nestjs/common'
+import { ModelCtor } from 'sequelize-typescript'
+import { AbstractRepository } from './abstract.repository'
+import {
+  getRepositoryToken,
+  NESTLIZE_MODULE_OPTIONS,
+  NESTLIZE_OUTBOX_OPTIONS,
+} from './helpers'
+import {
+  NestlizeFeatureOptions,
+  NestlizeModuleAsyncOptions,
+  NestlizeOutboxAsyncOptions,
+} from './INestlizeModuleOptions'
+import { IRepositoryOptions } from './IRepositoryOptions'
+import { NestlizeRepository } from './nestlize.repository'
+import { OutboxRelay, OutboxRelayOptions } from './outbox.relay'
+
+@Global()
+@Module({})
+class NestlizeCoreModule {
+  public static forRoot(options: IRepositoryOptions = {}): DynamicModule {
+    return {
+      module: NestlizeCoreModule,
+      providers: [{ provide: NESTLIZE_MODULE_OPTIONS, useValue: options }],
+      exports: [NESTLIZE_MODULE_OPTIONS],
+    }
+  }
+
+  public static forRootAsync(
+    options: NestlizeModuleAsyncOptions,
+  ): DynamicModule {
+    return {
+      module: NestlizeCoreModule,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: NESTLIZE_MODULE_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject ?? [],
+        },
+      ],
+      exports: [NESTLIZE_MODULE_OPTIONS],
+    }
+  }
+}
+
+@Module({})
+export class NestlizeModule {
+  public static forRoot(options: IRepositoryOptions = {}): DynamicModule {
+    return {
+      module: NestlizeModule,
+      imports: [NestlizeCoreModule.forRoot(options)],
+    }
+  }
+
+  public static forRootAsync(
+    options: NestlizeModuleAsyncOptions,
+  ): DynamicModule {
+    return {
+      module: NestlizeModule,
+      imports: [NestlizeCoreModule.forRootAsync(options)],
+    }
+  }
+
+  public static forFeature(
+    models: ModelCtor<any>[] = [],
+    options: NestlizeFeatureOptions = {},
+  ): DynamicModule {
+    const { repositories = [] } = options
+
+    const repositoryProviders: Provider[] = models.map((model) => ({
+      provide: getRepositoryToken(model),
+      useFactory: (
+        repositoryOptions: IRepositoryOptions | undefined,
+        ...customRepositories: AbstractRepository<any>[]
+      ) => {
+        const customRepository = customRepositories.find(
+          (repository) => repository.getModel() === model,
+        )
+
+        return (
+          customRepository ?? new NestlizeRepository(model, repositoryOptions)
+        )
+      },
+      inject: [
+        { token: NESTLIZE_MODULE_OPTIONS, optional: true },
+        ...repositories,
+      ],
+    }))
+
+    return {
+      module: NestlizeModule,
+      providers: [...repositories, ...repositoryProviders],
+      exports: [...repositories, ...models.map(getRepositoryToken)],
+    }
+  }
+
+  public static forOutbox(options: OutboxRelayOptions): DynamicModule {
+    return {
+      module: NestlizeModule,
+      providers: [
+        { provide: NESTLIZE_OUTBOX_OPTIONS, useValue: options },
+        OutboxRelay,
+      ],
+      exports: [OutboxRelay],
+    }
+  }
+
+  public static forOutboxAsync(
+    options: NestlizeOutboxAsyncOptions,
+  ): DynamicModule {
+    return {
+      module: NestlizeModule,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: NESTLIZE_OUTBOX_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject ?? [],
+        },
+        OutboxRelay,
+      ],
+      exports: [OutboxRelay],
+    }
+  }
+}
@@ -1,10 +1,11 @@
 import { Model, ModelCtor } from 'sequelize-typescript'
 import { AbstractRepository } from './abstract.repository'
+import { IRepositoryOptions } from './IRepositoryOptions'
 
 export class NestlizeRepository<
   TModel extends Model,
 > extends AbstractRepository<TModel> {
-  constructor(model: ModelCtor<TModel>) {
-    super(model)
+  constructor(model: ModelCtor<TModel>, options?: IRepositoryOptions) {
+    super(model, options)
   }
 }
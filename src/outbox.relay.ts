@@ -0,0 +1,249 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common'
+import { Op, Transaction, WhereOptions } from 'sequelize'
+import { ModelCtor } from 'sequelize-typescript'
+import { NESTLIZE_OUTBOX_OPTIONS } from './helpers'
+import { OutboxEvent, OutboxPublisher, OutboxStatus } from './outbox'
+
+export interface OutboxRelayOptions {
+  publisher: OutboxPublisher
+  model?: ModelCtor<OutboxEvent>
+  pollInterval?: number
+  batchSize?: number
+  maxAttempts?: number
+  backoff?: (attempts: number) => number
+  leaseTimeout?: number
+  autoStart?: boolean
+  logger?: Logger
+}
+
+@Injectable()
+export class OutboxRelay
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger: Logger
+  private readonly model: ModelCtor<OutboxEvent>
+  private timer?: NodeJS.Timeout
+  private running?: Promise<void>
+  private started = false
+
+  constructor(
+    @Inject(NESTLIZE_OUTBOX_OPTIONS)
+    private readonly options: OutboxRelayOptions,
+  ) {
+    this.logger = options.logger ?? new Logger(OutboxRelay.name)
+    this.model = options.model ?? OutboxEvent
+  }
+
+  public onApplicationBootstrap(): void {
+    if (this.options.autoStart !== false) {
+      this.start()
+    }
+  }
+
+  public async onApplicationShutdown(): Promise<void> {
+    await this.stop()
+  }
+
+  public start(): void {
+    if (this.started) {
+      return
+    }
+
+    this.started = true
+    this.schedule(0)
+  }
+
+  public async stop(): Promise<void> {
+    this.started = false
+    clearTimeout(this.timer)
+    await this.running
+  }
+
+  public async relay(): Promise<number> {
+    const now = new Date()
+    const { events, blocked } = await this.claim(now)
+    const skipped: number[] = []
+    let published = 0
+
+    for (const event of events) {
+      const key = this.getAggregateKey(event)
+      const blockedBy = key === undefined ? undefined : blocked.get(key)
+
+      if (blockedBy !== undefined && blockedBy < event.id) {
+        skipped.push(event.id)
+        continue
+      }
+
+      if (await this.publish(event)) {
+        published++
+      } else if (key !== undefined) {
+        blocked.set(key, event.id)
+      }
+    }
+
+    if (skipped.length) {
+      await this.model.update(
+        { availableAt: now },
+        { where: { id: skipped, status: OutboxStatus.PENDING } },
+      )
+    }
+
+    return published
+  }
+
+  public async requeueDead(): Promise<number> {
+    const [count] = await this.model.update(
+      { status: OutboxStatus.PENDING, attempts: 0, availableAt: new Date() },
+      { where: { status: OutboxStatus.DEAD } },
+    )
+
+    return count
+  }
+
+  private async claim(
+    now: Date,
+  ): Promise<{ events: OutboxEvent[]; blocked: Map<string, number> }> {
+    const { batchSize = 100, leaseTimeout = 60000 } = this.options
+
+    return await this.model.sequelize!.transaction(async (transaction) => {
+      const events = await this.model.findAll({
+        where: {
+          status: OutboxStatus.PENDING,
+          availableAt: { [Op.lte]: now },
+        },
+        order: [['id', 'ASC']],
+        limit: batchSize,
+        lock: Transaction.LOCK.UPDATE,
+        skipLocked: true,
+        transaction,
+      })
+      const blocked = await this.getBlockedAggregates(events, now, transaction)
+
+      if (events.length) {
+        await this.model.update(
+          { availableAt: new Date(now.getTime() + leaseTimeout) },
+          { where: { id: events.map(({ id }) => id) }, transaction },
+        )
+      }
+
+      return { events, blocked }
+    })
+  }
+
+  private schedule(delay: number): void {
+    const { pollInterval = 1000 } = this.options
+
+    this.timer = setTimeout(() => {
+      this.running = this.relay()
+        .then(
+          () => undefined,
+          (error) => this.logger.error(`Outbox relay failed: ${error}`),
+        )
+        .finally(() => {
+          if (this.started) {
+            this.schedule(pollInterval)
+          }
+        })
+    }, delay)
+  }
+
+  private async publish(event: OutboxEvent): Promise<boolean> {
+    const {
+      publisher,
+      maxAttempts = 5,
+      backoff = (attempts: number) => 1000 * 2 ** (attempts - 1),
+    } = this.options
+    const attempts = event.attempts + 1
+
+    try {
+      await publisher.publish({
+        id: event.id,
+        aggregateType: event.aggregateType,
+        aggregateId: event.aggregateId,
+        type: event.type,
+        payload: event.payload,
+        attempts: event.attempts,
+        createdAt: event.createdAt,
+      })
+    } catch (error) {
+      const dead = attempts >= maxAttempts
+
+      this.logger.error(
+        `Outbox event ${event.id} failed (attempt ${attempts}): ${error}`,
+      )
+      await event.update({
+        attempts,
+        status: dead ? OutboxStatus.DEAD : OutboxStatus.PENDING,
+        availableAt: new Date(Date.now() + backoff(attempts)),
+        lastError: error instanceof Error ? error.message : String(error),
+      })
+
+      return false
+    }
+
+    await event.update({
+      attempts,
+      status: OutboxStatus.PUBLISHED,
+      publishedAt: new Date(),
+      lastError: null,
+    })
+
+    return true
+  }
+
+  private async getBlockedAggregates(
+    events: OutboxEvent[],
+    now: Date,
+    transaction: Transaction,
+  ): Promise<Map<string, number>> {
+    const aggregates = new Map(
+      events
+        .filter(({ aggregateId }) => aggregateId !== null)
+        .map(({ aggregateType, aggregateId }) => [
+          this.getAggregateKey({ aggregateType, aggregateId }),
+          { aggregateType, aggregateId },
+        ]),
+    )
+    const blocked = new Map<string, number>()
+
+    if (!aggregates.size) {
+      return blocked
+    }
+
+    const waiting = await this.model.findAll({
+      attributes: ['id', 'aggregateType', 'aggregateId'],
+      where: {
+        status: OutboxStatus.PENDING,
+        availableAt: { [Op.gt]: now },
+        [Op.or]: [...aggregates.values()],
+      } as WhereOptions<OutboxEvent>,
+      order: [['id', 'ASC']],
+      transaction,
+    })
+
+    for (const event of waiting) {
+      const key = this.getAggregateKey(event)!
+
+      if (!blocked.has(key)) {
+        blocked.set(key, event.id)
+      }
+    }
+
+    return blocked
+  }
+
+  private getAggregateKey({
+    aggregateType,
+    aggregateId,
+  }: Pick<OutboxEvent, 'aggregateType' | 'aggregateId'>): string | undefined {
+    return aggregateId === null
+      ? undefined
+      : JSON.stringify([aggregateType, aggregateId])
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  AllowNull,
+  AutoIncrement,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript'
+
+export enum OutboxStatus {
+  PENDING = 'PENDING',
+  PUBLISHED = 'PUBLISHED',
+  DEAD = 'DEAD',
+}
+
+export interface OutboxMessage<TPayload = unknown> {
+  id: number
+  aggregateType: string
+  aggregateId: string | null
+  type: string
+  payload: TPayload
+  attempts: number
+  createdAt: Date
+}
+
+export interface OutboxPublisher {
+  publish(message: OutboxMessage): Promise<void>
+}
+
+interface OutboxEventAttributes extends OutboxMessage {
+  status: OutboxStatus
+  availableAt: Date
+  lastError: string | null
+  publishedAt: Date | null
+  updatedAt: Date
+}
+
+type OutboxEventCreationAttributes = Pick<
+  OutboxEventAttributes,
+  'aggregateType' | 'aggregateId' | 'type' | 'payload'
+>
+
+@Table({
+  tableName: 'outbox_events',
+  indexes: [{ fields: ['status', 'availableAt'] }],
+})
+export class OutboxEvent extends Model<
+  OutboxEventAttributes,
+  OutboxEventCreationAttributes
+> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @Column(DataType.STRING)
+  declare aggregateType: string
+
+  @AllowNull
+  @Column(DataType.STRING)
+  declare aggregateId: string | null
+
+  @Column(DataType.STRING)
+  declare type: string
+
+  @Column(DataType.JSON)
+  declare payload: unknown
+
+  @Default(OutboxStatus.PENDING)
+  @Column(DataType.STRING)
+  declare status: OutboxStatus
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  declare attempts: number
+
+  @Default(DataType.NOW)
+  @Column(DataType.DATE)
+  declare availableAt: Date
+
+  @AllowNull
+  @Column(DataType.TEXT)
+  declare lastError: string | null
+
+  @AllowNull
+  @Column(DataType.DATE)
+  declare publishedAt: Date | null
+
+  @CreatedAt
+  @Column
+  declare createdAt: Date
+
+  @UpdatedAt
+  @Column
+  declare updatedAt: Date
+}
@@ -0,0 +1,50 @@
+import { InvalidQueryError } from './repository.errors'
+
+export type EntityKey = string | number | object
+
+const isKeyObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype
+
+export const toKeyValues = (
+  model: string,
+  attributes: string[],
+  primaryKey: EntityKey,
+): Record<string, unknown> => {
+  if (!isKeyObject(primaryKey)) {
+    if (attributes.length > 1) {
+      throw new InvalidQueryError(
+        `${model} has a composite primary key of ${attributes.join(', ')}`,
+      )
+    }
+
+    return { [attributes[0]]: primaryKey }
+  }
+
+  const missing = attributes.filter(
+    (attribute) =>
+      primaryKey[attribute] === undefined || primaryKey[attribute] === null,
+  )
+
+  if (missing.length) {
+    throw new InvalidQueryError(
+      `Primary key of ${model} is missing ${missing.join(', ')}`,
+    )
+  }
+
+  return Object.fromEntries(
+    attributes.map((attribute) => [attribute, primaryKey[attribute]]),
+  )
+}
+
+export const toEntityId = (
+  attributes: string[],
+  values: Record<string, unknown>,
+): string => {
+  if (attributes.length === 1) {
+    return String(values[attributes[0]])
+  }
+
+  return JSON.stringify(attributes.map((attribute) => values[attribute]))
+}
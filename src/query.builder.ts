@@ -0,0 +1,197 @@
+import {
+  Attributes,
+  FindOptions,
+  IncludeOptions,
+  Includeable,
+  OrderItem,
+  WhereAttributeHashValue,
+  WhereOptions,
+} from 'sequelize'
+import { Model } from 'sequelize-typescript'
+import { IRepository, Page, RepositoryQuery } from './IRepository'
+import { CursorDirection } from './cursor'
+import { mergeFindOptions, Specification } from './specification'
+
+export type ColumnName<TModel extends Model> = keyof Attributes<TModel> & string
+
+export type AssociationName<TModel extends Model> = {
+  [K in keyof TModel]-?: NonNullable<TModel[K]> extends Model | Model[]
+    ? K
+    : never
+}[keyof TModel] &
+  string
+
+export class QueryBuilder<TModel extends Model> {
+  private readonly conditions: Specification<TModel>[] = []
+  private readonly order: [ColumnName<TModel>, CursorDirection][] = []
+  private readonly include: Includeable[] = []
+  private attributes?: ColumnName<TModel>[]
+  private page?: number
+  private limit?: number
+
+  constructor(private readonly repository: IRepository<TModel>) {}
+
+  public where(query: RepositoryQuery<TModel>): this
+  public where<K extends ColumnName<TModel>>(
+    column: K,
+    value: WhereAttributeHashValue<Attributes<TModel>[K]>,
+  ): this
+  public where<K extends ColumnName<TModel>>(
+    column: K,
+    operator: symbol,
+    value: unknown,
+  ): this
+  public where(
+    queryOrColumn: RepositoryQuery<TModel> | string,
+    ...args: unknown[]
+  ): this {
+    if (typeof queryOrColumn !== 'string') {
+      this.conditions.push(
+        queryOrColumn instanceof Specification
+          ? queryOrColumn
+          : Specification.where(queryOrColumn),
+      )
+      return this
+    }
+
+    const condition =
+      args.length > 1 ? { [args[0] as symbol]: args[1] } : args[0]
+
+    this.conditions.push(
+      Specification.where({
+        [queryOrColumn]: condition,
+      } as WhereOptions<Attributes<TModel>>),
+    )
+    return this
+  }
+
+  public orderBy(
+    column: ColumnName<TModel>,
+    direction: CursorDirection = 'ASC',
+  ): this {
+    this.order.push([column, direction])
+    return this
+  }
+
+  public select(...columns: ColumnName<TModel>[]): this {
+    this.attributes = [...(this.attributes ?? []), ...columns]
+    return this
+  }
+
+  public with(
+    ...associations: (AssociationName<TModel> | IncludeOptions)[]
+  ): this {
+    this.include.push(...associations)
+    return this
+  }
+
+  public paginate(page: number, limit: number): this {
+    this.page = page
+    this.limit = limit
+    return this
+  }
+
+  public getFindOptions(): FindOptions<Attributes<TModel>> {
+    const specification = this.getSpecification()
+    const options = this.getOptions()
+
+    return {
+      ...options,
+      ...this.getWindow(),
+      ...(specification && {
+        ...mergeFindOptions(specification.toFindOptions(), options),
+        where: specification.toWhere(),
+      }),
+    }
+  }
+
+  public async getMany(): Promise<TModel[]> {
+    return this.repository.findAll(this.getSpecification(), {
+      ...this.getOptions(),
+      ...this.getWindow(),
+    })
+  }
+
+  public async getOne(): Promise<TModel | null> {
+    return this.repository.findOne(this.getSpecification(), {
+      ...this.getOptions(),
+      offset: this.getWindow().offset,
+    })
+  }
+
+  public async getPage(): Promise<Page<TModel>> {
+    return this.repository.findAllPaginated({
+      query: this.getSpecification(),
+      page: this.page,
+      limit: this.limit,
+      findOptions: this.getOptions(),
+    })
+  }
+
+  public async count(): Promise<number> {
+    return this.repository.count(this.getSpecification(), {
+      ...(this.include.length && { include: this.include, distinct: true }),
+    })
+  }
+
+  public async exists(): Promise<boolean> {
+    const { primaryKeyAttribute } = this.repository.getModel()
+    const entity = await this.repository.findOne(this.getSpecification(), {
+      attributes: [primaryKeyAttribute],
+      ...(this.include.length && { include: this.include }),
+    })
+
+    return entity !== null
+  }
+
+  public async *stream(batchSize = 100): AsyncGenerator<TModel> {
+    if (this.limit !== undefined) {
+      yield* await this.getMany()
+      return
+    }
+
+    const { primaryKeyAttribute } = this.repository.getModel()
+    const options = this.getOptions()
+    const order = options.order ?? [[primaryKeyAttribute, 'ASC']]
+
+    for (let offset = 0; ; offset += batchSize) {
+      const rows = await this.repository.findAll(this.getSpecification(), {
+        ...options,
+        order,
+        limit: batchSize,
+        offset,
+      })
+
+      yield* rows
+
+      if (rows.length < batchSize) {
+        return
+      }
+    }
+  }
+
+  private getSpecification(): Specification<TModel> | undefined {
+    const [first, ...rest] = this.conditions
+
+    return rest.length ? first.and(...rest) : first
+  }
+
+  private getWindow(): Pick<FindOptions, 'limit' | 'offset'> {
+    if (this.page === undefined || this.limit === undefined) {
+      return {}
+    }
+
+    return {
+      limit: this.limit,
+      offset: this.repository.calculateOffset(this.limit, this.page),
+    }
+  }
+
+  private getOptions(): Omit<FindOptions<Attributes<TModel>>, 'where'> {
+    return {
+      ...(this.attributes && { attributes: this.attributes }),
+      ...(this.include.length && { include: this.include }),
+      ...(this.order.length && { order: this.order as OrderItem[] }),
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export enum ReadPreference {
+  PRIMARY = 'PRIMARY',
+  REPLICA = 'REPLICA',
+  AUTO = 'AUTO',
+}
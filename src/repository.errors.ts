@@ -0,0 +1,224 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+import {
+  ConnectionAcquireTimeoutError,
+  ConnectionTimedOutError,
+  DatabaseError,
+  ForeignKeyConstraintError,
+  OptimisticLockError as SequelizeOptimisticLockError,
+  TimeoutError,
+  UniqueConstraintError,
+  ValidationError,
+} from 'sequelize'
+import { EntityKey } from './primary-key'
+
+const formatKey = (key: EntityKey): string =>
+  typeof key === 'object' && Object.getPrototypeOf(key) === Object.prototype
+    ? JSON.stringify(key)
+    : String(key)
+
+export class RepositoryError extends HttpException {
+  constructor(
+    message = 'Internal Server Error',
+    status: HttpStatus = HttpStatus.INTERNAL_SERVER_ERROR,
+    cause?: unknown,
+  ) {
+    super(message, status, { cause })
+    this.name = new.target.name
+  }
+}
+
+export class EntityNotFoundError extends RepositoryError {
+  constructor(
+    public readonly model: string,
+    public readonly key?: EntityKey,
+    public readonly query?: unknown,
+  ) {
+    super(
+      key === undefined
+        ? `${model} not found`
+        : `${model} with primary key ${formatKey(key)} not found`,
+      HttpStatus.NOT_FOUND,
+    )
+  }
+}
+
+export class DuplicateEntityError extends RepositoryError {
+  constructor(
+    public readonly fields: string[],
+    public readonly values: Record<string, unknown> = {},
+    cause?: unknown,
+  ) {
+    super(
+      `Entity with the same ${fields.join(', ') || 'unique fields'} already exists`,
+      HttpStatus.CONFLICT,
+      cause,
+    )
+  }
+}
+
+export class OptimisticLockError extends RepositoryError {
+  constructor(
+    public readonly model: string,
+    public readonly key?: EntityKey,
+    cause?: unknown,
+  ) {
+    super(
+      key === undefined
+        ? `${model} was modified concurrently`
+        : `${model} with primary key ${formatKey(key)} was modified concurrently`,
+      HttpStatus.CONFLICT,
+      cause,
+    )
+  }
+}
+
+export class RelatedEntityError extends RepositoryError {
+  constructor(
+    public readonly fields: string[],
+    public readonly table?: string,
+    cause?: unknown,
+  ) {
+    super(
+      `Related entity${table ? ` in ${table}` : ''} does not exist or is still referenced`,
+      HttpStatus.CONFLICT,
+      cause,
+    )
+  }
+}
+
+export interface EntityValidationErrorItem {
+  field: string | null
+  message: string
+}
+
+export class EntityValidationError extends RepositoryError {
+  public readonly fields: string[]
+
+  constructor(
+    public readonly errors: EntityValidationErrorItem[],
+    cause?: unknown,
+  ) {
+    super(
+      errors.map(({ message }) => message).join(', ') || 'Validation failed',
+      HttpStatus.BAD_REQUEST,
+      cause,
+    )
+    this.fields = errors
+      .map(({ field }) => field)
+      .filter((field): field is string => field !== null)
+  }
+}
+
+export class InvalidQueryError extends RepositoryError {
+  constructor(message: string) {
+    super(message, HttpStatus.BAD_REQUEST)
+  }
+}
+
+export class DatabaseQueryError extends RepositoryError {
+  constructor(cause?: unknown) {
+    super('Database query failed', HttpStatus.INTERNAL_SERVER_ERROR, cause)
+  }
+}
+
+export class RepositoryTimeoutError extends RepositoryError {
+  constructor(cause?: unknown) {
+    super(
+      'Database did not respond in time',
+      HttpStatus.SERVICE_UNAVAILABLE,
+      cause,
+    )
+  }
+}
+
+export class LockNotAvailableError extends RepositoryError {
+  constructor(cause?: unknown) {
+    super('Record is locked by another transaction', HttpStatus.CONFLICT, cause)
+  }
+}
+
+export class TenantNotResolvedError extends RepositoryError {
+  constructor(public readonly model: string) {
+    super(`Tenant of ${model} is not resolved`)
+  }
+}
+
+export class TransactionRequiredError extends RepositoryError {
+  constructor(public readonly operation: string) {
+    super(`${operation} must run inside a transaction`)
+  }
+}
+
+export class UnsupportedDialectError extends RepositoryError {
+  constructor(
+    public readonly feature: string,
+    public readonly dialect: string,
+  ) {
+    super(
+      `${feature} is not supported by the ${dialect} dialect`,
+      HttpStatus.NOT_IMPLEMENTED,
+    )
+  }
+}
+
+const lockNotAvailableCodes = new Set<string | undefined>(['55P03'])
+
+export const toRepositoryError = (error: unknown): RepositoryError => {
+  if (error instanceof RepositoryError) {
+    return error
+  }
+
+  if (error instanceof UniqueConstraintError) {
+    const values = Object.fromEntries(
+      error.errors
+        .filter(({ path }) => path !== null)
+        .map(({ path, value }) => [path, value]),
+    )
+
+    return new DuplicateEntityError(Object.keys(values), values, error)
+  }
+
+  if (error instanceof SequelizeOptimisticLockError) {
+    return new OptimisticLockError(
+      error.modelName ?? 'Entity',
+      undefined,
+      error,
+    )
+  }
+
+  if (error instanceof ValidationError) {
+    return new EntityValidationError(
+      error.errors.map(({ path, message }) => ({ field: path, message })),
+      error,
+    )
+  }
+
+  if (error instanceof ForeignKeyConstraintError) {
+    const fields = Array.isArray(error.fields)
+      ? error.fields
+      : Object.keys(error.fields ?? {})
+
+    return new RelatedEntityError(fields, error.table, error)
+  }
+
+  if (
+    error instanceof TimeoutError ||
+    error instanceof ConnectionAcquireTimeoutError ||
+    error instanceof ConnectionTimedOutError
+  ) {
+    return new RepositoryTimeoutError(error)
+  }
+
+  if (
+    error instanceof DatabaseError &&
+    lockNotAvailableCodes.has((error.parent as { code?: string }).code)
+  ) {
+    return new LockNotAvailableError(error)
+  }
+
+  if (error instanceof DatabaseError) {
+    return new DatabaseQueryError(error)
+  }
+
+  return new RepositoryError(undefined, undefined, error)
+}
@@ -0,0 +1,127 @@
+import { Attributes, CreationAttributes, Transaction } from 'sequelize'
+import { Model } from 'sequelize-typescript'
+
+export interface EntityChange<TValue = unknown> {
+  from: TValue
+  to: TValue
+}
+
+export type EntityChanges<TModel extends Model> = {
+  [K in keyof Attributes<TModel>]?: EntityChange<Attributes<TModel>[K]>
+}
+
+export interface RepositoryEvent {
+  model: string
+  operation: string
+  transaction?: Transaction | null
+}
+
+export interface BeforeCreateEvent<
+  TModel extends Model,
+> extends RepositoryEvent {
+  values: CreationAttributes<TModel>[]
+}
+
+export interface AfterCreateEvent<
+  TModel extends Model,
+> extends RepositoryEvent {
+  entities: TModel[]
+}
+
+export interface UpdateEvent<TModel extends Model> extends RepositoryEvent {
+  entity: TModel
+  changes: EntityChanges<TModel>
+}
+
+export interface DeleteEvent<TModel extends Model> extends RepositoryEvent {
+  entities: TModel[]
+  force: boolean
+}
+
+export interface RestoreEvent<TModel extends Model> extends RepositoryEvent {
+  entities: TModel[]
+}
+
+export interface RepositoryEventMap<TModel extends Model> {
+  beforeCreate: BeforeCreateEvent<TModel>
+  afterCreate: AfterCreateEvent<TModel>
+  beforeUpdate: UpdateEvent<TModel>
+  afterUpdate: UpdateEvent<TModel>
+  beforeDelete: DeleteEvent<TModel>
+  afterDelete: DeleteEvent<TModel>
+  beforeRestore: RestoreEvent<TModel>
+  afterRestore: RestoreEvent<TModel>
+}
+
+export type RepositoryEventName = keyof RepositoryEventMap<Model>
+
+export type RepositoryEventListener<TEvent> = (
+  event: TEvent,
+) => void | Promise<void>
+
+export interface RepositoryEventBus {
+  emit(event: string, payload: unknown): unknown
+}
+
+export const getEntityChanges = <TModel extends Model>(
+  entity: TModel,
+): EntityChanges<TModel> => {
+  const changed = entity.changed() || []
+
+  return Object.fromEntries(
+    changed.map((key) => [
+      key,
+      { from: entity.previous(key), to: entity.get(key) },
+    ]),
+  ) as EntityChanges<TModel>
+}
+
+export class RepositoryEvents<TModel extends Model> {
+  private readonly listeners = new Map<
+    RepositoryEventName,
+    Set<RepositoryEventListener<any>>
+  >()
+
+  constructor(
+    private readonly model: string,
+    private readonly eventBus?: RepositoryEventBus,
+  ) {}
+
+  public on<E extends RepositoryEventName>(
+    event: E,
+    listener: RepositoryEventListener<RepositoryEventMap<TModel>[E]>,
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set()
+
+    listeners.add(listener)
+    this.listeners.set(event, listeners)
+
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  public has(...events: RepositoryEventName[]): boolean {
+    return (
+      this.eventBus !== undefined ||
+      events.some((event) => !!this.listeners.get(event)?.size)
+    )
+  }
+
+  public async emit<E extends RepositoryEventName>(
+    event: E,
+    payload: Omit<RepositoryEventMap<TModel>[E], 'model'>,
+  ): Promise<void> {
+    if (!this.has(event)) {
+      return
+    }
+
+    const repositoryEvent = { model: this.model, ...payload }
+
+    for (const listener of this.listeners.get(event) ?? []) {
+      await listener(repositoryEvent)
+    }
+
+    await this.eventBus?.emit(`${this.model}.${event}`, repositoryEvent)
+  }
+}
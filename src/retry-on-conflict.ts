@@ -0,0 +1,28 @@
+import { OptimisticLockError } from './repository.errors'
+
+export interface RetryOptions {
+  attempts?: number
+  backoff?: number | ((attempt: number) => number)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export const retryOnConflict = async <R>(
+  callback: (attempt: number) => Promise<R>,
+  options: RetryOptions = {},
+): Promise<R> => {
+  const { attempts = 3, backoff = (attempt) => 50 * 2 ** (attempt - 1) } =
+    options
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await callback(attempt)
+    } catch (error) {
+      if (!(error instanceof OptimisticLockError) || attempt >= attempts) {
+        throw error
+      }
+
+      await sleep(typeof backoff === 'function' ? backoff(attempt) : backoff)
+    }
+  }
+}
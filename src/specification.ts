@@ -0,0 +1,144 @@
+import {
+  Attributes,
+  FindOptions,
+  Includeable,
+  Op,
+  OrderItem,
+  WhereOptions,
+} from 'sequelize'
+import { Model } from 'sequelize-typescript'
+
+export type SpecificationFindOptions<TModel extends Model> = Pick<
+  FindOptions<Attributes<TModel>>,
+  'include' | 'order'
+>
+
+const toArray = <T>(value: T | T[] | undefined): T[] => {
+  if (value === undefined) {
+    return []
+  }
+
+  return Array.isArray(value) ? value : [value]
+}
+
+export const mergeFindOptions = <TModel extends Model>(
+  ...options: SpecificationFindOptions<TModel>[]
+): SpecificationFindOptions<TModel> => {
+  const include = options.flatMap(({ include }) =>
+    toArray<Includeable>(include),
+  )
+  const order = options.flatMap(({ order }) =>
+    toArray(order as OrderItem | OrderItem[] | undefined),
+  )
+
+  return {
+    ...(include.length && { include }),
+    ...(order.length && { order }),
+  }
+}
+
+export abstract class Specification<TModel extends Model> {
+  public abstract toWhere(): WhereOptions<Attributes<TModel>>
+
+  public toFindOptions(): SpecificationFindOptions<TModel> {
+    return {}
+  }
+
+  public and(
+    ...specifications: Specification<TModel>[]
+  ): Specification<TModel> {
+    return new AndSpecification([this, ...specifications])
+  }
+
+  public or(...specifications: Specification<TModel>[]): Specification<TModel> {
+    return new OrSpecification([this, ...specifications])
+  }
+
+  public not(): Specification<TModel> {
+    return new NotSpecification(this)
+  }
+
+  public static where<TModel extends Model>(
+    where: WhereOptions<Attributes<TModel>>,
+    findOptions: SpecificationFindOptions<TModel> = {},
+  ): Specification<TModel> {
+    return new WhereSpecification(where, findOptions)
+  }
+}
+
+class WhereSpecification<TModel extends Model> extends Specification<TModel> {
+  constructor(
+    private readonly where: WhereOptions<Attributes<TModel>>,
+    private readonly findOptions: SpecificationFindOptions<TModel>,
+  ) {
+    super()
+  }
+
+  public toWhere(): WhereOptions<Attributes<TModel>> {
+    return this.where
+  }
+
+  public toFindOptions(): SpecificationFindOptions<TModel> {
+    return this.findOptions
+  }
+}
+
+class AndSpecification<TModel extends Model> extends Specification<TModel> {
+  constructor(private readonly specifications: Specification<TModel>[]) {
+    super()
+  }
+
+  public toWhere(): WhereOptions<Attributes<TModel>> {
+    return {
+      [Op.and]: this.specifications.map((specification) =>
+        specification.toWhere(),
+      ),
+    } as WhereOptions<Attributes<TModel>>
+  }
+
+  public toFindOptions(): SpecificationFindOptions<TModel> {
+    return mergeFindOptions(
+      ...this.specifications.map((specification) =>
+        specification.toFindOptions(),
+      ),
+    )
+  }
+}
+
+class OrSpecification<TModel extends Model> extends Specification<TModel> {
+  constructor(private readonly specifications: Specification<TModel>[]) {
+    super()
+  }
+
+  public toWhere(): WhereOptions<Attributes<TModel>> {
+    return {
+      [Op.or]: this.specifications.map((specification) =>
+        specification.toWhere(),
+      ),
+    } as WhereOptions<Attributes<TModel>>
+  }
+
+  public toFindOptions(): SpecificationFindOptions<TModel> {
+    return mergeFindOptions(
+      ...this.specifications.map((specification) =>
+        specification.toFindOptions(),
+      ),
+    )
+  }
+}
+
+class NotSpecification<TModel extends Model> extends Specification<TModel> {
+  constructor(private readonly specification: Specification<TModel>) {
+    super()
+  }
+
+  public toWhere(): WhereOptions<Attributes<TModel>> {
+    return {
+      [Op.not]: this.specification.toWhere(),
+    } as WhereOptions<Attributes<TModel>>
+  }
+
+  public toFindOptions(): SpecificationFindOptions<TModel> {
+    return this.specification.toFindOptions()
+  }
+}
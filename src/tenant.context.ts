@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+export enum TenantStrategy {
+  COLUMN = 'COLUMN',
+  SCHEMA = 'SCHEMA',
+}
+
+export type TenantId = string | number
+
+export class TenantContext {
+  private static readonly storage = new AsyncLocalStorage<TenantId>()
+
+  public static getTenant(): TenantId | undefined {
+    return this.storage.getStore()
+  }
+
+  public static run<R>(tenant: TenantId, callback: () => R): R {
+    return this.storage.run(tenant, callback)
+  }
+}
@@ -0,0 +1,1311 @@
+import { randomUUID } from 'node:crypto'
+import { Readable } from 'node:stream'
+import { HttpException } from '@nestjs/common'
+import {
+  Attributes,
+  BulkCreateOptions,
+  CountOptions,
+  CreateOptions,
+  CreationAttributes,
+  DestroyOptions,
+  FindOptions,
+  InstanceRestoreOptions,
+  ModelAttributeColumnOptions,
+  ModelOptions,
+  Op,
+  RestoreOptions,
+  Transaction,
+  Transactionable,
+  WhereOptions,
+} from 'sequelize'
+import {
+  getAttributes,
+  getOptions,
+  Model,
+  ModelCtor,
+} from 'sequelize-typescript'
+import {
+  Aggregate,
+  AggregateFunction,
+  AggregateOptions,
+  CreateResult,
+  CursorPage,
+  CursorPaginationOptions,
+  DeleteByPkOptions,
+  DeletedCountOptions,
+  DeletedFindOptions,
+  EntityUpdate,
+  ClaimOptions,
+  FindOrCreateOptions,
+  GroupByOptions,
+  GroupByRow,
+  IRepository,
+  IterateOptions,
+  LockOptions,
+  Page,
+  PaginationOptions,
+  PrimaryKeyOf,
+  PurgeDeletedOptions,
+  ReadFindOptions,
+  RecordEventOptions,
+  ReadOptions,
+  RepositoryQuery,
+  TransactionOptions,
+  UpdateByPkOptions,
+  UpdateManyOptions,
+  UpdateOptions,
+  UpsertManyOptions,
+  UpsertOptions,
+} from '../IRepository'
+import { buildKeysetWhere, decodeCursor, encodeCursor } from '../cursor'
+import {
+  DuplicateEntityError,
+  EntityNotFoundError,
+  InvalidQueryError,
+  OptimisticLockError,
+  RepositoryError,
+  toRepositoryError,
+  TransactionRequiredError,
+} from '../repository.errors'
+import { mergeFindOptions, Specification } from '../specification'
+import { QueryBuilder } from '../query.builder'
+import { Propagation } from '../transaction.context'
+import { AuditContext } from '../audit.context'
+import {
+  AuditEntry,
+  AuditOperation,
+  AuditSnapshot,
+  diffSnapshots,
+} from '../audit.log'
+import { OutboxMessage } from '../outbox'
+import { AuditableBaseModel } from '../base.model'
+import { EntityKey, toEntityId, toKeyValues } from '../primary-key'
+import { compareValues, matchesWhere, sortRows } from './where.matcher'
+
+type Row = Record<string, unknown>
+
+type InMemoryFindOptions = Omit<FindOptions, 'where'> & {
+  where?: WhereOptions
+  deleted?: boolean
+}
+
+export class InMemoryRepository<
+  TModel extends Model,
+> implements IRepository<TModel> {
+  private rows: Row[] = []
+  private history: AuditEntry<TModel>[] = []
+  private outbox: OutboxMessage[] = []
+  private sequence = 0
+  private transactionActive = false
+  private readonly attributes: Record<string, ModelAttributeColumnOptions>
+  private readonly modelOptions: ModelOptions
+  private readonly primaryKey: string
+  private readonly primaryKeys: string[]
+
+  constructor(
+    private readonly model: ModelCtor<TModel>,
+    seed: CreationAttributes<TModel>[] = [],
+  ) {
+    this.attributes = getAttributes(model.prototype) ?? model.getAttributes()
+    this.modelOptions = getOptions(model.prototype) ?? model.options
+    const primaryKeys = Object.keys(this.attributes).filter(
+      (attribute) => this.attributes[attribute].primaryKey,
+    )
+    this.primaryKeys = primaryKeys.length ? primaryKeys : ['id']
+    this.primaryKey = this.primaryKeys[0]
+
+    seed.forEach((values) => this.insertRow(values))
+    this.history = []
+  }
+
+  public getModel(): ModelCtor<TModel> {
+    return this.model
+  }
+
+  public async create(
+    dto: CreationAttributes<TModel>,
+    options?: CreateOptions<Attributes<TModel>>,
+  ): Promise<TModel> {
+    return this.run(() => this.toEntity(this.insertRow(dto)))
+  }
+
+  public async insert(
+    dto: CreationAttributes<TModel>,
+    options?: CreateOptions<Attributes<TModel>>,
+  ): Promise<TModel> {
+    return this.create(dto, options)
+  }
+
+  public async insertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: BulkCreateOptions<Attributes<TModel>>,
+  ): Promise<TModel[]> {
+    return this.run(() => {
+      const rows = this.rows
+
+      try {
+        return dtos.map((dto) => this.toEntity(this.insertRow(dto)))
+      } catch (error) {
+        this.rows = rows
+        throw error
+      }
+    })
+  }
+
+  public async upsert(
+    dto: CreationAttributes<TModel>,
+    options?: UpsertOptions<TModel>,
+  ): Promise<CreateResult<TModel>> {
+    return this.run(() => this.upsertRow(dto, options?.conflictFields))
+  }
+
+  public async upsertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: UpsertManyOptions<TModel>,
+  ): Promise<CreateResult<TModel>[]> {
+    return this.run(() => {
+      const rows = this.rows
+
+      try {
+        return dtos.map((dto) =>
+          this.upsertRow(dto, options?.conflictFields, options?.updateFields),
+        )
+      } catch (error) {
+        this.rows = rows
+        throw error
+      }
+    })
+  }
+
+  public async findOrCreate(
+    query: WhereOptions<Attributes<TModel>>,
+    defaults?: Partial<CreationAttributes<TModel>>,
+    options?: FindOrCreateOptions<TModel>,
+  ): Promise<CreateResult<TModel>> {
+    return this.run(() => {
+      const [row] = this.findRows(query)
+
+      if (row) {
+        return { entity: this.toEntity(row), created: false }
+      }
+
+      const values = Object.entries(query).filter(
+        ([, value]) =>
+          value === null || typeof value !== 'object' || value instanceof Date,
+      )
+
+      return {
+        entity: this.toEntity(
+          this.insertRow({ ...Object.fromEntries(values), ...defaults }),
+        ),
+        created: true,
+      }
+    })
+  }
+
+  public async findByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel | null> {
+    return this.findOne(this.getPrimaryKeyWhere(primaryKey), options)
+  }
+
+  public async findByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel> {
+    const entity = await this.findByPk(primaryKey, options)
+
+    if (!entity) {
+      throw new EntityNotFoundError(this.model.name, primaryKey)
+    }
+
+    return entity
+  }
+
+  public async findManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]> {
+    const keys = new Map(
+      primaryKeys.map((primaryKey) => {
+        const values = this.getPrimaryKeyValues(primaryKey)
+
+        return [toEntityId(this.primaryKeys, values), values]
+      }),
+    )
+
+    return [...keys.values()].flatMap((values) => {
+      const [row] = this.findRows(values as WhereOptions<Attributes<TModel>>, {
+        ...options,
+        limit: 1,
+      })
+
+      return row ? [this.toEntity(row, options?.attributes)] : []
+    })
+  }
+
+  public async findOne(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel | null> {
+    const [row] = this.findRows(query, { ...options, limit: 1 })
+
+    return row ? this.toEntity(row, options?.attributes) : null
+  }
+
+  public async findOneOrFail(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel> {
+    const entity = await this.findOne(query, options)
+
+    if (!entity) {
+      throw new EntityNotFoundError(this.model.name, undefined, query)
+    }
+
+    return entity
+  }
+
+  public async findAll(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]> {
+    return this.findRows(query, options).map((row) =>
+      this.toEntity(row, options?.attributes),
+    )
+  }
+
+  public async findByPkForUpdate(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel | null> {
+    this.assertTransaction('findByPkForUpdate', options)
+
+    return this.findOne(this.getPrimaryKeyWhere(primaryKey), options)
+  }
+
+  public async findAllForUpdate(
+    query?: RepositoryQuery<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel[]> {
+    this.assertTransaction('findAllForUpdate', options)
+
+    return this.findAll(query, options)
+  }
+
+  public async claimNext(
+    query?: RepositoryQuery<TModel>,
+    limit = 1,
+    options?: ClaimOptions<TModel>,
+  ): Promise<TModel[]> {
+    this.validateLimit(limit)
+    this.assertTransaction('claimNext', options)
+
+    return this.findAll(query, {
+      order: [[this.primaryKey, 'ASC']],
+      ...options,
+      limit,
+    })
+  }
+
+  public async findAllPaginated(
+    options: PaginationOptions<TModel>,
+  ): Promise<Page<TModel>> {
+    let {
+      limit = 10,
+      offset = 0,
+      page,
+      query,
+      findOptions,
+      skipCount = false,
+    } = options
+
+    this.validateLimit(limit)
+
+    if (page !== undefined && (!Number.isInteger(page) || page < 1)) {
+      throw new InvalidQueryError('Page must be a positive integer')
+    }
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new InvalidQueryError('Offset must be a non-negative integer')
+    }
+
+    if (!offset && page) {
+      offset = this.calculateOffset(limit, page)
+    }
+
+    const matching = this.findRows(query, { ...findOptions })
+    const rows = matching
+      .slice(offset, offset + limit)
+      .map((row) => this.toEntity(row, findOptions?.attributes))
+    const count = skipCount ? null : matching.length
+
+    return {
+      rows,
+      count,
+      limit,
+      offset,
+      currentPage: Math.floor(offset / limit) + 1,
+      totalPages: count === null ? null : Math.ceil(count / limit),
+      hasNext: offset + rows.length < matching.length,
+      hasPrev: offset > 0,
+    }
+  }
+
+  public async findEach(
+    query: RepositoryQuery<TModel> | undefined,
+    options: IterateOptions<TModel> | undefined,
+    handler: (entity: TModel) => void | Promise<void>,
+  ): Promise<void> {
+    for await (const entity of this.iterate(query, options)) {
+      await handler(entity)
+    }
+  }
+
+  public iterate(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): AsyncGenerator<TModel> {
+    const { batchSize = 100, orderBy = [], ...findOptions } = options ?? {}
+
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new InvalidQueryError('Batch size must be a positive integer')
+    }
+
+    const rows = this.findRows(query, {
+      ...findOptions,
+      order: [
+        ...orderBy,
+        ...this.primaryKeys.map((key): [string, 'ASC'] => [key, 'ASC']),
+      ],
+    })
+
+    return this.yieldEntities(rows, findOptions.attributes)
+  }
+
+  public stream(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): Readable {
+    return Readable.from(this.iterate(query, options))
+  }
+
+  public async findAllByCursor(
+    options: CursorPaginationOptions<TModel>,
+  ): Promise<CursorPage<TModel>> {
+    const { orderBy, after, before, limit = 10, query, findOptions } = options
+
+    if (!orderBy.length) {
+      throw new InvalidQueryError('Cursor pagination requires orderBy')
+    }
+
+    this.validateLimit(limit)
+
+    if (after && before) {
+      throw new InvalidQueryError('Only one of after or before can be set')
+    }
+
+    const cursor = after ?? before
+    const backward = before !== undefined
+    const values = cursor ? decodeCursor(cursor, orderBy) : undefined
+
+    if (values === null) {
+      throw new InvalidQueryError('Invalid cursor')
+    }
+
+    const order = orderBy.map(
+      ([column, direction]): [string, 'ASC' | 'DESC'] => [
+        column,
+        backward ? (direction === 'ASC' ? 'DESC' : 'ASC') : direction,
+      ],
+    )
+    const where = values
+      ? { [Op.and]: [query ?? {}, buildKeysetWhere(order, values)] }
+      : query
+    const rows = this.findRows(where, {
+      ...findOptions,
+      order,
+      limit: limit + 1,
+    })
+
+    const hasMore = rows.length > limit
+    const page = rows.slice(0, limit)
+
+    if (backward) {
+      page.reverse()
+    }
+
+    const toCursor = (row: Row) =>
+      encodeCursor(
+        orderBy,
+        orderBy.map(([column]) => row[column]),
+      )
+
+    return {
+      rows: page.map((row) => this.toEntity(row, findOptions?.attributes)),
+      startCursor: page.length ? toCursor(page[0]) : null,
+      endCursor: page.length ? toCursor(page[page.length - 1]) : null,
+      hasNextPage: backward ? true : hasMore,
+      hasPreviousPage: backward ? hasMore : after !== undefined,
+    }
+  }
+
+  public async updateByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
+  ): Promise<TModel | null> {
+    return this.run(() => {
+      const row = this.findRowByPk(primaryKey)
+
+      if (!row) {
+        return null
+      }
+
+      this.assertVersion(row, primaryKey, options?.expectedVersion)
+
+      return this.toEntity(this.updateRow(row, dto))
+    })
+  }
+
+  public async updateByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
+  ): Promise<TModel> {
+    const entity = await this.updateByPk(primaryKey, dto, options)
+
+    if (!entity) {
+      throw new EntityNotFoundError(this.model.name, primaryKey)
+    }
+
+    return entity
+  }
+
+  public async update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options: UpdateOptions<TModel> & { returning: true },
+  ): Promise<TModel[]>
+  public async update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateOptions<TModel>,
+  ): Promise<number>
+  public async update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateOptions<TModel>,
+  ): Promise<number | TModel[]> {
+    return this.run(() => {
+      const rows = this.rows
+
+      try {
+        const updated = this.findRows(query, {
+          paranoid: options?.paranoid,
+        }).map((row) => this.updateRow(row, dto))
+
+        return options?.returning
+          ? updated.map((row) => this.toEntity(row))
+          : updated.length
+      } catch (error) {
+        this.rows = rows
+        throw error
+      }
+    })
+  }
+
+  public async updateMany(
+    updates: EntityUpdate<TModel>[],
+    options?: UpdateManyOptions<TModel>,
+  ): Promise<number> {
+    return this.run(() => {
+      const rows = this.rows
+
+      try {
+        return updates.filter(({ pk, changes }) => {
+          const row = this.findRowByPk(pk)
+
+          return row && this.updateRow(row, changes)
+        }).length
+      } catch (error) {
+        this.rows = rows
+        throw error
+      }
+    })
+  }
+
+  public async deleteByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
+  ): Promise<TModel | null> {
+    return this.run(() => {
+      const row = this.findRowByPk(primaryKey, !options?.force)
+
+      if (!row) {
+        return null
+      }
+
+      this.assertVersion(row, primaryKey, options?.expectedVersion)
+
+      return this.toEntity(this.deleteRow(row, !!options?.force))
+    })
+  }
+
+  public async deleteByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
+  ): Promise<TModel> {
+    const entity = await this.deleteByPk(primaryKey, options)
+
+    if (!entity) {
+      throw new EntityNotFoundError(this.model.name, primaryKey)
+    }
+
+    return entity
+  }
+
+  public async deleteManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<number> {
+    return this.run(
+      () =>
+        primaryKeys.filter((primaryKey) => {
+          const row = this.findRowByPk(primaryKey, !options?.force)
+
+          return row && this.deleteRow(row, !!options?.force)
+        }).length,
+    )
+  }
+
+  public async count(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<number> {
+    return this.findRows(query, { paranoid: options?.paranoid }).length
+  }
+
+  public async exists(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<boolean> {
+    return (await this.count(query, options)) > 0
+  }
+
+  public async sum(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number> {
+    const rows = this.findRows(query, { paranoid: options?.paranoid })
+
+    return Number(this.aggregateRows(rows, 'sum', column) ?? 0)
+  }
+
+  public async avg(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number | null> {
+    const rows = this.findRows(query, { paranoid: options?.paranoid })
+
+    return this.aggregateRows(rows, 'avg', column) as number | null
+  }
+
+  public async min<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null> {
+    const rows = this.findRows(query, { paranoid: options?.paranoid })
+
+    return this.aggregateRows(rows, 'min', column) as Attributes<TModel>[K]
+  }
+
+  public async max<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null> {
+    const rows = this.findRows(query, { paranoid: options?.paranoid })
+
+    return this.aggregateRows(rows, 'max', column) as Attributes<TModel>[K]
+  }
+
+  public async groupBy<
+    K extends keyof Attributes<TModel> & string,
+    const A extends Record<string, Aggregate<TModel>>,
+  >(
+    columns: K[],
+    aggregates: A,
+    query?: RepositoryQuery<TModel>,
+    options?: GroupByOptions<TModel>,
+  ): Promise<GroupByRow<TModel, K, A>[]> {
+    const groups = new Map<string, Row[]>()
+
+    this.findRows(query, options).forEach((row) => {
+      const key = JSON.stringify(columns.map((column) => row[column]))
+
+      groups.set(key, [...(groups.get(key) ?? []), row])
+    })
+
+    return [...groups.values()].map((rows) => ({
+      ...Object.fromEntries(columns.map((column) => [column, rows[0][column]])),
+      ...Object.fromEntries(
+        Object.entries(aggregates).map(([alias, [aggregate, column]]) => [
+          alias,
+          this.aggregateRows(rows, aggregate, column),
+        ]),
+      ),
+    })) as GroupByRow<TModel, K, A>[]
+  }
+
+  public async delete(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<number> {
+    return this.run(() => {
+      const rows = this.findRows(query, { paranoid: !options?.force })
+
+      rows.forEach((row) => this.deleteRow(row, !!options?.force))
+
+      return rows.length
+    })
+  }
+
+  public async restore(
+    query?: WhereOptions<Attributes<TModel>>,
+    options?: Omit<RestoreOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<void> {
+    return this.run(() => {
+      this.findRows(query, { paranoid: false }).forEach((row) =>
+        this.restoreRow(row),
+      )
+    })
+  }
+
+  public async restoreByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel | null> {
+    return this.run(() => {
+      const row = this.findRowByPk(primaryKey, false)
+
+      return row ? this.toEntity(this.restoreRow(row)) : null
+    })
+  }
+
+  public async restoreByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel> {
+    const entity = await this.restoreByPk(primaryKey, options)
+
+    if (!entity) {
+      throw new EntityNotFoundError(this.model.name, primaryKey)
+    }
+
+    return entity
+  }
+
+  public async findDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]> {
+    return this.findRows(query, { ...options, deleted: true }).map((row) =>
+      this.toEntity(row, options?.attributes),
+    )
+  }
+
+  public async findAllWithDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]> {
+    return this.findAll(query, { ...options, paranoid: false })
+  }
+
+  public async countDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedCountOptions<TModel>,
+  ): Promise<number> {
+    return this.findRows(query, { deleted: true }).length
+  }
+
+  public async purgeDeleted(
+    options?: PurgeDeletedOptions<TModel>,
+  ): Promise<number> {
+    return this.run(() => {
+      const deletedAt = this.getTimestampAttribute('deletedAt')
+      const rows = this.findRows(options?.query, { deleted: true }).filter(
+        (row) =>
+          !options?.olderThan ||
+          compareValues(row[deletedAt!], options.olderThan) < 0,
+      )
+
+      rows.forEach((row) => this.deleteRow(row, true))
+
+      return rows.length
+    })
+  }
+
+  public async isDeleted(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable & ReadOptions,
+  ): Promise<boolean> {
+    const row = this.findRowByPk(primaryKey, false)
+
+    return !!row && this.isRowDeleted(row)
+  }
+
+  public async getHistory(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable,
+  ): Promise<AuditEntry<TModel>[]> {
+    return this.history.filter(
+      ({ entityId }) =>
+        entityId ===
+        toEntityId(this.primaryKeys, this.getPrimaryKeyValues(primaryKey)),
+    )
+  }
+
+  public async recordEvent<TPayload = unknown>(
+    type: string,
+    payload: TPayload,
+    options?: RecordEventOptions,
+  ): Promise<void> {
+    return this.run(() => {
+      this.assertTransaction('recordEvent', options)
+
+      this.outbox = [
+        ...this.outbox,
+        {
+          id: this.outbox.length + 1,
+          aggregateType: this.model.name,
+          aggregateId:
+            options?.aggregateId === undefined
+              ? null
+              : String(options.aggregateId),
+          type,
+          payload,
+          attempts: 0,
+          createdAt: new Date(),
+        },
+      ]
+    })
+  }
+
+  public getRecordedEvents(): OutboxMessage[] {
+    return this.outbox
+  }
+
+  public async transaction<R>(
+    runInTransaction: (transaction: Transaction) => Promise<R>,
+    options: TransactionOptions = {},
+  ): Promise<R> {
+    const { propagation = Propagation.REQUIRED } = options
+    const transaction = {} as Transaction
+
+    if (this.transactionActive) {
+      if (propagation === Propagation.NEVER) {
+        throw new RepositoryError(
+          undefined,
+          undefined,
+          new Error(
+            'Transaction propagation NEVER does not allow an active transaction',
+          ),
+        )
+      }
+
+      if (propagation === Propagation.REQUIRED) {
+        return runInTransaction(transaction)
+      }
+    }
+
+    const rows = this.rows
+    const history = this.history
+    const outbox = this.outbox
+    const sequence = this.sequence
+    const transactionActive = this.transactionActive
+
+    this.transactionActive = true
+
+    try {
+      return await runInTransaction(transaction)
+    } catch (error) {
+      this.rows = rows
+      this.history = history
+      this.outbox = outbox
+      this.sequence = sequence
+      throw error instanceof HttpException ? error : toRepositoryError(error)
+    } finally {
+      this.transactionActive = transactionActive
+    }
+  }
+
+  public calculateOffset(limit: number, page: number): number {
+    return limit * (page - 1)
+  }
+
+  public query(): QueryBuilder<TModel> {
+    return new QueryBuilder(this)
+  }
+
+  private async run<R>(callback: () => R): Promise<R> {
+    try {
+      return callback()
+    } catch (error) {
+      throw error instanceof HttpException ? error : toRepositoryError(error)
+    }
+  }
+
+  private isParanoid(): boolean {
+    return (
+      !!this.modelOptions.paranoid && this.modelOptions.timestamps !== false
+    )
+  }
+
+  private getTimestampAttribute(
+    name: 'createdAt' | 'updatedAt' | 'deletedAt',
+  ): string | undefined {
+    const attribute = this.modelOptions[name]
+
+    if (
+      this.modelOptions.timestamps === false ||
+      attribute === false ||
+      (name === 'deletedAt' && !this.isParanoid())
+    ) {
+      return undefined
+    }
+
+    return typeof attribute === 'string' ? attribute : name
+  }
+
+  private timestamp(
+    name: 'createdAt' | 'updatedAt' | 'deletedAt',
+    value: Date | null = new Date(),
+  ): Row {
+    const attribute = this.getTimestampAttribute(name)
+
+    return attribute ? { [attribute]: value } : {}
+  }
+
+  private actor(...attributes: ('createdBy' | 'updatedBy')[]): Row {
+    const actorId =
+      this.model.prototype instanceof AuditableBaseModel
+        ? AuditContext.getActor()
+        : undefined
+
+    return actorId === undefined
+      ? {}
+      : Object.fromEntries(
+          attributes.map((attribute) => [attribute, String(actorId)]),
+        )
+  }
+
+  private getVersionAttribute(): string | undefined {
+    const { version } = this.modelOptions
+
+    if (!version) {
+      return undefined
+    }
+
+    return typeof version === 'string' ? version : 'version'
+  }
+
+  private nextVersion(row: Row): Row {
+    const version = this.getVersionAttribute()
+
+    return version ? { [version]: Number(row[version]) + 1 } : {}
+  }
+
+  private assertVersion(
+    row: Row,
+    primaryKey: EntityKey,
+    expectedVersion?: number,
+  ): void {
+    if (expectedVersion === undefined) {
+      return
+    }
+
+    const version = this.getVersionAttribute()
+
+    if (!version) {
+      throw new Error(`${this.model.name} does not have a version attribute`)
+    }
+
+    if (row[version] !== expectedVersion) {
+      throw new OptimisticLockError(this.model.name, primaryKey)
+    }
+  }
+
+  private assertTransaction(
+    operation: string,
+    options?: { transaction?: Transaction | null },
+  ): void {
+    if (!this.transactionActive && !options?.transaction) {
+      throw new TransactionRequiredError(operation)
+    }
+  }
+
+  private pickAttributes(values: object): Row {
+    const timestamps = (['createdAt', 'updatedAt', 'deletedAt'] as const).map(
+      (name) => this.getTimestampAttribute(name),
+    )
+
+    return Object.fromEntries(
+      Object.entries(values).filter(
+        ([key]) => key in this.attributes || timestamps.includes(key),
+      ),
+    )
+  }
+
+  private getDefaultValue(defaultValue: unknown): unknown {
+    const type = (defaultValue as { key?: string } | null)?.key
+
+    if (type === 'UUIDV1' || type === 'UUIDV4') {
+      return randomUUID()
+    }
+
+    if (type === 'NOW') {
+      return new Date()
+    }
+
+    if (typeof defaultValue === 'function') {
+      return defaultValue()
+    }
+
+    return defaultValue
+  }
+
+  private aggregateRows(
+    rows: Row[],
+    aggregate: AggregateFunction,
+    column?: string,
+  ): unknown {
+    const values =
+      column === undefined
+        ? rows
+        : rows
+            .map((row) => row[column])
+            .filter((value) => value !== null && value !== undefined)
+
+    if (aggregate === 'count') {
+      return values.length
+    }
+
+    if (aggregate === 'min' || aggregate === 'max') {
+      const sign = aggregate === 'min' ? 1 : -1
+
+      return values.reduce<unknown>(
+        (best, value) =>
+          best === null || sign * compareValues(value, best) < 0 ? value : best,
+        null,
+      )
+    }
+
+    if (!values.length) {
+      return null
+    }
+
+    const sum = values.reduce<number>(
+      (total, value) => total + Number(value),
+      0,
+    )
+
+    return aggregate === 'sum' ? sum : sum / values.length
+  }
+
+  private insertRow(values: object): Row {
+    const version = this.getVersionAttribute()
+    const row: Row = {
+      ...this.timestamp('createdAt'),
+      ...this.timestamp('updatedAt'),
+      ...this.timestamp('deletedAt', null),
+      ...(version ? { [version]: 0 } : {}),
+      ...this.actor('createdBy', 'updatedBy'),
+      ...this.pickAttributes(values),
+    }
+
+    for (const [attribute, options] of Object.entries(this.attributes)) {
+      if (row[attribute] === undefined && 'defaultValue' in options) {
+        row[attribute] = this.getDefaultValue(options.defaultValue)
+      }
+    }
+
+    const key = row[this.primaryKey]
+
+    if (key === undefined || key === null) {
+      row[this.primaryKey] = ++this.sequence
+    } else if (typeof key === 'number' && key > this.sequence) {
+      this.sequence = key
+    }
+
+    this.assertUnique(row)
+    this.rows = [...this.rows, row]
+    this.recordAudit(AuditOperation.CREATE, null, row)
+
+    return row
+  }
+
+  private upsertRow(
+    values: object,
+    conflictFields: string[] = this.primaryKeys,
+    updateFields?: string[],
+  ): CreateResult<TModel> {
+    const attributes = this.pickAttributes(values)
+    const key = conflictFields.map((field) => attributes[field])
+    const row = key.some((value) => value === null || value === undefined)
+      ? undefined
+      : this.rows.find((other) =>
+          conflictFields.every(
+            (field, index) => compareValues(other[field], key[index]) === 0,
+          ),
+        )
+
+    if (!row) {
+      return { entity: this.toEntity(this.insertRow(values)), created: true }
+    }
+
+    const changes = Object.entries(attributes).filter(
+      ([field]) =>
+        (!updateFields || updateFields.includes(field)) &&
+        !conflictFields.includes(field) &&
+        !this.primaryKeys.includes(field),
+    )
+    return {
+      entity: this.toEntity(this.updateRow(row, Object.fromEntries(changes))),
+      created: false,
+    }
+  }
+
+  private updateRow(row: Row, values: object): Row {
+    const updated = {
+      ...row,
+      ...this.actor('updatedBy'),
+      ...this.pickAttributes(values),
+      ...this.timestamp('updatedAt'),
+      ...this.nextVersion(row),
+    }
+
+    this.assertUnique(updated, row)
+    this.replaceRow(row, updated)
+    this.recordAudit(AuditOperation.UPDATE, row, updated)
+
+    return updated
+  }
+
+  private assertUnique(row: Row, current?: Row): void {
+    const constraints = new Map<string, string[]>([
+      ['PRIMARY', this.primaryKeys],
+    ])
+
+    for (const [attribute, { unique }] of Object.entries(this.attributes)) {
+      if (!unique) {
+        continue
+      }
+
+      const name =
+        typeof unique === 'string'
+          ? unique
+          : typeof unique === 'object'
+            ? (unique.name ?? attribute)
+            : attribute
+
+      constraints.set(name, [...(constraints.get(name) ?? []), attribute])
+    }
+
+    for (const fields of constraints.values()) {
+      const values = fields.map((field) => row[field])
+
+      if (values.some((value) => value === null || value === undefined)) {
+        continue
+      }
+
+      const duplicate = this.rows.some(
+        (other) =>
+          other !== current &&
+          fields.every(
+            (field, index) => compareValues(other[field], values[index]) === 0,
+          ),
+      )
+
+      if (duplicate) {
+        throw new DuplicateEntityError(
+          fields,
+          Object.fromEntries(
+            fields.map((field, index) => [field, values[index]]),
+          ),
+        )
+      }
+    }
+  }
+
+  private replaceRow(row: Row, updated: Row): void {
+    this.rows = this.rows.map((other) => (other === row ? updated : other))
+  }
+
+  private deleteRow(row: Row, force: boolean): Row {
+    this.recordAudit(AuditOperation.DELETE, row, null)
+
+    if (force || !this.isParanoid()) {
+      this.rows = this.rows.filter((other) => other !== row)
+      return { ...row, ...this.timestamp('deletedAt') }
+    }
+
+    const deleted = {
+      ...row,
+      ...this.timestamp('deletedAt'),
+      ...this.nextVersion(row),
+    }
+    this.replaceRow(row, deleted)
+
+    return deleted
+  }
+
+  private restoreRow(row: Row): Row {
+    if (!this.isParanoid()) {
+      throw new Error(`${this.model.name} is not paranoid`)
+    }
+
+    const restored = {
+      ...row,
+      ...this.timestamp('deletedAt', null),
+      ...this.nextVersion(row),
+    }
+    this.replaceRow(row, restored)
+    this.recordAudit(AuditOperation.RESTORE, row, restored)
+
+    return restored
+  }
+
+  private recordAudit(
+    operation: AuditOperation,
+    before: Row | null,
+    after: Row | null,
+  ): void {
+    const actorId = AuditContext.getActor()
+
+    this.history = [
+      ...this.history,
+      {
+        model: this.model.name,
+        entityId: toEntityId(this.primaryKeys, (after ?? before)!),
+        operation,
+        actorId: actorId === undefined ? null : String(actorId),
+        before: before && ({ ...before } as AuditSnapshot<TModel>),
+        after: after && ({ ...after } as AuditSnapshot<TModel>),
+        diff: diffSnapshots<TModel>(
+          before as AuditSnapshot<TModel> | null,
+          after as AuditSnapshot<TModel> | null,
+        ),
+        createdAt: new Date(),
+      },
+    ]
+  }
+
+  private isRowDeleted(row: Row): boolean {
+    const deletedAt = this.getTimestampAttribute('deletedAt')
+
+    return (
+      !!deletedAt && row[deletedAt] !== null && row[deletedAt] !== undefined
+    )
+  }
+
+  private findRowByPk(primaryKey: EntityKey, paranoid = true): Row {
+    const [row] = this.findRows(this.getPrimaryKeyWhere(primaryKey), {
+      paranoid,
+    })
+
+    return row
+  }
+
+  private getPrimaryKeyValues(primaryKey: EntityKey): Row {
+    return toKeyValues(this.model.name, this.primaryKeys, primaryKey)
+  }
+
+  private getPrimaryKeyWhere(
+    primaryKey: EntityKey,
+  ): WhereOptions<Attributes<TModel>> {
+    return this.getPrimaryKeyValues(primaryKey) as WhereOptions<
+      Attributes<TModel>
+    >
+  }
+
+  private findRows(
+    query?: RepositoryQuery<TModel>,
+    options: InMemoryFindOptions = {},
+  ): Row[] {
+    let where = query as WhereOptions | undefined
+    let order = options.order
+
+    if (query instanceof Specification) {
+      where = query.toWhere()
+      order = mergeFindOptions(query.toFindOptions(), { order }).order
+    }
+
+    const { paranoid = true, deleted = false, offset = 0, limit } = options
+    const rows = this.rows.filter(
+      (row) =>
+        (deleted
+          ? this.isRowDeleted(row)
+          : !paranoid || !this.isRowDeleted(row)) && matchesWhere(row, where),
+    )
+
+    return sortRows(rows, order).slice(
+      offset,
+      limit === undefined ? undefined : offset + limit,
+    )
+  }
+
+  private async *yieldEntities(
+    rows: Row[],
+    attributes?: FindOptions['attributes'],
+  ): AsyncGenerator<TModel> {
+    for (const row of rows) {
+      yield this.toEntity(row, attributes)
+    }
+  }
+
+  private toEntity(row: Row, attributes?: FindOptions['attributes']): TModel {
+    const columns = Array.isArray(attributes)
+      ? attributes.filter(
+          (column): column is string => typeof column === 'string',
+        )
+      : []
+    const values = Object.fromEntries(
+      Object.entries(row)
+        .filter(([key]) => !columns.length || columns.includes(key))
+        .map(([key, value]) => [
+          key,
+          value instanceof Date ? new Date(value) : value,
+        ]),
+    )
+
+    if (this.model.sequelize) {
+      return this.model.build(values as CreationAttributes<TModel>, {
+        isNewRecord: false,
+        raw: true,
+      })
+    }
+
+    const entity = Object.create(this.model.prototype)
+
+    Object.defineProperties(entity, {
+      dataValues: { value: entity },
+      _options: { value: {} },
+      isNewRecord: { value: false },
+    })
+
+    return Object.assign(entity, values)
+  }
+
+  private validateLimit(limit: number): void {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new InvalidQueryError('Limit must be a positive integer')
+    }
+  }
+}
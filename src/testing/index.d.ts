@@ -0,0 +1,497 @@
+import { Provider } from '@nestjs/common'
+import {
+  Transaction,
+  WhereOptions,
+  CreationAttributes,
+  CreateOptions,
+  Attributes,
+  InstanceRestoreOptions,
+  FindOptions,
+  BulkCreateOptions,
+  CountOptions,
+  DestroyOptions,
+  RestoreOptions,
+  Transactionable,
+} from 'sequelize'
+import { Model, ModelCtor } from 'sequelize-typescript'
+import { Readable } from 'node:stream'
+import {
+  Aggregate,
+  AggregateOptions,
+  AuditEntry,
+  ClaimOptions,
+  CreateResult,
+  CursorPage,
+  CursorPaginationOptions,
+  DeleteByPkOptions,
+  DeletedCountOptions,
+  DeletedFindOptions,
+  EntityUpdate,
+  FindOrCreateOptions,
+  GroupByOptions,
+  GroupByRow,
+  IRepository,
+  IterateOptions,
+  LockOptions,
+  OutboxMessage,
+  Page,
+  PaginationOptions,
+  PrimaryKeyOf,
+  PurgeDeletedOptions,
+  ReadFindOptions,
+  ReadOptions,
+  QueryBuilder,
+  RecordEventOptions,
+  RepositoryQuery,
+  TransactionOptions,
+  UpdateByPkOptions,
+  UpdateManyOptions,
+  UpdateOptions,
+  UpsertManyOptions,
+  UpsertOptions,
+} from '../index'
+
+/**
+ * Repository keeping records in memory, for unit tests without a database.
+ * Implements the whole `IRepository` contract, including paranoid soft
+ * deletes, pagination and the common `Op` operators. Transactions roll back
+ * the in-memory records when the callback throws.
+ *
+ * The model does not have to be added to a Sequelize instance.
+ *
+ * @template TModel Type of the Sequelize model.
+ */
+export declare class InMemoryRepository<
+  TModel extends Model,
+> implements IRepository<TModel> {
+  /**
+   * Constructs the in-memory repository.
+   *
+   * @param model The Sequelize model constructor.
+   * @param seed Optional records to start with.
+   */
+  constructor(model: ModelCtor<TModel>, seed?: CreationAttributes<TModel>[])
+
+  /**
+   * Get the events recorded with `recordEvent` in committed transactions.
+   *
+   * @returns The recorded events, oldest first.
+   */
+  getRecordedEvents(): OutboxMessage[]
+
+  /**
+   * @inheritdoc
+   */
+  getModel(): ModelCtor<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  create(
+    dto: CreationAttributes<TModel>,
+    options?: CreateOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  insert(
+    dto: CreationAttributes<TModel>,
+    options?: CreateOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  insertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: BulkCreateOptions<Attributes<TModel>>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  upsert(
+    dto: CreationAttributes<TModel>,
+    options?: UpsertOptions<TModel>,
+  ): Promise<CreateResult<TModel>>
+
+  /**
+   * @inheritdoc
+   */
+  upsertMany(
+    dtos: CreationAttributes<TModel>[],
+    options?: UpsertManyOptions<TModel>,
+  ): Promise<CreateResult<TModel>[]>
+
+  /**
+   * @inheritdoc
+   */
+  findOrCreate(
+    query: WhereOptions<Attributes<TModel>>,
+    defaults?: Partial<CreationAttributes<TModel>>,
+    options?: FindOrCreateOptions<TModel>,
+  ): Promise<CreateResult<TModel>>
+
+  /**
+   * @inheritdoc
+   */
+  findByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * @inheritdoc
+   */
+  findByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  findManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  findOne(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * @inheritdoc
+   */
+  findOneOrFail(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  findAll(
+    query?: RepositoryQuery<TModel>,
+    options?: ReadFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  findByPkForUpdate(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * @inheritdoc
+   */
+  findAllForUpdate(
+    query?: RepositoryQuery<TModel>,
+    options?: LockOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  claimNext(
+    query?: RepositoryQuery<TModel>,
+    limit?: number,
+    options?: ClaimOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  findAllPaginated(options: PaginationOptions<TModel>): Promise<Page<TModel>>
+
+  /**
+   * @inheritdoc
+   */
+  findEach(
+    query: RepositoryQuery<TModel> | undefined,
+    options: IterateOptions<TModel> | undefined,
+    handler: (entity: TModel) => void | Promise<void>,
+  ): Promise<void>
+
+  /**
+   * @inheritdoc
+   */
+  iterate(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): AsyncGenerator<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  stream(
+    query?: RepositoryQuery<TModel>,
+    options?: IterateOptions<TModel>,
+  ): Readable
+
+  /**
+   * @inheritdoc
+   */
+  findAllByCursor(
+    options: CursorPaginationOptions<TModel>,
+  ): Promise<CursorPage<TModel>>
+
+  /**
+   * @inheritdoc
+   */
+  updateByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
+  ): Promise<TModel | null>
+
+  /**
+   * @inheritdoc
+   */
+  updateByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateByPkOptions<TModel>,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options: UpdateOptions<TModel> & { returning: true },
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  update(
+    query: RepositoryQuery<TModel>,
+    dto: Partial<Attributes<TModel>>,
+    options?: UpdateOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  updateMany(
+    updates: EntityUpdate<TModel>[],
+    options?: UpdateManyOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  count(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  exists(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<CountOptions<Attributes<TModel>>, 'where' | 'group'> &
+      ReadOptions,
+  ): Promise<boolean>
+
+  /**
+   * @inheritdoc
+   */
+  sum(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  avg(
+    column: keyof Attributes<TModel> & string,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<number | null>
+
+  /**
+   * @inheritdoc
+   */
+  min<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null>
+
+  /**
+   * @inheritdoc
+   */
+  max<K extends keyof Attributes<TModel> & string>(
+    column: K,
+    query?: RepositoryQuery<TModel>,
+    options?: AggregateOptions<TModel>,
+  ): Promise<Attributes<TModel>[K] | null>
+
+  /**
+   * @inheritdoc
+   */
+  groupBy<
+    K extends keyof Attributes<TModel> & string,
+    const A extends Record<string, Aggregate<TModel>>,
+  >(
+    columns: K[],
+    aggregates: A,
+    query?: RepositoryQuery<TModel>,
+    options?: GroupByOptions<TModel>,
+  ): Promise<GroupByRow<TModel, K, A>[]>
+
+  /**
+   * @inheritdoc
+   */
+  delete(
+    query?: RepositoryQuery<TModel>,
+    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  restore(
+    query?: WhereOptions<Attributes<TModel>>,
+    options?: Omit<RestoreOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<void>
+
+  /**
+   * @inheritdoc
+   */
+  deleteByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
+  ): Promise<TModel | null>
+
+  /**
+   * @inheritdoc
+   */
+  deleteByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: DeleteByPkOptions,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  deleteManyByPks(
+    primaryKeys: PrimaryKeyOf<TModel>[],
+    options?: Omit<DestroyOptions<Attributes<TModel>>, 'where'>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  restoreByPk(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel | null>
+
+  /**
+   * @inheritdoc
+   */
+  restoreByPkOrFail(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: InstanceRestoreOptions,
+  ): Promise<TModel>
+
+  /**
+   * @inheritdoc
+   */
+  findDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  findAllWithDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedFindOptions<TModel>,
+  ): Promise<TModel[]>
+
+  /**
+   * @inheritdoc
+   */
+  countDeleted(
+    query?: RepositoryQuery<TModel>,
+    options?: DeletedCountOptions<TModel>,
+  ): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  purgeDeleted(options?: PurgeDeletedOptions<TModel>): Promise<number>
+
+  /**
+   * @inheritdoc
+   */
+  isDeleted(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable & ReadOptions,
+  ): Promise<boolean>
+
+  /**
+   * @inheritdoc
+   */
+  getHistory(
+    primaryKey: PrimaryKeyOf<TModel>,
+    options?: Transactionable,
+  ): Promise<AuditEntry<TModel>[]>
+
+  /**
+   * @inheritdoc
+   */
+  recordEvent<TPayload = unknown>(
+    type: string,
+    payload: TPayload,
+    options?: RecordEventOptions,
+  ): Promise<void>
+
+  /**
+   * @inheritdoc
+   */
+  transaction<R>(
+    runInTransaction: (transaction: Transaction) => Promise<R>,
+    options?: TransactionOptions,
+  ): Promise<R>
+
+  /**
+   * @inheritDoc
+   */
+  calculateOffset(limit: number, page: number): number
+
+  /**
+   * @inheritDoc
+   */
+  query(): QueryBuilder<TModel>
+}
+
+/**
+ * Creates a provider replacing the repository registered for a model
+ * with an `InMemoryRepository`, e.g. in a Nest `TestingModule`.
+ *
+ * @param model The Sequelize model constructor.
+ * @param seed Optional records to start with.
+ * @returns The repository provider.
+ */
+export declare function createTestingRepositoryProvider<TModel extends Model>(
+  model: ModelCtor<TModel>,
+  seed?: CreationAttributes<TModel>[],
+): Provider
@@ -0,0 +1,15 @@
+import { Provider } from '@nestjs/common'
+import { CreationAttributes } from 'sequelize'
+import { Model, ModelCtor } from 'sequelize-typescript'
+import { getRepositoryToken } from '../helpers'
+import { InMemoryRepository } from './in-memory.repository'
+
+export const createTestingRepositoryProvider = <TModel extends Model>(
+  model: ModelCtor<TModel>,
+  seed?: CreationAttributes<TModel>[],
+): Provider => {
+  return {
+    provide: getRepositoryToken(model),
+    useFactory: () => new InMemoryRepository(model, seed),
+  }
+}
@@ -0,0 +1,220 @@
+import { Op, OrderItem, Utils, WhereOptions } from 'sequelize'
+
+type Row = Record<string, unknown>
+
+const unsupported = (feature: unknown): Error => {
+  return new Error(`${String(feature)} is not supported by InMemoryRepository`)
+}
+
+const toComparable = (value: unknown): unknown => {
+  return value instanceof Date ? value.getTime() : value
+}
+
+const isEqual = (value: unknown, operand: unknown): boolean => {
+  if (value === null || value === undefined) {
+    return operand === null || operand === undefined
+  }
+
+  return toComparable(value) === toComparable(operand)
+}
+
+export const compareValues = (a: unknown, b: unknown): number => {
+  if (a === null || a === undefined) {
+    return b === null || b === undefined ? 0 : -1
+  }
+
+  if (b === null || b === undefined) {
+    return 1
+  }
+
+  const left = toComparable(a) as string | number
+  const right = toComparable(b) as string | number
+
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+const likeToRegExp = (pattern: string, flags = ''): RegExp => {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.')
+
+  return new RegExp(`^${source}$`, `s${flags}`)
+}
+
+const compare =
+  (predicate: (result: number) => boolean) =>
+  (value: unknown, operand: unknown): boolean =>
+    value !== null &&
+    value !== undefined &&
+    predicate(compareValues(value, operand))
+
+const text =
+  (predicate: (value: string, operand: string) => boolean) =>
+  (value: unknown, operand: unknown): boolean =>
+    typeof value === 'string' && predicate(value, String(operand))
+
+const between = (value: unknown, operand: unknown): boolean => {
+  const [from, to] = operand as [unknown, unknown]
+
+  return (
+    value !== null &&
+    value !== undefined &&
+    compareValues(value, from) >= 0 &&
+    compareValues(value, to) <= 0
+  )
+}
+
+const operators = new Map<symbol, (value: unknown, operand: any) => boolean>([
+  [Op.eq, isEqual],
+  [Op.is, isEqual],
+  [Op.ne, (value, operand) => value != null && !isEqual(value, operand)],
+  [
+    Op.not,
+    (value, operand) =>
+      isPlainObject(operand) || Array.isArray(operand)
+        ? !matchesValue(value, operand)
+        : !isEqual(value, operand),
+  ],
+  [Op.gt, compare((result) => result > 0)],
+  [Op.gte, compare((result) => result >= 0)],
+  [Op.lt, compare((result) => result < 0)],
+  [Op.lte, compare((result) => result <= 0)],
+  [
+    Op.in,
+    (value, operand: unknown[]) => operand.some((o) => isEqual(value, o)),
+  ],
+  [
+    Op.notIn,
+    (value, operand: unknown[]) =>
+      value != null && !operand.some((o) => isEqual(value, o)),
+  ],
+  [Op.like, text((value, operand) => likeToRegExp(operand).test(value))],
+  [Op.notLike, text((value, operand) => !likeToRegExp(operand).test(value))],
+  [Op.iLike, text((value, operand) => likeToRegExp(operand, 'i').test(value))],
+  [
+    Op.notILike,
+    text((value, operand) => !likeToRegExp(operand, 'i').test(value)),
+  ],
+  [Op.startsWith, text((value, operand) => value.startsWith(operand))],
+  [Op.endsWith, text((value, operand) => value.endsWith(operand))],
+  [Op.substring, text((value, operand) => value.includes(operand))],
+  [Op.between, between],
+  [
+    Op.notBetween,
+    (value, operand) => value != null && !between(value, operand),
+  ],
+])
+
+const isPlainObject = (value: unknown): value is Record<PropertyKey, any> => {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !(value instanceof Date) &&
+    !Array.isArray(value)
+  )
+}
+
+const matchesValue = (value: unknown, condition: unknown): boolean => {
+  if (condition instanceof Utils.SequelizeMethod) {
+    throw unsupported(condition.constructor.name)
+  }
+
+  if (Array.isArray(condition)) {
+    return condition.some((operand) => isEqual(value, operand))
+  }
+
+  if (!isPlainObject(condition)) {
+    return isEqual(value, condition)
+  }
+
+  return Reflect.ownKeys(condition).every((key) => {
+    const operand = condition[key]
+
+    if (key === Op.and || key === Op.or) {
+      const conditions = Array.isArray(operand)
+        ? operand
+        : Reflect.ownKeys(operand).map((op) => ({ [op]: operand[op] }))
+      const method = key === Op.and ? 'every' : 'some'
+
+      return conditions[method]((nested: unknown) =>
+        matchesValue(value, nested),
+      )
+    }
+
+    const operator = typeof key === 'symbol' ? operators.get(key) : undefined
+
+    if (!operator) {
+      throw unsupported(key)
+    }
+
+    return operator(value, operand)
+  })
+}
+
+export const matchesWhere = (row: Row, where?: WhereOptions): boolean => {
+  if (where === undefined || where === null) {
+    return true
+  }
+
+  if (where instanceof Utils.SequelizeMethod) {
+    throw unsupported(where.constructor.name)
+  }
+
+  const conditions = where as Record<PropertyKey, any>
+
+  return Reflect.ownKeys(conditions).every((key) => {
+    const condition = conditions[key]
+
+    if (key === Op.and || key === Op.or) {
+      const nested: WhereOptions[] = Array.isArray(condition)
+        ? condition
+        : Reflect.ownKeys(condition).map((column) => ({
+            [column]: condition[column],
+          }))
+
+      return key === Op.and
+        ? nested.every((where) => matchesWhere(row, where))
+        : nested.some((where) => matchesWhere(row, where))
+    }
+
+    if (key === Op.not) {
+      return !matchesWhere(row, condition)
+    }
+
+    if (typeof key === 'symbol') {
+      throw unsupported(key)
+    }
+
+    return matchesValue(row[key], condition)
+  })
+}
+
+export const sortRows = <T extends Row>(rows: T[], order?: unknown): T[] => {
+  if (order === undefined) {
+    return rows
+  }
+
+  const items = (Array.isArray(order) ? order : [order]) as OrderItem[]
+  const columns = items.map((item): [string, number] => {
+    const [column, direction = 'ASC'] = Array.isArray(item) ? item : [item]
+
+    if (typeof column !== 'string' || typeof direction !== 'string') {
+      throw unsupported('Order item')
+    }
+
+    return [column, direction.toUpperCase().startsWith('DESC') ? -1 : 1]
+  })
+
+  return [...rows].sort((a, b) => {
+    for (const [column, direction] of columns) {
+      const result = compareValues(a[column], b[column])
+
+      if (result) {
+        return result * direction
+      }
+    }
+
+    return 0
+  })
+}
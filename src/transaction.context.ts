@@ -0,0 +1,66 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { Sequelize, Transaction } from 'sequelize'
+import { TransactionOptions } from './IRepository'
+
+export enum Propagation {
+  REQUIRED = 'REQUIRED',
+  REQUIRES_NEW = 'REQUIRES_NEW',
+  NESTED = 'NESTED',
+  NEVER = 'NEVER',
+}
+
+type TransactionStore = ReadonlyMap<Sequelize, Transaction>
+
+export class TransactionContext {
+  private static readonly storage = new AsyncLocalStorage<TransactionStore>()
+
+  public static getTransaction(sequelize: Sequelize): Transaction | undefined {
+    return this.storage.getStore()?.get(sequelize)
+  }
+
+  public static async run<R>(
+    sequelize: Sequelize,
+    runInTransaction: (transaction: Transaction) => Promise<R>,
+    options: TransactionOptions = {},
+  ): Promise<R> {
+    const { propagation = Propagation.REQUIRED, ...transactionOptions } =
+      options
+    const current = this.getTransaction(sequelize)
+
+    if (current) {
+      switch (propagation) {
+        case Propagation.NEVER:
+          throw new Error(
+            'Transaction propagation NEVER does not allow an active transaction',
+          )
+        case Propagation.REQUIRED:
+          return runInTransaction(current)
+        case Propagation.NESTED:
+          return this.start(sequelize, runInTransaction, {
+            ...transactionOptions,
+            transaction: current,
+          })
+      }
+    }
+
+    return this.start(sequelize, runInTransaction, {
+      ...transactionOptions,
+      transaction: null,
+    })
+  }
+
+  private static async start<R>(
+    sequelize: Sequelize,
+    runInTransaction: (transaction: Transaction) => Promise<R>,
+    options: Omit<TransactionOptions, 'propagation'> & {
+      transaction: Transaction | null
+    },
+  ): Promise<R> {
+    return sequelize.transaction(options, (transaction) => {
+      const store = new Map(this.storage.getStore())
+      store.set(sequelize, transaction)
+
+      return this.storage.run(store, () => runInTransaction(transaction))
+    })
+  }
+}
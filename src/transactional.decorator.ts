@@ -0,0 +1,48 @@
+import { Sequelize } from 'sequelize'
+import { AbstractRepository } from './abstract.repository'
+import { TransactionalOptions } from './IRepository'
+import { TransactionContext } from './transaction.context'
+
+const resolveSequelize = (target: object, sequelize?: Sequelize): Sequelize => {
+  if (sequelize) {
+    return sequelize
+  }
+
+  for (const value of Object.values(target)) {
+    if (value instanceof AbstractRepository && value.getModel().sequelize) {
+      return value.getModel().sequelize!
+    }
+  }
+
+  throw new Error(
+    `@Transactional() could not resolve a Sequelize instance on ${target.constructor.name}, pass the "sequelize" option`,
+  )
+}
+
+export const Transactional = (
+  options: TransactionalOptions = {},
+): MethodDecorator => {
+  return (target, propertyKey, descriptor: PropertyDescriptor) => {
+    const { sequelize, ...transactionOptions } = options
+    const method = descriptor.value as (...args: unknown[]) => unknown
+
+    descriptor.value = async function (this: object, ...args: unknown[]) {
+      return TransactionContext.run(
+        resolveSequelize(this, sequelize),
+        async () => method.apply(this, args),
+        transactionOptions,
+      )
+    }
+
+    Object.defineProperty(descriptor.value, 'name', { value: method.name })
+    for (const key of Reflect.getMetadataKeys(method)) {
+      Reflect.defineMetadata(
+        key,
+        Reflect.getMetadata(key, method),
+        descriptor.value,
+      )
+    }
+
+    return descriptor
+  }
+}
@@ -3,7 +3,13 @@ import { User } from './models/user.model'
 import { UserRepository } from './user.repository'
 import { AbstractRepository } from '../src/abstract.repository'
 import { Op } from 'sequelize'
-import { InternalServerErrorException } from '@nestjs/common'
+import { NotFoundException } from '@nestjs/common'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import {
+  DuplicateEntityError,
+  EntityNotFoundError,
+  InvalidQueryError,
+} from '../src/repository.errors'
 
 let sequelize: Sequelize
 let userRepo: UserRepository
@@ -81,9 +87,7 @@ describe('UserRepository', () => {
     }
     await userRepo.create(dto)
 
-    await expect(userRepo.create(dto)).rejects.toThrow(
-      InternalServerErrorException,
-    )
+    await expect(userRepo.create(dto)).rejects.toThrow(DuplicateEntityError)
   })
 
   it('should find a user by primary key', async () => {
@@ -264,4 +268,148 @@ describe('UserRepository', () => {
     expect(paginated.rows.length).toBe(allRecords.length)
     expect(paginated.count).toBe(allRecords.length)
   })
+
+  it('should return page metadata', async () => {
+    const total = (await userRepo.findAll()).length
+    const paginated = await userRepo.findAllPaginated({ limit: 2, page: 2 })
+
+    expect(paginated.rows).toHaveLength(2)
+    expect(paginated.count).toBe(total)
+    expect(paginated.currentPage).toBe(2)
+    expect(paginated.totalPages).toBe(Math.ceil(total / 2))
+    expect(paginated.offset).toBe(2)
+    expect(paginated.limit).toBe(2)
+    expect(paginated.hasPrev).toBe(true)
+    expect(paginated.hasNext).toBe(total > 4)
+  })
+
+  it('should detect the last page', async () => {
+    const total = (await userRepo.findAll()).length
+    const paginated = await userRepo.findAllPaginated({
+      limit: total,
+      page: 1,
+    })
+
+    expect(paginated.totalPages).toBe(1)
+    expect(paginated.hasNext).toBe(false)
+    expect(paginated.hasPrev).toBe(false)
+  })
+
+  it('should paginate without counting', async () => {
+    const total = (await userRepo.findAll()).length
+    const first = await userRepo.findAllPaginated({
+      limit: total - 1,
+      skipCount: true,
+    })
+    const last = await userRepo.findAllPaginated({
+      limit: total - 1,
+      page: 2,
+      skipCount: true,
+    })
+
+    expect(first.rows).toHaveLength(total - 1)
+    expect(first.count).toBeNull()
+    expect(first.totalPages).toBeNull()
+    expect(first.hasNext).toBe(true)
+    expect(last.rows).toHaveLength(1)
+    expect(last.hasNext).toBe(false)
+    expect(last.hasPrev).toBe(true)
+  })
+
+  it('should validate pagination options', async () => {
+    await expect(userRepo.findAllPaginated({ limit: 0 })).rejects.toThrow(
+      InvalidQueryError,
+    )
+    await expect(userRepo.findAllPaginated({ limit: -5 })).rejects.toThrow(
+      InvalidQueryError,
+    )
+    await expect(userRepo.findAllPaginated({ page: 0 })).rejects.toThrow(
+      InvalidQueryError,
+    )
+    await expect(userRepo.findAllPaginated({ page: 1.5 })).rejects.toThrow(
+      InvalidQueryError,
+    )
+    await expect(userRepo.findAllPaginated({ offset: -1 })).rejects.toThrow(
+      InvalidQueryError,
+    )
+  })
+
+  it('should reject limits over maxLimit', async () => {
+    const repository = new NestlizeRepository(User, { maxLimit: 5 })
+
+    await expect(repository.findAllPaginated({ limit: 6 })).rejects.toThrow(
+      InvalidQueryError,
+    )
+    await expect(
+      repository.findAllPaginated({ limit: 5 }),
+    ).resolves.toHaveProperty('limit', 5)
+  })
+
+  it('should find a user by primary key or fail', async () => {
+    const created = await userRepo.create({
+      name: 'Erin',
+      email: 'erin@example.com',
+    })
+
+    await expect(userRepo.findByPkOrFail(created.id)).resolves.toHaveProperty(
+      'name',
+      'Erin',
+    )
+    await expect(userRepo.findByPkOrFail('missing')).rejects.toThrow(
+      new EntityNotFoundError('User', 'missing'),
+    )
+  })
+
+  it('should find one user or fail', async () => {
+    await expect(
+      userRepo.findOneOrFail({ email: 'erin@example.com' }),
+    ).resolves.toHaveProperty('name', 'Erin')
+
+    const error = await userRepo
+      .findOneOrFail({ email: 'nobody@example.com' })
+      .catch((error) => error)
+
+    expect(error).toBeInstanceOf(EntityNotFoundError)
+    expect(error.getStatus()).toBe(404)
+    expect(error.model).toBe('User')
+    expect(error.query).toEqual({ email: 'nobody@example.com' })
+  })
+
+  it('should update, delete and restore a user or fail', async () => {
+    const user = await userRepo.create({
+      name: 'Frank',
+      email: 'frank@example.com',
+    })
+
+    await expect(
+      userRepo.updateByPkOrFail(user.id, { name: 'Franky' }),
+    ).resolves.toHaveProperty('name', 'Franky')
+    await expect(userRepo.deleteByPkOrFail(user.id)).resolves.toBeDefined()
+    await expect(userRepo.deleteByPkOrFail(user.id)).rejects.toThrow(
+      EntityNotFoundError,
+    )
+    await expect(userRepo.restoreByPkOrFail(user.id)).resolves.toBeDefined()
+    await expect(
+      userRepo.updateByPkOrFail('missing', { name: 'Nobody' }),
+    ).rejects.toThrow(EntityNotFoundError)
+    await expect(userRepo.restoreByPkOrFail('missing')).rejects.toThrow(
+      EntityNotFoundError,
+    )
+  })
+
+  it('should throw the configured not found error', async () => {
+    const notFoundError = jest.fn(
+      ({ model, key }) => new NotFoundException(`${model} ${key} is gone`),
+    )
+    const repository = new NestlizeRepository(User, { notFoundError })
+
+    await expect(repository.findByPkOrFail('missing')).rejects.toThrow(
+      new NotFoundException('User missing is gone'),
+    )
+    expect(notFoundError).toHaveBeenCalledWith({
+      operation: 'findByPkOrFail',
+      model: 'User',
+      key: 'missing',
+    })
+  })
 })
@@ -0,0 +1,116 @@
+import { Op } from 'sequelize'
+import { Sequelize } from 'sequelize-typescript'
+import { Order } from './models/order.model'
+import { OrderRepository } from './order.repository'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { RepositoryError } from '../src/repository.errors'
+import { InMemoryRepository } from '../src/testing'
+
+let sequelize: Sequelize
+let orderRepo: OrderRepository
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new OrderRepository()
+
+  const orders = await orderRepo.insertMany([
+    { userId: 'alice', total: 10 },
+    { userId: 'alice', total: 5 },
+    { userId: 'bob', total: 3 },
+    { userId: 'bob', total: 100 },
+  ])
+  await orderRepo.deleteByPk(orders[3].id)
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('exists', () => {
+  it('checks whether any record matches', async () => {
+    expect(await orderRepo.exists({ userId: 'alice' })).toBe(true)
+    expect(await orderRepo.exists({ total: 100 })).toBe(false)
+    expect(await orderRepo.exists({ total: 100 }, { paranoid: false })).toBe(
+      true,
+    )
+  })
+})
+
+describe('sum, avg, min and max', () => {
+  it('aggregates the non-deleted records', async () => {
+    expect(await orderRepo.sum('total')).toBe(18)
+    expect(await orderRepo.avg('total', { userId: 'alice' })).toBe(7.5)
+    expect(await orderRepo.min('total')).toBe(3)
+    expect(await orderRepo.max('total')).toBe(10)
+    expect(await orderRepo.max('total', {}, { paranoid: false })).toBe(100)
+  })
+
+  it('handles empty result sets', async () => {
+    const query = { userId: 'nobody' }
+
+    expect(await orderRepo.sum('total', query)).toBe(0)
+    expect(await orderRepo.avg('total', query)).toBeNull()
+    expect(await orderRepo.min('total', query)).toBeNull()
+  })
+
+  it('maps database errors', async () => {
+    const errorMapper = jest.fn((error: RepositoryError) => error)
+    const repository = new NestlizeRepository(Order, { errorMapper })
+
+    await expect(
+      repository.sum('missing' as keyof Order & string),
+    ).rejects.toThrow(RepositoryError)
+    expect(errorMapper).toHaveBeenCalledWith(expect.any(RepositoryError), {
+      operation: 'sum',
+      model: 'Order',
+    })
+  })
+})
+
+describe('groupBy', () => {
+  it('returns one typed row per group', async () => {
+    const rows = await orderRepo.groupBy(
+      ['userId'],
+      { orders: ['count'], revenue: ['sum', 'total'], top: ['max', 'total'] },
+      { total: { [Op.gte]: 1 } },
+      { order: [['userId', 'ASC']] },
+    )
+
+    expect(rows).toEqual([
+      { userId: 'alice', orders: 2, revenue: 15, top: 10 },
+      { userId: 'bob', orders: 1, revenue: 3, top: 3 },
+    ])
+  })
+})
+
+describe('InMemoryRepository aggregation', () => {
+  it('aggregates the stored records', async () => {
+    const orders = new InMemoryRepository(Order, [
+      { userId: 'alice', total: 2 },
+      { userId: 'bob', total: 4 },
+      { userId: 'alice', total: 3 },
+    ])
+
+    expect(await orders.exists({ userId: 'bob' })).toBe(true)
+    expect(await orders.sum('total')).toBe(9)
+    expect(await orders.avg('total', { userId: 'alice' })).toBe(2.5)
+    expect(await orders.min('total')).toBe(2)
+    expect(
+      await orders.groupBy(['userId'], {
+        orders: ['count'],
+        low: ['min', 'total'],
+      }),
+    ).toEqual([
+      { userId: 'alice', orders: 2, low: 2 },
+      { userId: 'bob', orders: 1, low: 4 },
+    ])
+  })
+})
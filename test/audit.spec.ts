@@ -0,0 +1,183 @@
+import { Transaction } from 'sequelize'
+import { Sequelize } from 'sequelize-typescript'
+import { Order } from './models/order.model'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { AuditContext } from '../src/audit.context'
+import { AuditLog, AuditOperation, AuditSink } from '../src/audit.log'
+import { InMemoryRepository } from '../src/testing'
+
+let sequelize: Sequelize
+let orderRepo: NestlizeRepository<Order>
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order, AuditLog])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new NestlizeRepository(Order, { audit: {} })
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('Audit trail', () => {
+  it('records snapshots, diffs and the actor of every write', async () => {
+    const order = await AuditContext.run('alice', async () => {
+      const order = await orderRepo.create({ userId: 'audit', total: 1 })
+
+      await orderRepo.updateByPk(order.id, { total: 2 })
+      await orderRepo.deleteByPk(order.id)
+      await orderRepo.restoreByPk(order.id)
+
+      return order
+    })
+
+    const history = await orderRepo.getHistory(order.id)
+
+    expect(history.map(({ operation }) => operation)).toEqual([
+      AuditOperation.CREATE,
+      AuditOperation.UPDATE,
+      AuditOperation.DELETE,
+      AuditOperation.RESTORE,
+    ])
+    expect(history[0]).toMatchObject({
+      model: 'Order',
+      entityId: String(order.id),
+      actorId: 'alice',
+      before: null,
+      after: { userId: 'audit', total: 1 },
+    })
+    expect(history[1].diff.total).toEqual({ from: 1, to: 2 })
+    expect(history[2].after).toBeNull()
+    expect(history[3].diff.deletedAt?.to).toBeNull()
+  })
+
+  it('records one entry per record of bulk writes', async () => {
+    const [first, second] = await orderRepo.insertMany([
+      { userId: 'bulk', total: 1 },
+      { userId: 'bulk', total: 2 },
+    ])
+
+    await orderRepo.update({ userId: 'bulk' }, { total: 5 })
+    await orderRepo.updateMany([{ pk: first.id, changes: { total: 6 } }])
+    await orderRepo.delete({ userId: 'bulk' })
+    await orderRepo.restore({ userId: 'bulk' })
+
+    const history = await orderRepo.getHistory(first.id)
+
+    expect(history.map(({ operation }) => operation)).toEqual([
+      AuditOperation.CREATE,
+      AuditOperation.UPDATE,
+      AuditOperation.UPDATE,
+      AuditOperation.DELETE,
+      AuditOperation.RESTORE,
+    ])
+    expect(history[1].diff.total).toEqual({ from: 1, to: 5 })
+    expect(history[2].diff.total).toEqual({ from: 5, to: 6 })
+    expect(await orderRepo.getHistory(second.id)).toHaveLength(4)
+  })
+
+  it('writes the entries in the transaction of the change', async () => {
+    const order = await orderRepo.create({ userId: 'rollback', total: 1 })
+
+    await expect(
+      orderRepo.transaction(async () => {
+        await orderRepo.updateByPk(order.id, { total: 2 })
+        throw new Error('rollback')
+      }),
+    ).rejects.toThrow()
+
+    expect(await orderRepo.getHistory(order.id)).toHaveLength(1)
+  })
+
+  it('rolls the write back when the entry cannot be written', async () => {
+    const sink: AuditSink = {
+      write: jest.fn(async () => {
+        throw new Error('sink down')
+      }),
+      getHistory: jest.fn(async () => []),
+    }
+    const repository = new NestlizeRepository(Order, { audit: { sink } })
+    const order = await orderRepo.create({ userId: 'atomic', total: 1 })
+
+    await expect(
+      repository.create({ userId: 'atomic', total: 2 }),
+    ).rejects.toThrow()
+    await expect(
+      repository.updateByPk(order.id, { total: 3 }),
+    ).rejects.toThrow()
+    await expect(repository.delete({ userId: 'atomic' })).rejects.toThrow()
+
+    expect(
+      await Order.findAll({ where: { userId: 'atomic' }, raw: true }),
+    ).toMatchObject([{ id: order.id, total: 1, deletedAt: null }])
+  })
+
+  it('runs the writes without a transaction in their own one', async () => {
+    const options = { transaction: null }
+    const order = await orderRepo.create({ userId: 'null', total: 1 }, options)
+
+    await orderRepo.updateByPk(order.id, { total: 2 }, options)
+    await orderRepo.update({ userId: 'null' }, { total: 3 }, options)
+    await orderRepo.deleteByPk(order.id, options)
+    await orderRepo.restoreByPk(order.id, options)
+    await orderRepo.delete({ userId: 'null' }, options)
+    await orderRepo.restore({ userId: 'null' }, options)
+
+    expect(await orderRepo.getHistory(order.id)).toHaveLength(7)
+  })
+
+  it('uses a custom sink and actor resolver', async () => {
+    const sink: AuditSink = {
+      write: jest.fn(async () => undefined),
+      getHistory: jest.fn(async () => []),
+    }
+    const repository = new NestlizeRepository(Order, {
+      audit: { sink, resolver: () => 42 },
+    })
+
+    const order = await repository.create({ userId: 'sink', total: 1 })
+    await repository.getHistory(order.id)
+
+    expect(sink.write).toHaveBeenCalledWith(
+      [expect.objectContaining({ actorId: '42', entityId: String(order.id) })],
+      expect.any(Transaction),
+    )
+    expect(sink.getHistory).toHaveBeenCalledWith(
+      'Order',
+      String(order.id),
+      undefined,
+    )
+  })
+
+  it('is disabled by default', async () => {
+    const repository = new NestlizeRepository(Order)
+    const order = await repository.create({ userId: 'silent', total: 1 })
+
+    expect(await repository.getHistory(order.id)).toEqual([])
+  })
+})
+
+describe('InMemoryRepository audit trail', () => {
+  it('records the history of the stored records', async () => {
+    const orders = new InMemoryRepository(Order, [
+      { userId: 'alice', total: 1 },
+    ])
+
+    await AuditContext.run('bob', () => orders.updateByPk(1, { total: 3 }))
+
+    expect(await orders.getHistory(1)).toMatchObject([
+      {
+        operation: AuditOperation.UPDATE,
+        actorId: 'bob',
+        diff: { total: { from: 1, to: 3 } },
+      },
+    ])
+  })
+})
@@ -0,0 +1,132 @@
+import { Sequelize } from 'sequelize-typescript'
+import { Customer } from './models/customer.model'
+import { Document } from './models/document.model'
+import { Tag } from './models/tag.model'
+import { Ticket } from './models/ticket.model'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { AuditContext } from '../src/audit.context'
+import { AuditLog } from '../src/audit.log'
+import { InMemoryRepository } from '../src/testing'
+
+let sequelize: Sequelize
+let documentRepo: NestlizeRepository<Document>
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Customer, Ticket, Tag, Document, AuditLog])
+  await sequelize.sync({ force: true })
+
+  documentRepo = new NestlizeRepository(Document)
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('Base models', () => {
+  it('generates UUID and auto-increment primary keys', async () => {
+    const customer = await new NestlizeRepository(Customer).create({
+      name: 'Acme',
+    })
+    const tickets = await new NestlizeRepository(Ticket).insertMany([
+      { subject: 'First' },
+      { subject: 'Second' },
+    ])
+
+    expect(customer.id).toMatch(/^[0-9a-f-]{36}$/)
+    expect(tickets.map(({ id }) => id)).toEqual([1, 2])
+    expect(Customer.options.paranoid).toBe(true)
+  })
+
+  it('keeps timestamps without soft deletes', async () => {
+    const tagRepo = new NestlizeRepository(Tag)
+    const tag = await tagRepo.create({ label: 'urgent' })
+
+    expect(tag.createdAt).toBeInstanceOf(Date)
+    expect(Tag.options.paranoid).toBeFalsy()
+
+    await tagRepo.deleteByPk(tag.id)
+
+    expect(await Tag.count({ paranoid: false })).toBe(0)
+  })
+})
+
+describe('AuditableBaseModel', () => {
+  it('stamps the actor of creates and updates', async () => {
+    const document = await AuditContext.run('alice', () =>
+      documentRepo.create({ title: 'Draft' }),
+    )
+
+    expect(document).toMatchObject({ createdBy: 'alice', updatedBy: 'alice' })
+
+    await AuditContext.run(7, async () => {
+      await documentRepo.updateByPk(document.id, { title: 'Final' })
+      await documentRepo.update({ id: document.id }, { title: 'Signed' })
+    })
+
+    expect(await documentRepo.findByPk(document.id)).toMatchObject({
+      title: 'Signed',
+      createdBy: 'alice',
+      updatedBy: '7',
+    })
+  })
+
+  it('keeps the creator on upserts and bulk writes', async () => {
+    const [document] = await AuditContext.run('alice', () =>
+      documentRepo.insertMany([{ title: 'Bulk' }]),
+    )
+
+    await AuditContext.run('bob', async () => {
+      await documentRepo.upsert({ id: document.id, title: 'Upserted' })
+      await documentRepo.updateMany([
+        { pk: document.id, changes: { title: 'Updated' } },
+      ])
+    })
+
+    expect(await documentRepo.findByPk(document.id)).toMatchObject({
+      title: 'Updated',
+      createdBy: 'alice',
+      updatedBy: 'bob',
+    })
+  })
+
+  it('leaves the actor columns empty without an actor', async () => {
+    const document = await documentRepo.create({ title: 'Anonymous' })
+
+    expect(document.createdBy).toBeNull()
+    expect(document.updatedBy).toBeNull()
+  })
+
+  it('uses the audit resolver of the repository', async () => {
+    const repository = new NestlizeRepository(Document, {
+      audit: { resolver: () => 'system' },
+    })
+
+    const document = await repository.create({ title: 'Resolved' })
+
+    expect(document.createdBy).toBe('system')
+  })
+})
+
+describe('InMemoryRepository actor columns', () => {
+  it('stamps the actor of the stored records', async () => {
+    const documents = new InMemoryRepository(Document)
+
+    const document = await AuditContext.run('alice', () =>
+      documents.create({ title: 'Draft' }),
+    )
+    await AuditContext.run('bob', () =>
+      documents.updateByPk(document.id, { title: 'Final' }),
+    )
+
+    expect(await documents.findByPk(document.id)).toMatchObject({
+      createdBy: 'alice',
+      updatedBy: 'bob',
+    })
+  })
+})
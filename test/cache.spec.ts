@@ -0,0 +1,146 @@
+import { Op } from 'sequelize'
+import { Sequelize } from 'sequelize-typescript'
+import { Order } from './models/order.model'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { CacheStore, LruCacheStore } from '../src/cache.store'
+
+let sequelize: Sequelize
+let orderRepo: NestlizeRepository<Order>
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new NestlizeRepository(Order, { cache: {} })
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('Query cache', () => {
+  it('caches reads keyed on the query and options', async () => {
+    const order = await orderRepo.create({ userId: 'cache', total: 1 })
+    const findByPk = jest.spyOn(Order, 'findByPk')
+
+    const first = await orderRepo.findByPk(order.id)
+    const second = await orderRepo.findByPk(order.id)
+
+    const findAll = jest.spyOn(Order, 'findAll')
+    const count = jest.spyOn(Order, 'count')
+
+    await orderRepo.findAll({ total: { [Op.gte]: 1 } })
+    await orderRepo.findAll({ total: { [Op.gte]: 1 } })
+    await orderRepo.findAll({ total: { [Op.gte]: 2 } })
+    await orderRepo.count({ userId: 'cache' })
+    await orderRepo.count({ userId: 'cache' })
+
+    expect(findByPk).toHaveBeenCalledTimes(1)
+    expect(findAll).toHaveBeenCalledTimes(2)
+    expect(count).toHaveBeenCalledTimes(1)
+    expect(second).toBeInstanceOf(Order)
+    expect(second).not.toBe(first)
+    expect(second?.toJSON()).toEqual(first?.toJSON())
+  })
+
+  it('invalidates the model entries on writes', async () => {
+    const otherRepo = new NestlizeRepository(Order, { cache: {} })
+
+    expect(await orderRepo.count({ userId: 'invalidate' })).toBe(0)
+
+    const order = await otherRepo.create({ userId: 'invalidate', total: 1 })
+    expect(await orderRepo.count({ userId: 'invalidate' })).toBe(1)
+
+    await orderRepo.findByPk(order.id)
+    await orderRepo.updateByPk(order.id, { total: 2 })
+    expect((await orderRepo.findByPk(order.id))?.total).toBe(2)
+
+    await orderRepo.delete({ userId: 'invalidate' })
+    expect(await orderRepo.count({ userId: 'invalidate' })).toBe(0)
+  })
+
+  it('invalidates the model entries on writes of uncached repositories', async () => {
+    const uncachedRepo = new NestlizeRepository(Order)
+
+    expect(await orderRepo.count({ userId: 'uncached' })).toBe(0)
+
+    await uncachedRepo.create({ userId: 'uncached', total: 1 })
+    expect(await orderRepo.count({ userId: 'uncached' })).toBe(1)
+
+    await uncachedRepo.transaction(() =>
+      uncachedRepo.delete({ userId: 'uncached' }),
+    )
+    expect(await orderRepo.count({ userId: 'uncached' })).toBe(0)
+  })
+
+  it('is bypassed inside transactions and per call', async () => {
+    const findAll = jest.spyOn(Order, 'findAll')
+
+    await orderRepo.findAll({ userId: 'bypass' })
+    await orderRepo.transaction(() => orderRepo.findAll({ userId: 'bypass' }))
+    await orderRepo.findAll({ userId: 'bypass' }, { cache: false })
+    await orderRepo.findAll({ userId: 'bypass' })
+
+    expect(findAll).toHaveBeenCalledTimes(3)
+  })
+
+  it('uses the configured store and TTL', async () => {
+    const entries = new Map<string, unknown>()
+    const store: CacheStore = {
+      get: jest.fn(async (key) => entries.get(key) as any),
+      set: jest.fn(async (key, value) => {
+        entries.set(key, value)
+      }),
+      delete: jest.fn(async (key) => {
+        entries.delete(key)
+      }),
+    }
+    const storeRepo = new NestlizeRepository(Order, {
+      cache: { store, ttl: 5000 },
+    })
+
+    await storeRepo.findOne({ userId: 'store' })
+
+    expect(store.set).toHaveBeenLastCalledWith(
+      expect.any(String),
+      { value: null },
+      5000,
+    )
+  })
+})
+
+describe('LruCacheStore', () => {
+  it('evicts the least recently used entries', async () => {
+    const store = new LruCacheStore(2)
+
+    await store.set('a', 1)
+    await store.set('b', 2)
+    await store.get('a')
+    await store.set('c', 3)
+
+    expect(await store.get('a')).toBe(1)
+    expect(await store.get('b')).toBeUndefined()
+    expect(await store.get('c')).toBe(3)
+  })
+
+  it('expires entries after their TTL', async () => {
+    const store = new LruCacheStore()
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0)
+
+    await store.set('a', 1, 100)
+    now.mockReturnValue(99)
+    expect(await store.get('a')).toBe(1)
+    now.mockReturnValue(100)
+    expect(await store.get('a')).toBeUndefined()
+  })
+})
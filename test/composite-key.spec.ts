@@ -0,0 +1,147 @@
+import { Sequelize } from 'sequelize-typescript'
+import { UserRole } from './models/user-role.model'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { AuditLog, AuditOperation } from '../src/audit.log'
+import {
+  EntityNotFoundError,
+  InvalidQueryError,
+} from '../src/repository.errors'
+import { InMemoryRepository } from '../src/testing'
+
+let sequelize: Sequelize
+let userRoleRepo: NestlizeRepository<UserRole>
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([UserRole, AuditLog])
+  await sequelize.sync({ force: true })
+
+  userRoleRepo = new NestlizeRepository(UserRole, { audit: {} })
+})
+
+beforeEach(async () => {
+  await UserRole.destroy({ where: {}, force: true })
+  await AuditLog.destroy({ where: {} })
+  await userRoleRepo.insertMany([
+    { userId: 'alice', roleId: 'admin', scope: 'all' },
+    { userId: 'alice', roleId: 'editor', scope: 'blog' },
+    { userId: 'bob', roleId: 'admin', scope: 'billing' },
+  ])
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('Composite primary keys', () => {
+  it('finds, updates, deletes and restores by a key object', async () => {
+    const key = { userId: 'alice', roleId: 'editor' }
+
+    expect((await userRoleRepo.findByPk(key))?.scope).toBe('blog')
+    expect((await userRoleRepo.updateByPk(key, { scope: 'docs' }))?.scope).toBe(
+      'docs',
+    )
+
+    await userRoleRepo.deleteByPk(key)
+    expect(await userRoleRepo.findByPk(key)).toBeNull()
+    expect(await userRoleRepo.isDeleted(key)).toBe(true)
+
+    await userRoleRepo.restoreByPk(key)
+    expect(await userRoleRepo.findByPkOrFail(key)).toMatchObject({
+      userId: 'alice',
+      roleId: 'editor',
+      scope: 'docs',
+    })
+    expect(await userRoleRepo.count({ roleId: 'admin' })).toBe(2)
+  })
+
+  it('records the history under the key values', async () => {
+    const key = { userId: 'bob', roleId: 'admin' }
+
+    await userRoleRepo.updateByPk(key, { scope: 'all' })
+
+    expect(await userRoleRepo.getHistory(key)).toMatchObject([
+      { operation: AuditOperation.CREATE, entityId: '["bob","admin"]' },
+      { operation: AuditOperation.UPDATE, diff: { scope: { to: 'all' } } },
+    ])
+  })
+
+  it('rejects scalar and incomplete keys', async () => {
+    await expect(userRoleRepo.findByPk('alice')).rejects.toThrow(
+      InvalidQueryError,
+    )
+    await expect(userRoleRepo.deleteByPk({ userId: 'alice' })).rejects.toThrow(
+      InvalidQueryError,
+    )
+    await expect(
+      userRoleRepo.findByPkOrFail({ userId: 'carol', roleId: 'admin' }),
+    ).rejects.toThrow(
+      new EntityNotFoundError('UserRole', { userId: 'carol', roleId: 'admin' }),
+    )
+  })
+})
+
+describe('findManyByPks and deleteManyByPks', () => {
+  it('finds the records in the order of the keys', async () => {
+    const roles = await userRoleRepo.findManyByPks([
+      { userId: 'bob', roleId: 'admin' },
+      { userId: 'carol', roleId: 'admin' },
+      { userId: 'alice', roleId: 'admin' },
+      { userId: 'bob', roleId: 'admin' },
+    ])
+
+    expect(roles.map(({ userId, roleId }) => [userId, roleId])).toEqual([
+      ['bob', 'admin'],
+      ['alice', 'admin'],
+    ])
+    expect(await userRoleRepo.findManyByPks([])).toEqual([])
+  })
+
+  it('deletes the records of the keys', async () => {
+    const keys = [
+      { userId: 'alice', roleId: 'admin' },
+      { userId: 'bob', roleId: 'admin' },
+    ]
+
+    expect(await userRoleRepo.deleteManyByPks(keys)).toBe(2)
+    expect(await userRoleRepo.findManyByPks(keys)).toEqual([])
+    expect(await userRoleRepo.countDeleted()).toBe(2)
+    expect(await userRoleRepo.deleteManyByPks([])).toBe(0)
+  })
+
+  it('accepts scalar keys for single-column primary keys', async () => {
+    const [first, second] = await AuditLog.findAll({ order: [['id', 'ASC']] })
+    const auditLogs = await new NestlizeRepository(AuditLog).findManyByPks([
+      second.id,
+      first.id,
+    ])
+
+    expect(auditLogs.map(({ id }) => id)).toEqual([second.id, first.id])
+  })
+})
+
+describe('InMemoryRepository composite primary keys', () => {
+  it('resolves key objects against the primary key attributes', async () => {
+    const userRoles = new InMemoryRepository(UserRole, [
+      { userId: 'alice', roleId: 'admin' },
+      { userId: 'alice', roleId: 'editor' },
+    ])
+    const key = { userId: 'alice', roleId: 'editor' }
+
+    await userRoles.updateByPk(key, { scope: 'blog' })
+
+    expect((await userRoles.findByPk(key))?.scope).toBe('blog')
+    expect(
+      (await userRoles.findManyByPks([key, { userId: 'bob', roleId: 'x' }]))
+        .length,
+    ).toBe(1)
+    expect(await userRoles.deleteManyByPks([key])).toBe(1)
+    expect(await userRoles.isDeleted(key)).toBe(true)
+    await expect(userRoles.findByPk('alice')).rejects.toThrow(InvalidQueryError)
+  })
+})
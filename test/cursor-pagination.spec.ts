@@ -0,0 +1,271 @@
+import { createHmac } from 'node:crypto'
+import { Sequelize } from 'sequelize-typescript'
+import { Order } from './models/order.model'
+import { OrderRepository } from './order.repository'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { buildKeysetWhere, CursorDirection } from '../src/cursor'
+import { InvalidQueryError } from '../src/repository.errors'
+import { matchesWhere } from '../src/testing/where.matcher'
+
+let sequelize: Sequelize
+let orderRepo: OrderRepository
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new OrderRepository()
+  await orderRepo.insertMany(
+    [5, 3, 5, 1, 4, 2, 5].map((total) => ({ userId: 'cursor', total })),
+  )
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('findAllByCursor', () => {
+  const orderBy: [keyof Order & string, 'ASC' | 'DESC'][] = [
+    ['total', 'DESC'],
+    ['id', 'ASC'],
+  ]
+
+  it('pages forward through the sort columns', async () => {
+    const first = await orderRepo.findAllByCursor({ orderBy, limit: 3 })
+
+    expect(first.rows.map((order) => order.id)).toEqual([1, 3, 7])
+    expect(first.hasNextPage).toBe(true)
+    expect(first.hasPreviousPage).toBe(false)
+
+    const second = await orderRepo.findAllByCursor({
+      orderBy,
+      limit: 3,
+      after: first.endCursor!,
+    })
+
+    expect(second.rows.map((order) => order.id)).toEqual([5, 2, 6])
+    expect(second.hasNextPage).toBe(true)
+    expect(second.hasPreviousPage).toBe(true)
+
+    const last = await orderRepo.findAllByCursor({
+      orderBy,
+      limit: 3,
+      after: second.endCursor!,
+    })
+
+    expect(last.rows.map((order) => order.id)).toEqual([4])
+    expect(last.hasNextPage).toBe(false)
+  })
+
+  it('pages backward from a cursor', async () => {
+    const all = await orderRepo.findAllByCursor({ orderBy, limit: 7 })
+    const previous = await orderRepo.findAllByCursor({
+      orderBy,
+      limit: 2,
+      before: orderRepo['encodeCursor'](all.rows[4], orderBy),
+    })
+
+    expect(previous.rows.map((order) => order.id)).toEqual([7, 5])
+    expect(previous.hasPreviousPage).toBe(true)
+    expect(previous.hasNextPage).toBe(true)
+    expect(previous.startCursor).toBe(
+      orderRepo['encodeCursor'](all.rows[2], orderBy),
+    )
+  })
+
+  it('pages by date columns', async () => {
+    const first = await orderRepo.findAllByCursor({
+      orderBy: [
+        ['createdAt', 'DESC'],
+        ['id', 'DESC'],
+      ],
+      limit: 4,
+    })
+    const next = await orderRepo.findAllByCursor({
+      orderBy: [
+        ['createdAt', 'DESC'],
+        ['id', 'DESC'],
+      ],
+      limit: 4,
+      after: first.endCursor!,
+    })
+
+    expect([...first.rows, ...next.rows].map((order) => order.id)).toEqual([
+      7, 6, 5, 4, 3, 2, 1,
+    ])
+  })
+
+  it('combines the cursor with the query', async () => {
+    const page = await orderRepo.findAllByCursor({
+      orderBy,
+      limit: 10,
+      query: { total: 5 },
+    })
+
+    expect(page.rows).toHaveLength(3)
+    expect(page.hasNextPage).toBe(false)
+  })
+
+  it('returns empty cursors for an empty page', async () => {
+    const page = await orderRepo.findAllByCursor({
+      orderBy,
+      query: { userId: 'nobody' },
+    })
+
+    expect(page.rows).toEqual([])
+    expect(page.startCursor).toBeNull()
+    expect(page.endCursor).toBeNull()
+  })
+
+  it('rejects tampered cursors', async () => {
+    const { endCursor } = await orderRepo.findAllByCursor({ orderBy, limit: 1 })
+    const [payload, signature] = endCursor!.split('.')
+    const forged = Buffer.from(
+      JSON.stringify({ order: 'total:DESC,id:ASC', values: [0, 0] }),
+    ).toString('base64url')
+
+    await expect(
+      orderRepo.findAllByCursor({ orderBy, after: `${forged}.${signature}` }),
+    ).rejects.toThrow(InvalidQueryError)
+    await expect(
+      orderRepo.findAllByCursor({ orderBy, after: payload }),
+    ).rejects.toThrow(InvalidQueryError)
+    await expect(
+      orderRepo.findAllByCursor({ orderBy, after: 'not-a-cursor' }),
+    ).rejects.toThrow(InvalidQueryError)
+  })
+
+  it('signs the cursors with a random secret by default', async () => {
+    const payload = Buffer.from(
+      JSON.stringify({ order: 'total:DESC,id:ASC', values: [0, 0] }),
+    ).toString('base64url')
+    const signature = createHmac('sha256', Order.name)
+      .update(payload)
+      .digest('base64url')
+
+    await expect(
+      orderRepo.findAllByCursor({ orderBy, after: `${payload}.${signature}` }),
+    ).rejects.toThrow(InvalidQueryError)
+  })
+
+  it('accepts the cursors of repositories sharing the cursorSecret', async () => {
+    const signing = new NestlizeRepository(Order, { cursorSecret: 'shared' })
+    const sharing = new NestlizeRepository(Order, { cursorSecret: 'shared' })
+    const { endCursor } = await signing.findAllByCursor({ orderBy, limit: 3 })
+
+    const next = await sharing.findAllByCursor({
+      orderBy,
+      after: endCursor!,
+      limit: 1,
+    })
+
+    expect(next.rows.map((order) => order.id)).toEqual([5])
+    await expect(
+      orderRepo.findAllByCursor({ orderBy, after: endCursor! }),
+    ).rejects.toThrow(InvalidQueryError)
+  })
+
+  it('rejects cursors created for another sort order', async () => {
+    const { endCursor } = await orderRepo.findAllByCursor({ orderBy, limit: 1 })
+
+    await expect(
+      orderRepo.findAllByCursor({
+        orderBy: [['id', 'ASC']],
+        after: endCursor!,
+      }),
+    ).rejects.toThrow(InvalidQueryError)
+  })
+
+  it('pages through NULL values of the sort columns', async () => {
+    await Order.bulkCreate(
+      [null, 2, null, 1, null, 3].map((total) => ({
+        userId: 'nulls',
+        total: total as number,
+      })),
+    )
+    const nullsOrderBy: [keyof Order & string, 'ASC' | 'DESC'][] = [
+      ['total', 'ASC'],
+      ['id', 'ASC'],
+    ]
+    const pages: (number | null)[][] = []
+    let after: string | undefined
+
+    do {
+      const page = await orderRepo.findAllByCursor({
+        orderBy: nullsOrderBy,
+        query: { userId: 'nulls' },
+        limit: 2,
+        after,
+      })
+
+      pages.push(page.rows.map(({ total }) => total))
+      after = page.hasNextPage ? page.endCursor! : undefined
+    } while (after)
+
+    expect(pages).toEqual([
+      [null, null],
+      [null, 1],
+      [2, 3],
+    ])
+
+    await Order.destroy({ where: { userId: 'nulls' }, force: true })
+  })
+
+  it('validates the options', async () => {
+    await expect(
+      orderRepo.findAllByCursor({ orderBy: [], limit: 1 }),
+    ).rejects.toThrow(InvalidQueryError)
+    await expect(
+      orderRepo.findAllByCursor({ orderBy, limit: 0 }),
+    ).rejects.toThrow(InvalidQueryError)
+    await expect(
+      orderRepo.findAllByCursor({ orderBy, after: 'a', before: 'b' }),
+    ).rejects.toThrow(InvalidQueryError)
+  })
+})
+
+describe('buildKeysetWhere', () => {
+  const rows = [null, 2, null, 1, 3].map((value, index) => ({
+    id: index + 1,
+    value,
+  }))
+
+  it.each<[CursorDirection, boolean]>([
+    ['ASC', false],
+    ['DESC', false],
+    ['ASC', true],
+    ['DESC', true],
+  ])(
+    'matches the rows after each row sorted %s with largest NULLs %s',
+    (direction, nullsLargest) => {
+      const sign = direction === 'ASC' ? 1 : -1
+      const rank = (value: number | null) =>
+        value === null ? (nullsLargest ? Infinity : -Infinity) : value
+      const sorted = [...rows].sort(
+        (a, b) => sign * (rank(a.value) - rank(b.value)) || a.id - b.id,
+      )
+      const orderBy: [string, CursorDirection][] = [
+        ['value', direction],
+        ['id', 'ASC'],
+      ]
+
+      sorted.forEach((row, index) => {
+        const where = buildKeysetWhere(
+          orderBy,
+          [row.value, row.id],
+          nullsLargest,
+        )
+
+        expect(sorted.filter((other) => matchesWhere(other, where))).toEqual(
+          sorted.slice(index + 1),
+        )
+      })
+    },
+  )
+})
@@ -0,0 +1,184 @@
+import 'reflect-metadata'
+import { Injectable } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { Op } from 'sequelize'
+import { User } from './models/user.model'
+import { Order } from './models/order.model'
+import { InjectRepository, IRepository, Specification } from '../src/index'
+import {
+  createTestingRepositoryProvider,
+  InMemoryRepository,
+} from '../src/testing'
+import {
+  DuplicateEntityError,
+  EntityNotFoundError,
+  RepositoryError,
+} from '../src/repository.errors'
+
+let orderRepo: InMemoryRepository<Order>
+
+beforeEach(() => {
+  orderRepo = new InMemoryRepository(Order, [
+    { userId: 'alice', total: 10 },
+    { userId: 'alice', total: 50 },
+    { userId: 'bob', total: 30 },
+  ])
+})
+
+@Injectable()
+class UserService {
+  constructor(@InjectRepository(User) readonly users: IRepository<User>) {}
+}
+
+describe('InMemoryRepository', () => {
+  it('creates records with defaults and timestamps', async () => {
+    const users = new InMemoryRepository(User)
+
+    const user = await users.create({ name: 'Alice', email: 'a@example.com' })
+    const order = await orderRepo.create({ userId: 'carol', total: 5 })
+
+    expect(user).toBeInstanceOf(User)
+    expect(user.id).toMatch(/^[0-9a-f-]{36}$/)
+    expect(user.unique_field).toBeNull()
+    expect(user.createdAt).toBeInstanceOf(Date)
+    expect(user.deletedAt).toBeNull()
+    expect(order.id).toBe(4)
+    expect(order.toJSON()).toMatchObject({ userId: 'carol', total: 5 })
+  })
+
+  it('finds records with where operators and order', async () => {
+    const orders = await orderRepo.findAll(
+      {
+        total: { [Op.gte]: 20 },
+        [Op.or]: [{ userId: { [Op.like]: 'al%' } }, { userId: ['bob'] }],
+      },
+      { order: [['total', 'DESC']], attributes: ['userId', 'total'] },
+    )
+
+    expect(orders.map((order) => order.total)).toEqual([50, 30])
+    expect(orders[0].id).toBeUndefined()
+    expect(await orderRepo.count({ total: { [Op.between]: [10, 30] } })).toBe(2)
+    expect(
+      await orderRepo.findOne({ userId: { [Op.not]: 'alice' } }),
+    ).toMatchObject({ userId: 'bob' })
+  })
+
+  it('accepts specifications and the query builder', async () => {
+    const alice = Specification.where<Order>({ userId: 'alice' })
+
+    expect(await orderRepo.count(alice.not())).toBe(1)
+    expect(
+      await orderRepo
+        .query()
+        .where('total', Op.lt, 40)
+        .orderBy('total', 'DESC')
+        .getMany(),
+    ).toMatchObject([{ total: 30 }, { total: 10 }])
+  })
+
+  it('updates records by primary key', async () => {
+    const order = await orderRepo.updateByPk(1, { total: 15 })
+
+    expect(order?.total).toBe(15)
+    expect((await orderRepo.findByPk(1))?.total).toBe(15)
+    expect(await orderRepo.updateByPk(99, { total: 1 })).toBeNull()
+    await expect(orderRepo.updateByPkOrFail(99, { total: 1 })).rejects.toThrow(
+      EntityNotFoundError,
+    )
+  })
+
+  it('soft deletes and restores paranoid records', async () => {
+    expect(await orderRepo.delete({ userId: 'alice' })).toBe(2)
+    expect(await orderRepo.findAll()).toHaveLength(1)
+    expect(await orderRepo.findAll({}, { paranoid: false })).toHaveLength(3)
+
+    await orderRepo.restore({ userId: 'alice' })
+    expect(await orderRepo.count()).toBe(3)
+
+    const deleted = await orderRepo.deleteByPk(3)
+    expect(deleted?.deletedAt).toBeInstanceOf(Date)
+    expect(await orderRepo.findByPk(3)).toBeNull()
+
+    await orderRepo.restoreByPkOrFail(3)
+    expect(await orderRepo.findByPk(3)).not.toBeNull()
+
+    await orderRepo.deleteByPk(3, { force: true })
+    expect(await orderRepo.findByPk(3, { paranoid: false })).toBeNull()
+  })
+
+  it('paginates records', async () => {
+    const page = await orderRepo.findAllPaginated({
+      page: 2,
+      limit: 2,
+      findOptions: { order: [['total', 'ASC']] },
+    })
+
+    expect(page).toMatchObject({
+      count: 3,
+      currentPage: 2,
+      totalPages: 2,
+      hasNext: false,
+      hasPrev: true,
+    })
+    expect(page.rows.map((order) => order.total)).toEqual([50])
+
+    const first = await orderRepo.findAllByCursor({
+      orderBy: [['total', 'DESC']],
+      limit: 2,
+    })
+    const second = await orderRepo.findAllByCursor({
+      orderBy: [['total', 'DESC']],
+      limit: 2,
+      after: first.endCursor!,
+    })
+
+    expect(first.rows.map((order) => order.total)).toEqual([50, 30])
+    expect(second.rows.map((order) => order.total)).toEqual([10])
+    expect(second.hasNextPage).toBe(false)
+  })
+
+  it('rejects duplicate unique values', async () => {
+    const users = new InMemoryRepository(User, [
+      { name: 'Alice', email: 'a@example.com', unique_field: 'alice' },
+    ])
+
+    await expect(
+      users.create({
+        name: 'Bob',
+        email: 'b@example.com',
+        unique_field: 'alice',
+      }),
+    ).rejects.toThrow(DuplicateEntityError)
+  })
+
+  it('rolls back changes of a failed transaction', async () => {
+    await expect(
+      orderRepo.transaction(async () => {
+        await orderRepo.create({ userId: 'dave', total: 1 })
+        await orderRepo.delete({ userId: 'alice' })
+        throw new Error('rollback')
+      }),
+    ).rejects.toThrow(RepositoryError)
+
+    expect(await orderRepo.count()).toBe(3)
+    expect(await orderRepo.count({ userId: 'dave' })).toBe(0)
+  })
+
+  it('overrides the repository provider in a testing module', async () => {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        UserService,
+        createTestingRepositoryProvider(User, [
+          { name: 'Alice', email: 'a@example.com' },
+        ]),
+      ],
+    }).compile()
+
+    const service = moduleRef.get(UserService)
+
+    expect(service.users).toBeInstanceOf(InMemoryRepository)
+    expect(await service.users.findOne({ name: 'Alice' })).toMatchObject({
+      email: 'a@example.com',
+    })
+  })
+})
@@ -0,0 +1,207 @@
+import { Op } from 'sequelize'
+import { Sequelize } from 'sequelize-typescript'
+import { Order } from './models/order.model'
+import { User } from './models/user.model'
+import { UserRole } from './models/user-role.model'
+import { OrderRepository } from './order.repository'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { InvalidQueryError } from '../src/repository.errors'
+import { InMemoryRepository } from '../src/testing'
+
+let sequelize: Sequelize
+let orderRepo: OrderRepository
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order, User, UserRole])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new OrderRepository()
+
+  const orders = await orderRepo.insertMany(
+    [5, 3, 5, 1, 4, 2, 5].map((total) => ({ userId: 'export', total })),
+  )
+  await orderRepo.deleteByPk(orders[1].id)
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = []
+
+  for await (const item of iterable) {
+    items.push(item)
+  }
+
+  return items
+}
+
+describe('iterate', () => {
+  it('loads records in keyset batches', async () => {
+    const findAll = jest.spyOn(Order, 'findAll')
+
+    const orders = await collect(
+      orderRepo.iterate({ userId: 'export' }, { batchSize: 2 }),
+    )
+
+    expect(orders.map(({ id }) => id)).toEqual([1, 3, 4, 5, 6, 7])
+    expect(findAll).toHaveBeenCalledTimes(4)
+    expect(findAll).toHaveBeenLastCalledWith(
+      expect.objectContaining({ limit: 2 }),
+    )
+  })
+
+  it('orders by the orderBy columns and the primary key', async () => {
+    const orders = await collect(
+      orderRepo.iterate(
+        { total: { [Op.gte]: 2 } },
+        { batchSize: 2, orderBy: [['total', 'DESC']], paranoid: false },
+      ),
+    )
+
+    expect(orders.map(({ id, total }) => [total, id])).toEqual([
+      [5, 1],
+      [5, 3],
+      [5, 7],
+      [4, 5],
+      [3, 2],
+      [2, 6],
+    ])
+  })
+
+  it('breaks ties on every column of a composite primary key', async () => {
+    const keys = ['alice', 'bob'].flatMap((userId) =>
+      ['admin', 'editor', 'viewer'].map((roleId) => `${userId}:${roleId}`),
+    )
+    await UserRole.bulkCreate(
+      keys.map((key) => {
+        const [userId, roleId] = key.split(':')
+
+        return { userId, roleId }
+      }),
+    )
+
+    const roles = await collect(
+      new NestlizeRepository(UserRole).iterate({}, { batchSize: 2 }),
+    )
+
+    expect(roles.map(({ userId, roleId }) => `${userId}:${roleId}`)).toEqual(
+      keys,
+    )
+  })
+
+  it('iterates over NULL values of the orderBy columns', async () => {
+    const userRepo = new NestlizeRepository(User)
+    await userRepo.insertMany(
+      ['b', null, 'a', null, 'c', null].map((unique_field, index) => ({
+        name: `user ${index}`,
+        email: `user${index}@example.com`,
+        unique_field: unique_field ?? undefined,
+      })),
+    )
+
+    const ascending = await collect(
+      userRepo.iterate(
+        {},
+        { batchSize: 2, orderBy: [['unique_field', 'ASC']] },
+      ),
+    )
+    const descending = await collect(
+      userRepo.iterate(
+        {},
+        { batchSize: 2, orderBy: [['unique_field', 'DESC']] },
+      ),
+    )
+
+    expect(ascending.map(({ unique_field }) => unique_field)).toEqual([
+      null,
+      null,
+      null,
+      'a',
+      'b',
+      'c',
+    ])
+    expect(descending.map(({ unique_field }) => unique_field)).toEqual([
+      'c',
+      'b',
+      'a',
+      null,
+      null,
+      null,
+    ])
+  })
+
+  it('runs the batches in the active transaction', async () => {
+    const findAll = jest.spyOn(Order, 'findAll')
+
+    await orderRepo.transaction(async (transaction) => {
+      await collect(orderRepo.iterate({}, { batchSize: 4 }))
+
+      expect(findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ transaction }),
+      )
+    })
+  })
+
+  it('rejects invalid batch sizes', () => {
+    expect(() => orderRepo.iterate({}, { batchSize: 0 })).toThrow(
+      InvalidQueryError,
+    )
+  })
+})
+
+describe('findEach', () => {
+  it('calls the handler for every record', async () => {
+    const totals: number[] = []
+
+    await orderRepo.findEach(
+      { total: 5 },
+      { batchSize: 1 },
+      async ({ total }) => {
+        totals.push(total)
+      },
+    )
+
+    expect(totals).toEqual([5, 5, 5])
+  })
+})
+
+describe('stream', () => {
+  it('streams the records in object mode', async () => {
+    const stream = orderRepo.stream({ userId: 'export' }, { batchSize: 4 })
+
+    const orders = await collect<Order>(stream)
+
+    expect(orders).toHaveLength(6)
+    expect(orders[0]).toBeInstanceOf(Order)
+  })
+})
+
+describe('InMemoryRepository iteration', () => {
+  it('iterates and streams the records', async () => {
+    const orders = new InMemoryRepository(Order, [
+      { userId: 'alice', total: 2 },
+      { userId: 'alice', total: 1 },
+      { userId: 'bob', total: 3 },
+    ])
+
+    const iterated = await collect(
+      orders.iterate({ userId: 'alice' }, { orderBy: [['total', 'ASC']] }),
+    )
+    const streamed = await collect<Order>(orders.stream())
+
+    expect(iterated.map(({ total }) => total)).toEqual([1, 2])
+    expect(streamed.map(({ id }) => id)).toEqual([1, 2, 3])
+  })
+})
@@ -0,0 +1,149 @@
+import { DatabaseError, Op } from 'sequelize'
+import { Sequelize } from 'sequelize-typescript'
+import { Order } from './models/order.model'
+import { OrderRepository } from './order.repository'
+import { InMemoryRepository } from '../src/testing'
+import {
+  LockNotAvailableError,
+  toRepositoryError,
+  TransactionRequiredError,
+  UnsupportedDialectError,
+} from '../src/repository.errors'
+
+let sequelize: Sequelize
+let orderRepo: OrderRepository
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new OrderRepository()
+
+  await orderRepo.insertMany([
+    { userId: 'queue', total: 3 },
+    { userId: 'queue', total: 1 },
+    { userId: 'queue', total: 2 },
+  ])
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('Row locking', () => {
+  it('fails on dialects without row locks', async () => {
+    await expect(
+      orderRepo.transaction(() => orderRepo.findByPkForUpdate(1)),
+    ).rejects.toThrow(UnsupportedDialectError)
+    await expect(orderRepo.claimNext({ userId: 'queue' })).rejects.toThrow(
+      'Row locking is not supported by the sqlite dialect',
+    )
+  })
+
+  describe('on a dialect with row locks', () => {
+    beforeEach(() => {
+      jest.spyOn(sequelize, 'getDialect').mockReturnValue('postgres')
+    })
+
+    it('requires a transaction', async () => {
+      await expect(orderRepo.findByPkForUpdate(1)).rejects.toThrow(
+        TransactionRequiredError,
+      )
+      await expect(orderRepo.findAllForUpdate()).rejects.toThrow(
+        'findAllForUpdate must run inside a transaction',
+      )
+    })
+
+    it('joins the active transaction', async () => {
+      const [order, orders] = await orderRepo.transaction(() =>
+        Promise.all([
+          orderRepo.findByPkForUpdate(1),
+          orderRepo.findAllForUpdate(
+            { total: { [Op.gte]: 2 } },
+            { skipLocked: true },
+          ),
+        ]),
+      )
+
+      expect(order?.total).toBe(3)
+      expect(orders.map(({ id }) => id)).toEqual([1, 3])
+    })
+
+    it('claims the next records in primary key order', async () => {
+      const findAll = jest.spyOn(Order, 'findAll')
+
+      const claimed = await orderRepo.transaction(() =>
+        orderRepo.claimNext({ userId: 'queue' }, 2),
+      )
+
+      expect(claimed.map(({ id }) => id)).toEqual([1, 2])
+      expect(findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ lock: 'UPDATE', skipLocked: true }),
+      )
+    })
+
+    it('rejects noWait, which Sequelize can not emit', async () => {
+      const findAll = jest.spyOn(Order, 'findAll')
+
+      await expect(
+        orderRepo.transaction(() =>
+          orderRepo.findAllForUpdate({}, { noWait: true }),
+        ),
+      ).rejects.toThrow(UnsupportedDialectError)
+      expect(findAll).not.toHaveBeenCalled()
+    })
+
+    it('maps unavailable locks to LockNotAvailableError', () => {
+      const error = new DatabaseError(
+        Object.assign(new Error('could not obtain lock'), {
+          code: '55P03',
+          sql: '',
+        }),
+      )
+
+      expect(toRepositoryError(error)).toBeInstanceOf(LockNotAvailableError)
+      expect(toRepositoryError(error)).toMatchObject({ status: 409 })
+    })
+
+    it('rejects lock modes the dialect does not support', async () => {
+      jest.spyOn(sequelize, 'getDialect').mockReturnValue('mysql')
+
+      await expect(
+        orderRepo.transaction(() =>
+          orderRepo.findAllForUpdate({}, { skipLocked: true }),
+        ),
+      ).rejects.toThrow('SKIP LOCKED is not supported by the mysql dialect')
+      await expect(
+        orderRepo.transaction(() =>
+          orderRepo.findByPkForUpdate(1, { noWait: true }),
+        ),
+      ).rejects.toThrow('NOWAIT is not supported by the mysql dialect')
+    })
+  })
+})
+
+describe('InMemoryRepository locking', () => {
+  it('finds records inside a transaction', async () => {
+    const orders = new InMemoryRepository(Order, [
+      { userId: 'queue', total: 2 },
+      { userId: 'queue', total: 1 },
+    ])
+
+    await expect(orders.claimNext()).rejects.toThrow(TransactionRequiredError)
+    expect(
+      await orders.transaction(() =>
+        orders.claimNext({}, 1, { order: [['total', 'ASC']] }),
+      ),
+    ).toMatchObject([{ total: 1 }])
+  })
+})
@@ -0,0 +1,23 @@
+import {
+  Table,
+  Column,
+  PrimaryKey,
+  AutoIncrement,
+  DataType,
+} from 'sequelize-typescript'
+import { BaseModel } from '../../src/base.model'
+
+interface ArticleCreationAttributes {
+  title: string
+}
+
+@Table({ paranoid: true, version: true })
+export class Article extends BaseModel<Article, ArticleCreationAttributes> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @Column
+  declare title: string
+}
@@ -0,0 +1,28 @@
+import {
+  Table,
+  Column,
+  PrimaryKey,
+  AutoIncrement,
+  DataType,
+  HasMany,
+} from 'sequelize-typescript'
+import { BaseModel } from '../../src/base.model'
+import { Book } from './book.model'
+
+interface AuthorCreationAttributes {
+  name: string
+}
+
+@Table({ paranoid: true })
+export class Author extends BaseModel<Author, AuthorCreationAttributes> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @Column
+  declare name: string
+
+  @HasMany(() => Book)
+  declare books?: Book[]
+}
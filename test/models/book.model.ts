@@ -0,0 +1,34 @@
+import {
+  Table,
+  Column,
+  PrimaryKey,
+  AutoIncrement,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript'
+import { BaseModel } from '../../src/base.model'
+import { Author } from './author.model'
+
+interface BookCreationAttributes {
+  authorId: number
+  title: string
+}
+
+@Table({ paranoid: true })
+export class Book extends BaseModel<Book, BookCreationAttributes> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @ForeignKey(() => Author)
+  @Column(DataType.INTEGER)
+  declare authorId: number
+
+  @Column
+  declare title: string
+
+  @BelongsTo(() => Author)
+  declare author?: Author
+}
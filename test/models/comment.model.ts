@@ -0,0 +1,34 @@
+import {
+  Table,
+  Column,
+  PrimaryKey,
+  AutoIncrement,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript'
+import { BaseModel } from '../../src/base.model'
+import { Post } from './post.model'
+
+interface CommentCreationAttributes {
+  postId: number
+  body: string
+}
+
+@Table
+export class Comment extends BaseModel<Comment, CommentCreationAttributes> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @ForeignKey(() => Post)
+  @Column(DataType.INTEGER)
+  declare postId: number
+
+  @Column
+  declare body: string
+
+  @BelongsTo(() => Post)
+  declare post?: Post
+}
@@ -0,0 +1,15 @@
+import { Table, Column } from 'sequelize-typescript'
+import { UuidBaseModel } from '../../src/base.model'
+
+interface CustomerCreationAttributes {
+  name: string
+}
+
+@Table({ paranoid: true })
+export class Customer extends UuidBaseModel<
+  Customer,
+  CustomerCreationAttributes
+> {
+  @Column
+  declare name: string
+}
@@ -0,0 +1,27 @@
+import {
+  Table,
+  Column,
+  PrimaryKey,
+  AutoIncrement,
+  DataType,
+} from 'sequelize-typescript'
+import { AuditableBaseModel } from '../../src/base.model'
+
+interface DocumentCreationAttributes {
+  id?: number
+  title: string
+}
+
+@Table({ paranoid: true })
+export class Document extends AuditableBaseModel<
+  Document,
+  DocumentCreationAttributes
+> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @Column
+  declare title: string
+}
@@ -0,0 +1,27 @@
+import {
+  Table,
+  Column,
+  PrimaryKey,
+  AutoIncrement,
+  DataType,
+} from 'sequelize-typescript'
+import { BaseModel } from '../../src/base.model'
+
+interface OrderCreationAttributes {
+  userId: string
+  total: number
+}
+
+@Table({ paranoid: true })
+export class Order extends BaseModel<Order, OrderCreationAttributes> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @Column
+  declare userId: string
+
+  @Column(DataType.INTEGER)
+  declare total: number
+}
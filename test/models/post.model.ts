@@ -0,0 +1,32 @@
+import {
+  Table,
+  Column,
+  PrimaryKey,
+  AutoIncrement,
+  DataType,
+  HasMany,
+} from 'sequelize-typescript'
+import { BaseModel } from '../../src/base.model'
+import { Comment } from './comment.model'
+
+interface PostCreationAttributes {
+  title: string
+  views?: number
+}
+
+@Table
+export class Post extends BaseModel<Post, PostCreationAttributes> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @Column
+  declare title: string
+
+  @Column({ type: DataType.INTEGER, defaultValue: 0 })
+  declare views: number
+
+  @HasMany(() => Comment)
+  declare comments?: Comment[]
+}
@@ -0,0 +1,27 @@
+import {
+  Table,
+  Column,
+  PrimaryKey,
+  AutoIncrement,
+  DataType,
+} from 'sequelize-typescript'
+import { BaseModel } from '../../src/base.model'
+
+interface ProjectCreationAttributes {
+  name: string
+  tenantId?: string
+}
+
+@Table({ paranoid: true })
+export class Project extends BaseModel<Project, ProjectCreationAttributes> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @Column
+  declare name: string
+
+  @Column
+  declare tenantId: string
+}
@@ -0,0 +1,23 @@
+import {
+  Table,
+  Column,
+  PrimaryKey,
+  AutoIncrement,
+  DataType,
+} from 'sequelize-typescript'
+import { TimestampedModel } from '../../src/base.model'
+
+interface TagCreationAttributes {
+  label: string
+}
+
+@Table
+export class Tag extends TimestampedModel<Tag, TagCreationAttributes> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  declare id: number
+
+  @Column
+  declare label: string
+}
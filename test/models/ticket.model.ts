@@ -0,0 +1,12 @@
+import { Table, Column } from 'sequelize-typescript'
+import { IntBaseModel } from '../../src/base.model'
+
+interface TicketCreationAttributes {
+  subject: string
+}
+
+@Table({ paranoid: true })
+export class Ticket extends IntBaseModel<Ticket, TicketCreationAttributes> {
+  @Column
+  declare subject: string
+}
@@ -0,0 +1,22 @@
+import { Table, Column, PrimaryKey } from 'sequelize-typescript'
+import { BaseModel } from '../../src/base.model'
+
+interface UserRoleCreationAttributes {
+  userId: string
+  roleId: string
+  scope?: string
+}
+
+@Table({ paranoid: true })
+export class UserRole extends BaseModel<UserRole, UserRoleCreationAttributes> {
+  @PrimaryKey
+  @Column
+  declare userId: string
+
+  @PrimaryKey
+  @Column
+  declare roleId: string
+
+  @Column
+  declare scope: string
+}
@@ -0,0 +1,127 @@
+import 'reflect-metadata'
+import { Injectable, Logger, Module } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { Sequelize } from 'sequelize-typescript'
+import {
+  AbstractRepository,
+  getRepositoryToken,
+  InjectRepository,
+  IRepository,
+  IRepositoryOptions,
+  NestlizeModule,
+  NESTLIZE_MODULE_OPTIONS,
+} from '../src/index'
+import { User } from './models/user.model'
+import { UserRepository } from './user.repository'
+
+let sequelize: Sequelize
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([User])
+  await sequelize.sync({ force: true })
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+@Injectable()
+class UserService {
+  constructor(@InjectRepository(User) readonly users: IRepository<User>) {}
+}
+
+describe('NestlizeModule', () => {
+  it('registers model-backed repositories with forFeature', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [NestlizeModule.forFeature([User])],
+      providers: [UserService],
+    }).compile()
+
+    const service = moduleRef.get(UserService)
+
+    expect(service.users).toBeInstanceOf(AbstractRepository)
+    expect(service.users.getModel()).toBe(User)
+
+    const user = await service.users.create({
+      name: 'Module',
+      email: 'module@example.com',
+    })
+    expect(user.id).toBeDefined()
+  })
+
+  it('registers custom repositories under the model token', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        NestlizeModule.forFeature([User], { repositories: [UserRepository] }),
+      ],
+      providers: [UserService],
+    }).compile()
+
+    const service = moduleRef.get(UserService)
+
+    expect(service.users).toBeInstanceOf(UserRepository)
+    expect(moduleRef.get(UserRepository)).toBe(service.users)
+  })
+
+  it('exports repositories to importing modules', async () => {
+    @Module({
+      imports: [NestlizeModule.forFeature([User])],
+      exports: [NestlizeModule],
+    })
+    class UserModule {}
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [UserModule],
+      providers: [UserService],
+    }).compile()
+
+    expect(moduleRef.get(UserService).users).toBeInstanceOf(AbstractRepository)
+  })
+
+  it('passes global options from forRoot', async () => {
+    const logger = new Logger('Global')
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        NestlizeModule.forRoot({ logger }),
+        NestlizeModule.forFeature([User]),
+      ],
+    }).compile()
+
+    const repository = moduleRef.get(getRepositoryToken(User))
+
+    expect(repository['logger']).toBe(logger)
+  })
+
+  it('resolves global options from forRootAsync', async () => {
+    const logger = new Logger('Async')
+
+    @Module({
+      providers: [{ provide: 'LOGGER', useValue: logger }],
+      exports: ['LOGGER'],
+    })
+    class LoggerModule {}
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        NestlizeModule.forRootAsync({
+          imports: [LoggerModule],
+          useFactory: async (logger: Logger) => ({ logger }),
+          inject: ['LOGGER'],
+        }),
+        NestlizeModule.forFeature([User]),
+      ],
+    }).compile()
+
+    const options = moduleRef.get<IRepositoryOptions>(NESTLIZE_MODULE_OPTIONS)
+    const repository = moduleRef.get(getRepositoryToken(User))
+
+    expect(options.logger).toBe(logger)
+    expect(repository['logger']).toBe(logger)
+  })
+})
@@ -0,0 +1,166 @@
+import { Sequelize } from 'sequelize-typescript'
+import { Article } from './models/article.model'
+import { Order } from './models/order.model'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { InMemoryRepository } from '../src/testing'
+import { retryOnConflict } from '../src/retry-on-conflict'
+import {
+  OptimisticLockError,
+  RepositoryError,
+  toRepositoryError,
+} from '../src/repository.errors'
+
+let sequelize: Sequelize
+let articleRepo: NestlizeRepository<Article>
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Article, Order])
+  await sequelize.sync({ force: true })
+
+  articleRepo = new NestlizeRepository(Article)
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('Optimistic locking', () => {
+  it('increments the version on every update', async () => {
+    const article = await articleRepo.create({ title: 'Draft' })
+
+    const updated = await articleRepo.updateByPk(
+      article.id,
+      { title: 'Published' },
+      { expectedVersion: 0 },
+    )
+    await articleRepo.update({ id: article.id }, { title: 'Archived' })
+
+    expect(article.version).toBe(0)
+    expect(updated?.version).toBe(1)
+    expect((await articleRepo.findByPk(article.id))?.version).toBe(2)
+  })
+
+  it('rejects updates and deletes of a stale version', async () => {
+    const article = await articleRepo.create({ title: 'Stale' })
+    await articleRepo.updateByPk(article.id, { title: 'Fresh' })
+
+    await expect(
+      articleRepo.updateByPk(
+        article.id,
+        { title: 'Overwrite' },
+        { expectedVersion: 0 },
+      ),
+    ).rejects.toThrow(OptimisticLockError)
+    await expect(
+      articleRepo.deleteByPk(article.id, { expectedVersion: 0 }),
+    ).rejects.toThrow(OptimisticLockError)
+
+    const current = await articleRepo.findByPk(article.id)
+    expect(current?.title).toBe('Fresh')
+
+    await articleRepo.deleteByPkOrFail(article.id, { expectedVersion: 1 })
+    expect(await articleRepo.findByPk(article.id)).toBeNull()
+  })
+
+  it('passes version mismatches to the errorMapper', async () => {
+    const errorMapper = jest.fn((error: RepositoryError) => error)
+    const repository = new NestlizeRepository(Article, { errorMapper })
+    const article = await repository.create({ title: 'Mapped' })
+
+    await expect(
+      repository.updateByPk(
+        article.id,
+        { title: 'Overwrite' },
+        { expectedVersion: 1 },
+      ),
+    ).rejects.toThrow(OptimisticLockError)
+    expect(errorMapper).toHaveBeenCalledTimes(1)
+    expect(errorMapper).toHaveBeenCalledWith(expect.any(OptimisticLockError), {
+      operation: 'updateByPk',
+      model: 'Article',
+    })
+  })
+
+  it('maps stale saves to OptimisticLockError', async () => {
+    const article = await articleRepo.create({ title: 'Loaded' })
+    const loaded = (await articleRepo.findByPk(article.id))!
+    await articleRepo.updateByPk(article.id, { title: 'Changed' })
+
+    loaded.title = 'Overwrite'
+    const error = await loaded.save().catch(toRepositoryError)
+
+    expect(error).toBeInstanceOf(OptimisticLockError)
+    expect(error).toMatchObject({ status: 409 })
+  })
+
+  it('requires a version attribute for expectedVersion', async () => {
+    const orderRepo = new NestlizeRepository(Order)
+    const order = await orderRepo.create({ userId: 'version', total: 1 })
+
+    await expect(
+      orderRepo.updateByPk(order.id, { total: 2 }, { expectedVersion: 0 }),
+    ).rejects.toThrow(RepositoryError)
+  })
+
+  it('checks versions in the in-memory repository', async () => {
+    const articles = new InMemoryRepository(Article, [{ title: 'Memory' }])
+
+    const updated = await articles.updateByPk(
+      1,
+      { title: 'Updated' },
+      { expectedVersion: 0 },
+    )
+
+    expect(updated?.version).toBe(1)
+    await expect(
+      articles.deleteByPk(1, { expectedVersion: 0 }),
+    ).rejects.toThrow(OptimisticLockError)
+  })
+})
+
+describe('retryOnConflict', () => {
+  it('retries the callback on optimistic lock errors', async () => {
+    const article = await articleRepo.create({ title: 'Retry' })
+    let conflicts = 1
+
+    const updated = await retryOnConflict(
+      async (attempt) => {
+        const current = await articleRepo.findByPkOrFail(article.id)
+
+        if (conflicts-- > 0) {
+          await articleRepo.updateByPk(article.id, { title: 'Concurrent' })
+        }
+
+        return articleRepo.updateByPk(
+          article.id,
+          { title: `Attempt ${attempt}` },
+          { expectedVersion: current.version },
+        )
+      },
+      { backoff: 0 },
+    )
+
+    expect(updated?.title).toBe('Attempt 2')
+  })
+
+  it('rethrows after the last attempt and on other errors', async () => {
+    const conflict = jest
+      .fn()
+      .mockRejectedValue(new OptimisticLockError('Article', 1))
+    const failure = jest.fn().mockRejectedValue(new Error('failure'))
+
+    await expect(
+      retryOnConflict(conflict, { attempts: 2, backoff: () => 0 }),
+    ).rejects.toThrow(OptimisticLockError)
+    await expect(retryOnConflict(failure)).rejects.toThrow('failure')
+
+    expect(conflict).toHaveBeenCalledTimes(2)
+    expect(failure).toHaveBeenCalledTimes(1)
+  })
+})
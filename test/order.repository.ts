@@ -0,0 +1,8 @@
+import { Order } from './models/order.model'
+import { AbstractRepository } from '../src/abstract.repository'
+
+export class OrderRepository extends AbstractRepository<Order> {
+  constructor() {
+    super(Order)
+  }
+}
@@ -0,0 +1,220 @@
+import 'reflect-metadata'
+import { Test } from '@nestjs/testing'
+import { Sequelize } from 'sequelize-typescript'
+import { Order } from './models/order.model'
+import { OrderRepository } from './order.repository'
+import { NestlizeModule } from '../src/nestlize.module'
+import { OutboxEvent, OutboxMessage, OutboxStatus } from '../src/outbox'
+import { OutboxRelay } from '../src/outbox.relay'
+import { TransactionRequiredError } from '../src/repository.errors'
+import { InMemoryRepository } from '../src/testing'
+
+let sequelize: Sequelize
+let orderRepo: OrderRepository
+let published: OutboxMessage[]
+
+const publisher = {
+  publish: jest.fn(async (message: OutboxMessage) => {
+    published.push(message)
+  }),
+}
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order, OutboxEvent])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new OrderRepository()
+})
+
+beforeEach(async () => {
+  published = []
+  publisher.publish.mockClear()
+  await OutboxEvent.destroy({ where: {} })
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+const placeOrder = (userId: string, fail = false) =>
+  orderRepo.transaction(async () => {
+    const order = await orderRepo.create({ userId, total: 1 })
+
+    await orderRepo.recordEvent(
+      'OrderPlaced',
+      { orderId: order.id },
+      { aggregateId: userId },
+    )
+
+    if (fail) {
+      throw new Error('rollback')
+    }
+  })
+
+describe('recordEvent', () => {
+  it('writes the event in the transaction of the change', async () => {
+    await placeOrder('alice')
+    await expect(placeOrder('bob', true)).rejects.toThrow()
+
+    expect(await OutboxEvent.findAll({ raw: true })).toMatchObject([
+      {
+        aggregateType: 'Order',
+        aggregateId: 'alice',
+        type: 'OrderPlaced',
+        status: OutboxStatus.PENDING,
+        attempts: 0,
+      },
+    ])
+  })
+
+  it('requires a transaction', async () => {
+    await expect(orderRepo.recordEvent('OrderPlaced', {})).rejects.toThrow(
+      TransactionRequiredError,
+    )
+  })
+})
+
+describe('OutboxRelay', () => {
+  it('publishes the pending events in order', async () => {
+    await placeOrder('alice')
+    await placeOrder('bob')
+    const relay = new OutboxRelay({ publisher })
+
+    expect(await relay.relay()).toBe(2)
+    expect(await relay.relay()).toBe(0)
+    expect(published.map(({ aggregateId }) => aggregateId)).toEqual([
+      'alice',
+      'bob',
+    ])
+    expect(
+      await OutboxEvent.count({ where: { status: OutboxStatus.PUBLISHED } }),
+    ).toBe(2)
+  })
+
+  it('does not publish the events claimed by another relay', async () => {
+    await placeOrder('alice')
+    await placeOrder('bob')
+    let claimed!: () => void
+    let release!: () => void
+    const publishing = new Promise<void>((resolve) => (claimed = resolve))
+    const released = new Promise<void>((resolve) => (release = resolve))
+    const slow = new OutboxRelay({
+      publisher: {
+        publish: async () => {
+          claimed()
+          await released
+        },
+      },
+    })
+    const relay = new OutboxRelay({ publisher })
+
+    const relaying = slow.relay()
+    await publishing
+
+    expect(await relay.relay()).toBe(0)
+
+    release()
+
+    expect(await relaying).toBe(2)
+    expect(await relay.relay()).toBe(0)
+    expect(published).toEqual([])
+  })
+
+  it('retries failed events and keeps the order per aggregate', async () => {
+    await placeOrder('alice')
+    await placeOrder('alice')
+    await placeOrder('bob')
+    publisher.publish.mockRejectedValueOnce(new Error('broker down'))
+    const relay = new OutboxRelay({ publisher, backoff: () => 0 })
+
+    expect(await relay.relay()).toBe(1)
+    expect(published.map(({ aggregateId }) => aggregateId)).toEqual(['bob'])
+    expect(await OutboxEvent.findOne({ order: [['id', 'ASC']] })).toMatchObject(
+      { attempts: 1, lastError: 'broker down', status: OutboxStatus.PENDING },
+    )
+
+    expect(await relay.relay()).toBe(2)
+
+    const [, first, second] = published
+
+    expect(first.id).toBeLessThan(second.id)
+    expect([first.attempts, second.attempts]).toEqual([1, 0])
+  })
+
+  it('waits for the backoff of an earlier event of the aggregate', async () => {
+    await placeOrder('alice')
+    await placeOrder('alice')
+    publisher.publish.mockRejectedValueOnce(new Error('broker down'))
+    const relay = new OutboxRelay({ publisher, backoff: () => 60_000 })
+
+    expect(await relay.relay()).toBe(0)
+    expect(await relay.relay()).toBe(0)
+    expect(publisher.publish).toHaveBeenCalledTimes(1)
+  })
+
+  it('dead-letters events after the maximum attempts', async () => {
+    await placeOrder('alice')
+    publisher.publish.mockRejectedValue(new Error('invalid'))
+    const relay = new OutboxRelay({
+      publisher,
+      maxAttempts: 2,
+      backoff: () => 0,
+    })
+
+    await relay.relay()
+    await relay.relay()
+    await relay.relay()
+
+    expect(publisher.publish).toHaveBeenCalledTimes(2)
+    expect(
+      await OutboxEvent.count({ where: { status: OutboxStatus.DEAD } }),
+    ).toBe(1)
+
+    publisher.publish.mockReset()
+    publisher.publish.mockImplementation(async (message) => {
+      published.push(message)
+    })
+
+    expect(await relay.requeueDead()).toBe(1)
+    expect(await relay.relay()).toBe(1)
+  })
+
+  it('polls while the application runs', async () => {
+    await placeOrder('alice')
+    const moduleRef = await Test.createTestingModule({
+      imports: [NestlizeModule.forOutbox({ publisher, pollInterval: 10 })],
+    }).compile()
+    const app = await moduleRef.init()
+
+    for (let poll = 0; poll < 100 && !published.length; poll++) {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+    await app.close()
+
+    expect(moduleRef.get(OutboxRelay)).toBeInstanceOf(OutboxRelay)
+    expect(published).toHaveLength(1)
+  })
+})
+
+describe('InMemoryRepository outbox', () => {
+  it('records events inside a transaction', async () => {
+    const orders = new InMemoryRepository(Order)
+
+    await expect(orders.recordEvent('OrderPlaced', {})).rejects.toThrow(
+      TransactionRequiredError,
+    )
+    await orders.transaction(() =>
+      orders.recordEvent('OrderPlaced', { orderId: 1 }, { aggregateId: 1 }),
+    )
+
+    expect(orders.getRecordedEvents()).toMatchObject([
+      { type: 'OrderPlaced', aggregateId: '1', payload: { orderId: 1 } },
+    ])
+  })
+})
@@ -0,0 +1,140 @@
+import { Sequelize } from 'sequelize-typescript'
+import { Op } from 'sequelize'
+import { Post } from './models/post.model'
+import { Comment } from './models/comment.model'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { Specification } from '../src/specification'
+
+let sequelize: Sequelize
+let postRepo: NestlizeRepository<Post>
+let commentRepo: NestlizeRepository<Comment>
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Post, Comment])
+  await sequelize.sync({ force: true })
+
+  postRepo = new NestlizeRepository(Post)
+  commentRepo = new NestlizeRepository(Comment)
+
+  const posts = await postRepo.insertMany([
+    { title: 'Alpha', views: 10 },
+    { title: 'Beta', views: 30 },
+    { title: 'Gamma', views: 20 },
+    { title: 'Delta', views: 40 },
+    { title: 'Epsilon', views: 0 },
+  ])
+  await commentRepo.insertMany([
+    { postId: posts[1].id, body: 'First' },
+    { postId: posts[1].id, body: 'Second' },
+    { postId: posts[3].id, body: 'Third' },
+  ])
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('QueryBuilder', () => {
+  it('builds the find options of the query', () => {
+    const options = postRepo
+      .query()
+      .where('title', Op.like, '%a')
+      .where('views', 10)
+      .orderBy('views', 'DESC')
+      .select('id', 'title')
+      .with('comments')
+      .paginate(2, 5)
+      .getFindOptions()
+
+    expect(options).toEqual({
+      where: {
+        [Op.and]: [{ title: { [Op.like]: '%a' } }, { views: 10 }],
+      },
+      attributes: ['id', 'title'],
+      include: ['comments'],
+      order: [['views', 'DESC']],
+      limit: 5,
+      offset: 5,
+    })
+  })
+
+  it('gets many records', async () => {
+    const posts = await postRepo
+      .query()
+      .where('views', Op.gte, 20)
+      .orderBy('views', 'DESC')
+      .select('id', 'title')
+      .getMany()
+
+    expect(posts.map((post) => post.title)).toEqual(['Delta', 'Beta', 'Gamma'])
+    expect(posts[0].views).toBeUndefined()
+  })
+
+  it('gets a page of records', async () => {
+    const builder = postRepo.query().orderBy('title').paginate(2, 2)
+
+    expect((await builder.getMany()).map((post) => post.title)).toEqual([
+      'Delta',
+      'Epsilon',
+    ])
+
+    const page = await builder.getPage()
+    expect(page.count).toBe(5)
+    expect(page.currentPage).toBe(2)
+    expect(page.hasNext).toBe(true)
+  })
+
+  it('gets one record with its associations', async () => {
+    const post = await postRepo
+      .query()
+      .where({ title: 'Beta' })
+      .with('comments')
+      .getOne()
+
+    expect(post?.comments?.map((comment) => comment.body).sort()).toEqual([
+      'First',
+      'Second',
+    ])
+  })
+
+  it('counts and checks existence', async () => {
+    const withComments = postRepo.query().with({
+      association: 'comments',
+      required: true,
+    })
+
+    expect(await withComments.count()).toBe(2)
+    expect(await postRepo.query().where('views', Op.gt, 100).exists()).toBe(
+      false,
+    )
+    expect(await postRepo.query().where('title', 'Alpha').exists()).toBe(true)
+  })
+
+  it('accepts specifications', async () => {
+    const popular = Specification.where<Post>({ views: { [Op.gt]: 15 } })
+
+    const posts = await postRepo
+      .query()
+      .where(popular.not())
+      .orderBy('views')
+      .getMany()
+
+    expect(posts.map((post) => post.title)).toEqual(['Epsilon', 'Alpha'])
+  })
+
+  it('streams records in batches', async () => {
+    const titles: string[] = []
+
+    for await (const post of postRepo.query().orderBy('id').stream(2)) {
+      titles.push(post.title)
+    }
+
+    expect(titles).toEqual(['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon'])
+  })
+})
@@ -0,0 +1,119 @@
+import { Sequelize } from 'sequelize-typescript'
+import { Order } from './models/order.model'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { ReadPreference } from '../src/read-preference'
+
+let sequelize: Sequelize
+let orderRepo: NestlizeRepository<Order>
+
+const usedPrimary = (spy: jest.SpyInstance): boolean[] =>
+  spy.mock.calls.map((args) => args[args.length - 1].useMaster)
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new NestlizeRepository(Order)
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('Read preference', () => {
+  it('reads from replicas unless the primary is preferred', async () => {
+    const primaryRepo = new NestlizeRepository(Order, {
+      readPreference: ReadPreference.PRIMARY,
+    })
+    const findAll = jest.spyOn(Order, 'findAll')
+
+    await orderRepo.findAll()
+    await orderRepo.findAll({}, { readPreference: ReadPreference.PRIMARY })
+    await primaryRepo.findAll()
+    await primaryRepo.findAll({}, { readPreference: ReadPreference.REPLICA })
+    await orderRepo.findAll({}, { useMaster: true })
+
+    expect(usedPrimary(findAll)).toEqual([false, true, true, false, true])
+  })
+
+  it('pins reads inside a transaction to the primary', async () => {
+    const count = jest.spyOn(Order, 'count')
+
+    await orderRepo.transaction(() =>
+      orderRepo.count({}, { readPreference: ReadPreference.REPLICA }),
+    )
+
+    expect(usedPrimary(count)).toEqual([true])
+  })
+
+  it('reads the primary when loading records to change', async () => {
+    const order = await orderRepo.create({ userId: 'primary', total: 1 })
+    const findByPk = jest.spyOn(Order, 'findByPk')
+
+    await orderRepo.updateByPk(order.id, { total: 2 })
+    await orderRepo.deleteByPk(order.id)
+
+    expect(usedPrimary(findByPk)).toEqual([true, true])
+  })
+})
+
+describe('stickyAfterWrite', () => {
+  it('reads the primary within the window after a write', async () => {
+    const stickyRepo = new NestlizeRepository(Order, {
+      stickyAfterWrite: 1000,
+    })
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0)
+    const findAll = jest.spyOn(Order, 'findAll')
+
+    await stickyRepo.findAll()
+    await stickyRepo.create({ userId: 'sticky', total: 1 })
+    await stickyRepo.findAll()
+    now.mockReturnValue(1000)
+    await stickyRepo.findAll()
+
+    expect(usedPrimary(findAll)).toEqual([false, true, false])
+  })
+
+  it('starts the window when the transaction commits', async () => {
+    const stickyRepo = new NestlizeRepository(Order, {
+      stickyAfterWrite: 1000,
+    })
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0)
+    const findAll = jest.spyOn(Order, 'findAll')
+
+    await stickyRepo.transaction(async () => {
+      await stickyRepo.create({ userId: 'sticky', total: 1 })
+      now.mockReturnValue(5000)
+    })
+    now.mockReturnValue(5500)
+    await stickyRepo.findAll()
+
+    expect(usedPrimary(findAll)).toEqual([true])
+  })
+
+  it('shares the window between the repositories of a connection', async () => {
+    const stickyRepo = new NestlizeRepository(Order, {
+      stickyAfterWrite: 1000,
+    })
+    const now = jest.spyOn(Date, 'now').mockReturnValue(100_000)
+    const findAll = jest.spyOn(Order, 'findAll')
+
+    await orderRepo.findAll()
+    await stickyRepo.create({ userId: 'sticky', total: 1 })
+    await orderRepo.findAll()
+    now.mockReturnValue(101_000)
+    await orderRepo.findAll()
+
+    expect(usedPrimary(findAll)).toEqual([false, true, false])
+  })
+})
@@ -0,0 +1,173 @@
+import { ConflictException, HttpStatus } from '@nestjs/common'
+import { Sequelize } from 'sequelize-typescript'
+import {
+  ConnectionAcquireTimeoutError,
+  DatabaseError,
+  ForeignKeyConstraintError,
+  TimeoutError,
+  ValidationError,
+  ValidationErrorItem,
+} from 'sequelize'
+import { User } from './models/user.model'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import {
+  DatabaseQueryError,
+  DuplicateEntityError,
+  EntityValidationError,
+  InvalidQueryError,
+  RelatedEntityError,
+  RepositoryError,
+  RepositoryTimeoutError,
+  toRepositoryError,
+} from '../src/repository.errors'
+
+let sequelize: Sequelize
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([User])
+  await sequelize.sync({ force: true })
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('Repository errors', () => {
+  it('maps unique constraint violations to DuplicateEntityError', async () => {
+    const repository = new NestlizeRepository(User)
+    const dto = { name: 'A', email: 'a@example.com', unique_field: 'dup' }
+    await repository.create(dto)
+
+    const error = await repository.create(dto).catch((error) => error)
+
+    expect(error).toBeInstanceOf(DuplicateEntityError)
+    expect(error.getStatus()).toBe(HttpStatus.CONFLICT)
+    expect(error.fields).toEqual(['unique_field'])
+    expect(error.values).toEqual({ unique_field: 'dup' })
+    expect(error.cause).toBeDefined()
+  })
+
+  it('maps validation errors to EntityValidationError', () => {
+    const error = toRepositoryError(
+      new ValidationError('Validation error', [
+        { path: 'email', message: 'email must be set' } as ValidationErrorItem,
+      ]),
+    ) as EntityValidationError
+
+    expect(error).toBeInstanceOf(EntityValidationError)
+    expect(error.getStatus()).toBe(HttpStatus.BAD_REQUEST)
+    expect(error.fields).toEqual(['email'])
+    expect(error.errors).toEqual([
+      { field: 'email', message: 'email must be set' },
+    ])
+  })
+
+  it('maps foreign key violations to RelatedEntityError', () => {
+    const error = toRepositoryError(
+      new ForeignKeyConstraintError({
+        parent: Object.assign(new Error('fk'), { sql: '' }),
+        fields: { userId: 'missing' },
+        table: 'Users',
+      }),
+    ) as RelatedEntityError
+
+    expect(error).toBeInstanceOf(RelatedEntityError)
+    expect(error.fields).toEqual(['userId'])
+    expect(error.table).toBe('Users')
+  })
+
+  it('maps timeouts to RepositoryTimeoutError', () => {
+    const parent = Object.assign(new Error('timeout'), { sql: '' })
+
+    expect(toRepositoryError(new TimeoutError(parent))).toBeInstanceOf(
+      RepositoryTimeoutError,
+    )
+    expect(
+      toRepositoryError(new ConnectionAcquireTimeoutError(parent)),
+    ).toBeInstanceOf(RepositoryTimeoutError)
+    expect(toRepositoryError(new TimeoutError(parent)).getStatus()).toBe(
+      HttpStatus.SERVICE_UNAVAILABLE,
+    )
+  })
+
+  it('maps database errors to DatabaseQueryError', async () => {
+    const repository = new NestlizeRepository(User)
+
+    await expect(
+      repository.findAll({}, { order: [['missing', 'ASC']] }),
+    ).rejects.toThrow(DatabaseQueryError)
+    expect(
+      toRepositoryError(
+        new DatabaseError(Object.assign(new Error('db'), { sql: '' })),
+      ),
+    ).toBeInstanceOf(DatabaseQueryError)
+  })
+
+  it('wraps unknown errors in RepositoryError', () => {
+    const cause = new Error('unknown')
+    const error = toRepositoryError(cause)
+
+    expect(error).toBeInstanceOf(RepositoryError)
+    expect(error.getStatus()).toBe(HttpStatus.INTERNAL_SERVER_ERROR)
+    expect(error.cause).toBe(cause)
+  })
+
+  it('translates errors with a custom errorMapper', async () => {
+    const errorMapper = jest.fn(
+      (error: RepositoryError) => new ConflictException(error.message),
+    )
+    const repository = new NestlizeRepository(User, { errorMapper })
+    const dto = { name: 'B', email: 'b@example.com', unique_field: 'mapped' }
+    await repository.create(dto)
+
+    await expect(repository.create(dto)).rejects.toThrow(ConflictException)
+    expect(errorMapper).toHaveBeenCalledWith(expect.any(DuplicateEntityError), {
+      operation: 'create',
+      model: 'User',
+    })
+  })
+
+  it('passes invalid queries to the errorMapper', async () => {
+    const errorMapper = jest.fn((error: RepositoryError) => error)
+    const repository = new NestlizeRepository(User, { errorMapper })
+
+    await expect(repository.findAllPaginated({ limit: 0 })).rejects.toThrow(
+      InvalidQueryError,
+    )
+    await expect(
+      repository.findAllByCursor({ orderBy: [['id', 'ASC']], after: 'a' }),
+    ).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST })
+    expect(() => repository.iterate({}, { batchSize: 0 })).toThrow(
+      InvalidQueryError,
+    )
+
+    const operations = ['findAllPaginated', 'findAllByCursor', 'iterate']
+
+    for (const [index, operation] of operations.entries()) {
+      expect(errorMapper).toHaveBeenNthCalledWith(
+        index + 1,
+        expect.any(InvalidQueryError),
+        { operation, model: 'User' },
+      )
+    }
+  })
+
+  it('maps errors of nested calls only once', async () => {
+    class CustomError extends Error {}
+    const errorMapper = jest.fn(() => new CustomError())
+    const repository = new NestlizeRepository(User, { errorMapper })
+
+    await expect(
+      repository.transaction(async () => {
+        await repository.findAll({}, { order: [['missing', 'ASC']] })
+      }),
+    ).rejects.toThrow(CustomError)
+    expect(errorMapper).toHaveBeenCalledTimes(1)
+  })
+})
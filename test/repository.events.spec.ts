@@ -0,0 +1,177 @@
+import { Sequelize } from 'sequelize-typescript'
+import { BadRequestException } from '@nestjs/common'
+import { Order } from './models/order.model'
+import { OrderRepository } from './order.repository'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { RepositoryEventBus } from '../src/repository.events'
+
+let sequelize: Sequelize
+let orderRepo: OrderRepository
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order])
+  await sequelize.sync({ force: true })
+})
+
+beforeEach(() => {
+  orderRepo = new OrderRepository()
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('Repository events', () => {
+  it('emits create events for single and bulk inserts', async () => {
+    const before = jest.fn()
+    const after = jest.fn()
+    orderRepo.onBeforeCreate(before)
+    orderRepo.onAfterCreate(after)
+
+    await orderRepo.create({ userId: 'create', total: 1 })
+    await orderRepo.insertMany([
+      { userId: 'create', total: 2 },
+      { userId: 'create', total: 3 },
+    ])
+
+    expect(before).toHaveBeenCalledTimes(2)
+    expect(before.mock.calls[1][0]).toMatchObject({
+      model: 'Order',
+      operation: 'insertMany',
+      values: [{ total: 2 }, { total: 3 }],
+    })
+    expect(after.mock.calls[0][0].entities[0]).toBeInstanceOf(Order)
+    expect(after.mock.calls[1][0].entities).toHaveLength(2)
+  })
+
+  it('aborts the operation when a before listener throws', async () => {
+    orderRepo.onBeforeCreate(({ values }) => {
+      if (values.some(({ total }) => total < 0)) {
+        throw new BadRequestException('Total must not be negative')
+      }
+    })
+
+    await expect(
+      orderRepo.create({ userId: 'negative', total: -1 }),
+    ).rejects.toThrow(BadRequestException)
+    expect(await orderRepo.count({ userId: 'negative' })).toBe(0)
+  })
+
+  it('passes the changed fields to update events', async () => {
+    const order = await orderRepo.create({ userId: 'update', total: 10 })
+    const before = jest.fn()
+    orderRepo.onBeforeUpdate(before)
+
+    await orderRepo.updateByPk(order.id, { total: 20, userId: 'update' })
+
+    expect(before).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'updateByPk',
+        changes: { total: { from: 10, to: 20 } },
+      }),
+    )
+  })
+
+  it('emits update events for every record of bulk updates', async () => {
+    const [first, second] = await orderRepo.insertMany([
+      { userId: 'bulk-update', total: 1 },
+      { userId: 'bulk-update', total: 2 },
+    ])
+    const before = jest.fn()
+    const after = jest.fn()
+    orderRepo.onBeforeUpdate(before)
+    orderRepo.onAfterUpdate(after)
+
+    await orderRepo.update({ userId: 'bulk-update' }, { total: 5 })
+    await orderRepo.updateMany([
+      { pk: first.id, changes: { total: 6 } },
+      { pk: second.id, changes: { total: 7 } },
+    ])
+
+    expect(before).toHaveBeenCalledTimes(4)
+    expect(after).toHaveBeenCalledTimes(4)
+    expect(before.mock.calls.map(([event]) => event)).toMatchObject([
+      { operation: 'update', changes: { total: { from: 1, to: 5 } } },
+      { operation: 'update', changes: { total: { from: 2, to: 5 } } },
+      { operation: 'updateMany', changes: { total: { from: 5, to: 6 } } },
+      { operation: 'updateMany', changes: { total: { from: 5, to: 7 } } },
+    ])
+    expect(after.mock.calls[3][0].entity).toMatchObject({
+      id: second.id,
+      total: 7,
+    })
+  })
+
+  it('emits delete and restore events with the affected records', async () => {
+    await orderRepo.insertMany([
+      { userId: 'bulk', total: 1 },
+      { userId: 'bulk', total: 2 },
+    ])
+    const deleted = jest.fn()
+    const restored = jest.fn()
+    orderRepo.onAfterDelete(deleted)
+    orderRepo.onAfterRestore(restored)
+
+    await orderRepo.delete({ userId: 'bulk' })
+    await orderRepo.restore({ userId: 'bulk' })
+
+    expect(deleted.mock.calls[0][0]).toMatchObject({
+      operation: 'delete',
+      force: false,
+    })
+    expect(deleted.mock.calls[0][0].entities).toHaveLength(2)
+    expect(restored.mock.calls[0][0].entities).toHaveLength(2)
+
+    const [order] = await orderRepo.findAll({ userId: 'bulk' })
+    await orderRepo.deleteByPk(order.id)
+    await orderRepo.restoreByPk(order.id)
+
+    expect(deleted.mock.calls[1][0].entities[0].id).toBe(order.id)
+    expect(restored.mock.calls[1][0].operation).toBe('restoreByPk')
+  })
+
+  it('stops calling a listener after unsubscribing', async () => {
+    const listener = jest.fn()
+    const unsubscribe = orderRepo.on('afterCreate', listener)
+
+    unsubscribe()
+    await orderRepo.create({ userId: 'unsubscribe', total: 1 })
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('emits events through the event bus', async () => {
+    const eventBus: RepositoryEventBus = { emit: jest.fn() }
+    const repository = new NestlizeRepository(Order, { eventBus })
+
+    await repository.create({ userId: 'bus', total: 1 })
+
+    expect(eventBus.emit).toHaveBeenCalledWith(
+      'Order.afterCreate',
+      expect.objectContaining({ model: 'Order', operation: 'create' }),
+    )
+  })
+
+  it('runs listeners inside the transaction', async () => {
+    const copyRepo = new OrderRepository()
+    orderRepo.onAfterCreate(async ({ entities, transaction }) => {
+      expect(transaction).toBeTruthy()
+      await copyRepo.create({ userId: `${entities[0].userId}-copy`, total: 0 })
+    })
+
+    await orderRepo
+      .transaction(async () => {
+        await orderRepo.create({ userId: 'rollback', total: 1 })
+        throw new Error('rollback')
+      })
+      .catch(() => undefined)
+
+    expect(await orderRepo.count({ userId: 'rollback-copy' })).toBe(0)
+  })
+})
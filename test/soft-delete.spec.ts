@@ -0,0 +1,202 @@
+import { Op } from 'sequelize'
+import { Sequelize } from 'sequelize-typescript'
+import { Author } from './models/author.model'
+import { Book } from './models/book.model'
+import { Order } from './models/order.model'
+import { OrderRepository } from './order.repository'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { AuditLog } from '../src/audit.log'
+import { RepositoryError } from '../src/repository.errors'
+import { Specification } from '../src/specification'
+import { InMemoryRepository } from '../src/testing'
+
+let sequelize: Sequelize
+let orderRepo: OrderRepository
+let authorRepo: NestlizeRepository<Author>
+let bookRepo: NestlizeRepository<Book>
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order, Author, Book, AuditLog])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new OrderRepository()
+  authorRepo = new NestlizeRepository(Author, {
+    softDelete: { cascade: ['books'] },
+  })
+  bookRepo = new NestlizeRepository(Book)
+})
+
+beforeEach(async () => {
+  await Order.destroy({ where: {}, force: true })
+  await Book.destroy({ where: {}, force: true })
+  await Author.destroy({ where: {}, force: true })
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('Soft-delete management', () => {
+  it('finds, counts and checks the deleted records', async () => {
+    const [first, second] = await orderRepo.insertMany([
+      { userId: 'alice', total: 1 },
+      { userId: 'alice', total: 2 },
+      { userId: 'bob', total: 3 },
+    ])
+    await orderRepo.deleteByPk(first.id)
+    await orderRepo.delete({ userId: 'bob' })
+
+    const deleted = await orderRepo.findDeleted(
+      { userId: 'alice' },
+      { order: [['id', 'ASC']] },
+    )
+
+    expect(deleted.map(({ id }) => id)).toEqual([first.id])
+    expect(
+      await orderRepo.findAllWithDeleted({ userId: 'alice' }),
+    ).toHaveLength(2)
+    expect(await orderRepo.countDeleted()).toBe(2)
+    expect(
+      await orderRepo.countDeleted(
+        Specification.where({ total: { [Op.gt]: 1 } }),
+      ),
+    ).toBe(1)
+    expect(await orderRepo.isDeleted(first.id)).toBe(true)
+    expect(await orderRepo.isDeleted(second.id)).toBe(false)
+    expect(await orderRepo.isDeleted(0)).toBe(false)
+  })
+
+  it('purges the records deleted before a date', async () => {
+    const [old, recent] = await orderRepo.insertMany([
+      { userId: 'purge', total: 1 },
+      { userId: 'purge', total: 2 },
+      { userId: 'purge', total: 3 },
+    ])
+    await orderRepo.delete({ id: [old.id, recent.id] })
+    await Order.update(
+      { deletedAt: new Date('2020-01-01') },
+      { where: { id: old.id }, paranoid: false },
+    )
+
+    expect(
+      await orderRepo.purgeDeleted({ olderThan: new Date('2021-01-01') }),
+    ).toBe(1)
+    expect(await orderRepo.findAllWithDeleted()).toHaveLength(2)
+    expect(await orderRepo.purgeDeleted()).toBe(1)
+    expect(await orderRepo.count()).toBe(1)
+  })
+
+  it('treats models without paranoid as having no deleted records', async () => {
+    const auditRepo = new NestlizeRepository(AuditLog)
+
+    expect(await auditRepo.findDeleted()).toEqual([])
+    expect(await auditRepo.countDeleted()).toBe(0)
+    expect(await auditRepo.purgeDeleted()).toBe(0)
+    expect(await auditRepo.isDeleted(1)).toBe(false)
+  })
+})
+
+describe('Cascading soft delete', () => {
+  const createAuthor = async (name: string) => {
+    const author = await authorRepo.create({ name })
+    await bookRepo.insertMany([
+      { authorId: author.id, title: `${name} 1` },
+      { authorId: author.id, title: `${name} 2` },
+    ])
+
+    return author
+  }
+
+  it('deletes and restores the associated records', async () => {
+    const author = await createAuthor('Ann')
+    const other = await createAuthor('Ben')
+    const [removed] = await bookRepo.findAll({ authorId: author.id })
+    await bookRepo.deleteByPk(removed.id)
+
+    await authorRepo.deleteByPk(author.id)
+
+    expect(await bookRepo.count({ authorId: author.id })).toBe(0)
+    expect(await bookRepo.count({ authorId: other.id })).toBe(2)
+
+    await authorRepo.restoreByPk(author.id)
+
+    expect(await bookRepo.count({ authorId: author.id })).toBe(1)
+    expect(await bookRepo.isDeleted(removed.id)).toBe(true)
+  })
+
+  it('cascades bulk deletes and restores', async () => {
+    const author = await createAuthor('Cid')
+
+    await authorRepo.delete({ name: 'Cid' })
+    expect(await bookRepo.countDeleted({ authorId: author.id })).toBe(2)
+
+    await authorRepo.restore({ name: 'Cid' })
+    expect(await bookRepo.count({ authorId: author.id })).toBe(2)
+  })
+
+  it('cascades the writes without a transaction', async () => {
+    const author = await createAuthor('Eve')
+    const options = { transaction: null }
+
+    await authorRepo.deleteByPk(author.id, options)
+    expect(await bookRepo.count({ authorId: author.id })).toBe(0)
+
+    await authorRepo.restoreByPk(author.id, options)
+    expect(await bookRepo.count({ authorId: author.id })).toBe(2)
+
+    await authorRepo.delete({ name: 'Eve' }, options)
+    expect(await bookRepo.count({ authorId: author.id })).toBe(0)
+
+    await authorRepo.restore({ name: 'Eve' }, options)
+    expect(await bookRepo.count({ authorId: author.id })).toBe(2)
+  })
+
+  it('invalidates the cached reads of the associated records', async () => {
+    const cachedBookRepo = new NestlizeRepository(Book, { cache: {} })
+    const author = await createAuthor('Dan')
+
+    expect(await cachedBookRepo.count({ authorId: author.id })).toBe(2)
+
+    await authorRepo.deleteByPk(author.id)
+    expect(await cachedBookRepo.count({ authorId: author.id })).toBe(0)
+
+    await authorRepo.restoreByPk(author.id)
+    expect(await cachedBookRepo.count({ authorId: author.id })).toBe(2)
+  })
+
+  it('rejects associations that can not be cascaded', async () => {
+    const repository = new NestlizeRepository(Book, {
+      softDelete: { cascade: ['author'] },
+    })
+
+    await expect(repository.delete({ title: 'None' })).rejects.toThrow(
+      RepositoryError,
+    )
+  })
+})
+
+describe('InMemoryRepository soft-delete management', () => {
+  it('manages the deleted records', async () => {
+    const orders = new InMemoryRepository(Order, [
+      { userId: 'alice', total: 1 },
+      { userId: 'bob', total: 2 },
+      { userId: 'carol', total: 3 },
+    ])
+    await orders.delete({ userId: ['alice', 'bob'] })
+
+    expect((await orders.findDeleted()).map(({ id }) => id)).toEqual([1, 2])
+    expect(await orders.findAllWithDeleted()).toHaveLength(3)
+    expect(await orders.countDeleted({ userId: 'bob' })).toBe(1)
+    expect(await orders.isDeleted(1)).toBe(true)
+    expect(await orders.isDeleted(3)).toBe(false)
+    expect(await orders.purgeDeleted({ olderThan: new Date(0) })).toBe(0)
+    expect(await orders.purgeDeleted()).toBe(2)
+    expect(await orders.findAllWithDeleted()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,99 @@
+import { Sequelize } from 'sequelize-typescript'
+import { Op } from 'sequelize'
+import { Order } from './models/order.model'
+import { OrderRepository } from './order.repository'
+import { Specification } from '../src/specification'
+
+let sequelize: Sequelize
+let orderRepo: OrderRepository
+
+const forUser = (userId: string) => Specification.where<Order>({ userId })
+const totalAbove = (total: number) =>
+  Specification.where<Order>({ total: { [Op.gt]: total } })
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new OrderRepository()
+  await orderRepo.insertMany([
+    { userId: 'alice', total: 10 },
+    { userId: 'alice', total: 50 },
+    { userId: 'alice', total: 90 },
+    { userId: 'bob', total: 20 },
+    { userId: 'bob', total: 70 },
+  ])
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('Specification', () => {
+  it('combines specifications with and', async () => {
+    const orders = await orderRepo.findAll(forUser('alice').and(totalAbove(40)))
+
+    expect(orders.map((order) => order.total).sort()).toEqual([50, 90])
+  })
+
+  it('combines specifications with or', async () => {
+    const orders = await orderRepo.findAll(forUser('bob').or(totalAbove(80)))
+
+    expect(orders.map((order) => order.total).sort()).toEqual([20, 70, 90])
+  })
+
+  it('negates a specification with not', async () => {
+    const orders = await orderRepo.findAll(forUser('alice').not())
+
+    expect(orders.every((order) => order.userId === 'bob')).toBe(true)
+    expect(orders).toHaveLength(2)
+  })
+
+  it('compiles to plain where options', () => {
+    expect(forUser('alice').and(totalAbove(40)).toWhere()).toEqual({
+      [Op.and]: [{ userId: 'alice' }, { total: { [Op.gt]: 40 } }],
+    })
+  })
+
+  it('applies the order of a specification before the caller order', async () => {
+    const newestFirst = Specification.where<Order>(
+      { userId: 'alice' },
+      { order: [['total', 'DESC']] },
+    )
+
+    const order = await orderRepo.findOne(newestFirst)
+    expect(order?.total).toBe(90)
+
+    expect(newestFirst.and(totalAbove(0)).toFindOptions().order).toEqual([
+      ['total', 'DESC'],
+    ])
+  })
+
+  it('is accepted by findAllPaginated and count', async () => {
+    const spec = totalAbove(15)
+
+    const page = await orderRepo.findAllPaginated({
+      query: spec,
+      limit: 2,
+      findOptions: { order: [['total', 'ASC']] },
+    })
+
+    expect(page.count).toBe(4)
+    expect(page.rows.map((order) => order.total)).toEqual([20, 50])
+    expect(await orderRepo.count(spec)).toBe(4)
+    expect(await orderRepo.count({ userId: 'bob' })).toBe(2)
+  })
+
+  it('is accepted by delete', async () => {
+    const deleted = await orderRepo.delete(forUser('bob').and(totalAbove(50)))
+
+    expect(deleted).toBe(1)
+    expect(await orderRepo.count(forUser('bob'))).toBe(1)
+  })
+})
@@ -0,0 +1,154 @@
+import { Sequelize } from 'sequelize-typescript'
+import { Project } from './models/project.model'
+import { Order } from './models/order.model'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { TenantContext, TenantStrategy } from '../src/tenant.context'
+import { TenantNotResolvedError } from '../src/repository.errors'
+
+let sequelize: Sequelize
+let projectRepo: NestlizeRepository<Project>
+
+const asTenant = <R>(tenant: string, callback: () => Promise<R>) =>
+  TenantContext.run(tenant, callback)
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Project, Order])
+  await sequelize.sync({ force: true })
+
+  projectRepo = new NestlizeRepository(Project, { tenant: {} })
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('Tenant column strategy', () => {
+  it('stamps the tenant on created records', async () => {
+    const project = await asTenant('acme', () =>
+      projectRepo.create({ name: 'Rocket', tenantId: 'other' }),
+    )
+    const [bulk] = await asTenant('globex', () =>
+      projectRepo.insertMany([{ name: 'Dome' }]),
+    )
+
+    expect(project.tenantId).toBe('acme')
+    expect(bulk.tenantId).toBe('globex')
+  })
+
+  it('scopes reads to the current tenant', async () => {
+    await asTenant('acme', () =>
+      projectRepo.insertMany([{ name: 'Anvil' }, { name: 'Magnet' }]),
+    )
+
+    const acme = await asTenant('acme', () => projectRepo.findAll())
+    const page = await asTenant('globex', () =>
+      projectRepo.findAllPaginated({ limit: 10 }),
+    )
+
+    expect(acme.every((project) => project.tenantId === 'acme')).toBe(true)
+    expect(acme).toHaveLength(3)
+    expect(page.count).toBe(1)
+    expect(
+      await asTenant('globex', () => projectRepo.findOne({ name: 'Anvil' })),
+    ).toBeNull()
+  })
+
+  it('refuses records of another tenant by primary key', async () => {
+    const project = await asTenant('acme', () =>
+      projectRepo.create({ name: 'Secret' }),
+    )
+
+    await asTenant('globex', async () => {
+      expect(await projectRepo.findByPk(project.id)).toBeNull()
+      expect(
+        await projectRepo.updateByPk(project.id, { name: 'Stolen' }),
+      ).toBeNull()
+      expect(await projectRepo.deleteByPk(project.id)).toBeNull()
+    })
+
+    const found = await asTenant('acme', () => projectRepo.findByPk(project.id))
+    expect(found?.name).toBe('Secret')
+  })
+
+  it('keeps the tenant of updated records', async () => {
+    const project = await asTenant('acme', () =>
+      projectRepo.create({ name: 'Move' }),
+    )
+
+    const updated = await asTenant('acme', () =>
+      projectRepo.updateByPk(project.id, { tenantId: 'globex' }),
+    )
+
+    expect(updated?.tenantId).toBe('acme')
+  })
+
+  it('deletes and restores only records of the current tenant', async () => {
+    await asTenant('acme', () => projectRepo.create({ name: 'Shared' }))
+    await asTenant('globex', () => projectRepo.create({ name: 'Shared' }))
+
+    const deleted = await asTenant('acme', () =>
+      projectRepo.delete({ name: 'Shared' }),
+    )
+    expect(deleted).toBe(1)
+    expect(
+      await asTenant('globex', () => projectRepo.count({ name: 'Shared' })),
+    ).toBe(1)
+
+    await asTenant('globex', async () => {
+      await projectRepo.delete({ name: 'Shared' })
+      await projectRepo.restore({ name: 'Shared' })
+    })
+    expect(
+      await asTenant('acme', () => projectRepo.count({ name: 'Shared' })),
+    ).toBe(0)
+  })
+
+  it('rejects operations without a tenant', async () => {
+    await expect(projectRepo.findAll()).rejects.toThrow(TenantNotResolvedError)
+    await expect(projectRepo.create({ name: 'Orphan' })).rejects.toThrow(
+      TenantNotResolvedError,
+    )
+  })
+
+  it('does not scope without a tenant when it is not required', async () => {
+    const repository = new NestlizeRepository(Project, {
+      tenant: { resolver: () => undefined, required: false },
+    })
+
+    expect(await repository.count()).toBe(await Project.count())
+  })
+})
+
+describe('Tenant schema strategy', () => {
+  let orderRepo: NestlizeRepository<Order>
+  let tenant: string
+
+  beforeAll(async () => {
+    await Order.schema('acme').sync({ force: true })
+    await Order.schema('globex').sync({ force: true })
+
+    orderRepo = new NestlizeRepository(Order, {
+      tenant: { strategy: TenantStrategy.SCHEMA, resolver: () => tenant },
+    })
+  })
+
+  it('switches the schema per tenant', async () => {
+    tenant = 'acme'
+    await orderRepo.create({ userId: 'schema', total: 1 })
+    await orderRepo.create({ userId: 'schema', total: 2 })
+
+    tenant = 'globex'
+    await orderRepo.create({ userId: 'schema', total: 3 })
+
+    expect(await orderRepo.count()).toBe(1)
+    tenant = 'acme'
+    expect(await orderRepo.count()).toBe(2)
+    expect(await Order.count()).toBe(0)
+  })
+})
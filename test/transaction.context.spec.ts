@@ -0,0 +1,163 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Sequelize } from 'sequelize-typescript'
+import { User } from './models/user.model'
+import { Order } from './models/order.model'
+import { UserRepository } from './user.repository'
+import { OrderRepository } from './order.repository'
+import { Propagation, TransactionContext } from '../src/transaction.context'
+import { RepositoryError } from '../src/repository.errors'
+
+let directory: string
+let sequelize: Sequelize
+let userRepo: UserRepository
+let orderRepo: OrderRepository
+
+beforeAll(async () => {
+  directory = mkdtempSync(join(tmpdir(), 'nestlize-'))
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: join(directory, 'transaction.sqlite'),
+    logging: false,
+  })
+
+  sequelize.addModels([User, Order])
+  await sequelize.sync({ force: true })
+
+  userRepo = new UserRepository()
+  orderRepo = new OrderRepository()
+})
+
+afterAll(async () => {
+  await sequelize.close()
+  rmSync(directory, { recursive: true, force: true })
+})
+
+describe('Transaction propagation', () => {
+  it('exposes the active transaction only inside the callback', async () => {
+    expect(TransactionContext.getTransaction(sequelize)).toBeUndefined()
+
+    await userRepo.transaction(async (transaction) => {
+      expect(TransactionContext.getTransaction(sequelize)).toBe(transaction)
+    })
+
+    expect(TransactionContext.getTransaction(sequelize)).toBeUndefined()
+  })
+
+  it('joins the transaction across repositories without passing it', async () => {
+    await expect(
+      userRepo.transaction(async () => {
+        const user = await userRepo.create({
+          name: 'Ambient',
+          email: 'ambient@example.com',
+        })
+        await orderRepo.create({ userId: user.id, total: 10 })
+
+        throw new Error('rollback')
+      }),
+    ).rejects.toThrow(RepositoryError)
+
+    expect(await userRepo.findAll({ email: 'ambient@example.com' })).toEqual([])
+    expect(await orderRepo.findAll({ total: 10 })).toEqual([])
+  })
+
+  it('reuses the active transaction with REQUIRED', async () => {
+    await userRepo.transaction(async (outer) => {
+      await orderRepo.transaction(async (inner) => {
+        expect(inner).toBe(outer)
+      })
+    })
+  })
+
+  it('keeps updates inside the active transaction', async () => {
+    const user = await userRepo.create({
+      name: 'Before',
+      email: 'update@example.com',
+    })
+
+    await expect(
+      userRepo.transaction(async () => {
+        await userRepo.updateByPk(user.id, { name: 'After' })
+        await userRepo.deleteByPk(user.id)
+
+        throw new Error('rollback')
+      }),
+    ).rejects.toThrow(RepositoryError)
+
+    const found = await userRepo.findByPk(user.id)
+    expect(found?.name).toBe('Before')
+  })
+
+  it('rolls back only the savepoint with NESTED', async () => {
+    await userRepo.transaction(async () => {
+      await userRepo.create({ name: 'Outer', email: 'nested@example.com' })
+
+      await expect(
+        userRepo.transaction(
+          async () => {
+            await userRepo.create({
+              name: 'Inner',
+              email: 'nested@example.com',
+            })
+            throw new Error('rollback savepoint')
+          },
+          { propagation: Propagation.NESTED },
+        ),
+      ).rejects.toThrow(RepositoryError)
+    })
+
+    const users = await userRepo.findAll({ email: 'nested@example.com' })
+    expect(users.map((user) => user.name)).toEqual(['Outer'])
+  })
+
+  it('commits independently with REQUIRES_NEW', async () => {
+    await expect(
+      userRepo.transaction(async (outer) => {
+        await userRepo.transaction(
+          async (inner) => {
+            expect(inner).not.toBe(outer)
+            await orderRepo.create({ userId: 'independent', total: 1 })
+          },
+          { propagation: Propagation.REQUIRES_NEW },
+        )
+
+        throw new Error('rollback outer')
+      }),
+    ).rejects.toThrow(RepositoryError)
+
+    expect(await orderRepo.findAll({ userId: 'independent' })).toHaveLength(1)
+  })
+
+  it('rejects an active transaction with NEVER', async () => {
+    await expect(
+      userRepo.transaction(async () => {
+        await userRepo.transaction(async () => undefined, {
+          propagation: Propagation.NEVER,
+        })
+      }),
+    ).rejects.toThrow(RepositoryError)
+
+    await expect(
+      userRepo.transaction(async () => 'ok', {
+        propagation: Propagation.NEVER,
+      }),
+    ).resolves.toBe('ok')
+  })
+
+  it('lets an explicit transaction option win', async () => {
+    await userRepo
+      .transaction(async () => {
+        await userRepo.create(
+          { name: 'Outside', email: 'explicit@example.com' },
+          { transaction: null },
+        )
+        throw new Error('rollback')
+      })
+      .catch(() => undefined)
+
+    expect(
+      await userRepo.findAll({ email: 'explicit@example.com' }),
+    ).toHaveLength(1)
+  })
+})
@@ -0,0 +1,114 @@
+import 'reflect-metadata'
+import { Sequelize } from 'sequelize-typescript'
+import { Transaction } from 'sequelize'
+import { User } from './models/user.model'
+import { Order } from './models/order.model'
+import { UserRepository } from './user.repository'
+import { OrderRepository } from './order.repository'
+import { Transactional } from '../src/transactional.decorator'
+import { TransactionContext } from '../src/transaction.context'
+
+let sequelize: Sequelize
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([User, Order])
+  await sequelize.sync({ force: true })
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+class CheckoutService {
+  constructor(
+    readonly users: UserRepository,
+    readonly orders: OrderRepository,
+  ) {}
+
+  @Transactional()
+  async checkout(email: string, fail = false) {
+    const user = await this.users.create({ name: 'Buyer', email })
+    await this.placeOrder(user.id)
+
+    if (fail) {
+      throw new Error('payment failed')
+    }
+
+    return user
+  }
+
+  async placeOrder(userId: string) {
+    await this.orders.insertMany([
+      { userId, total: 5 },
+      { userId, total: 7 },
+    ])
+  }
+
+  @Transactional({ isolationLevel: Transaction.ISOLATION_LEVELS.SERIALIZABLE })
+  async currentTransaction() {
+    return TransactionContext.getTransaction(sequelize)
+  }
+}
+
+describe('Transactional', () => {
+  const service = () =>
+    new CheckoutService(new UserRepository(), new OrderRepository())
+
+  it('commits the work of every repository', async () => {
+    const user = await service().checkout('commit@example.com')
+
+    expect(await service().orders.findAll({ userId: user.id })).toHaveLength(2)
+  })
+
+  it('rolls back every repository when the method throws', async () => {
+    await expect(
+      service().checkout('rollback@example.com', true),
+    ).rejects.toThrow('payment failed')
+
+    expect(
+      await service().users.findAll({ email: 'rollback@example.com' }),
+    ).toEqual([])
+    expect(await service().orders.findAll()).toHaveLength(2)
+  })
+
+  it('passes transaction options to Sequelize', async () => {
+    const transaction = await service().currentTransaction()
+
+    expect(transaction).toBeDefined()
+    expect((transaction as any).options.isolationLevel).toBe(
+      Transaction.ISOLATION_LEVELS.SERIALIZABLE,
+    )
+  })
+
+  it('keeps the method name', () => {
+    expect(CheckoutService.prototype.checkout.name).toBe('checkout')
+  })
+
+  it('uses an explicit Sequelize instance', async () => {
+    class ReportService {
+      @Transactional({ sequelize })
+      async run() {
+        return TransactionContext.getTransaction(sequelize)
+      }
+    }
+
+    await expect(new ReportService().run()).resolves.toBeDefined()
+  })
+
+  it('throws when no Sequelize instance can be resolved', async () => {
+    class EmptyService {
+      @Transactional()
+      async run() {}
+    }
+
+    await expect(new EmptyService().run()).rejects.toThrow(
+      '@Transactional() could not resolve a Sequelize instance on EmptyService',
+    )
+  })
+})
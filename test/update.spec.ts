@@ -0,0 +1,124 @@
+import { Op } from 'sequelize'
+import { Sequelize } from 'sequelize-typescript'
+import { Order } from './models/order.model'
+import { OrderRepository } from './order.repository'
+import { InMemoryRepository } from '../src/testing'
+import { Specification } from '../src/specification'
+import { UnsupportedDialectError } from '../src/repository.errors'
+
+let sequelize: Sequelize
+let orderRepo: OrderRepository
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([Order])
+  await sequelize.sync({ force: true })
+
+  orderRepo = new OrderRepository()
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('update', () => {
+  it('updates the records matching a query', async () => {
+    await orderRepo.insertMany([
+      { userId: 'update', total: 10 },
+      { userId: 'update', total: 20 },
+      { userId: 'update', total: 30 },
+    ])
+
+    const count = await orderRepo.update(
+      { userId: 'update', total: { [Op.gte]: 20 } },
+      { total: 0 },
+    )
+
+    expect(count).toBe(2)
+    expect(await orderRepo.count({ userId: 'update', total: 0 })).toBe(2)
+  })
+
+  it('accepts specifications and skips soft-deleted records', async () => {
+    const [kept, deleted] = await orderRepo.insertMany([
+      { userId: 'update-spec', total: 1 },
+      { userId: 'update-spec', total: 2 },
+    ])
+    await orderRepo.deleteByPk(deleted.id)
+
+    const count = await orderRepo.update(
+      Specification.where<Order>({ userId: 'update-spec' }),
+      { total: 5 },
+    )
+
+    expect(count).toBe(1)
+    expect((await orderRepo.findByPk(kept.id))?.total).toBe(5)
+  })
+
+  it('rejects returning on dialects without RETURNING', async () => {
+    await expect(
+      orderRepo.update({ userId: 'update' }, { total: 1 }, { returning: true }),
+    ).rejects.toThrow(UnsupportedDialectError)
+  })
+})
+
+describe('updateMany', () => {
+  it('applies the changes of every record', async () => {
+    const orders = await orderRepo.insertMany([
+      { userId: 'batch', total: 1 },
+      { userId: 'batch', total: 2 },
+      { userId: 'batch', total: 3 },
+    ])
+
+    const count = await orderRepo.updateMany([
+      { pk: orders[0].id, changes: { total: 100 } },
+      { pk: orders[1].id, changes: { total: 100 } },
+      { pk: orders[2].id, changes: { userId: 'other' } },
+    ])
+
+    expect(count).toBe(3)
+    expect(await orderRepo.count({ userId: 'batch', total: 100 })).toBe(2)
+    expect((await orderRepo.findByPk(orders[2].id))?.userId).toBe('other')
+  })
+
+  it('rolls back all changes when the transaction fails', async () => {
+    const order = await orderRepo.create({ userId: 'batch-rollback', total: 1 })
+
+    await expect(
+      orderRepo.transaction(async () => {
+        await orderRepo.updateMany([{ pk: order.id, changes: { total: 2 } }])
+        throw new Error('rollback')
+      }),
+    ).rejects.toThrow()
+
+    expect((await orderRepo.findByPk(order.id))?.total).toBe(1)
+  })
+})
+
+describe('InMemoryRepository updates', () => {
+  it('updates records by query and primary keys', async () => {
+    const orders = new InMemoryRepository(Order, [
+      { userId: 'alice', total: 10 },
+      { userId: 'alice', total: 20 },
+      { userId: 'bob', total: 30 },
+    ])
+
+    const updated = await orders.update(
+      { userId: 'alice' },
+      { total: 0 },
+      { returning: true },
+    )
+    const count = await orders.updateMany([
+      { pk: 3, changes: { total: 1 } },
+      { pk: 99, changes: { total: 1 } },
+    ])
+
+    expect(updated.map(({ total }) => total)).toEqual([0, 0])
+    expect(count).toBe(1)
+    expect((await orders.findByPk(3))?.total).toBe(1)
+  })
+})
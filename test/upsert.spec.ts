@@ -0,0 +1,228 @@
+import { Sequelize } from 'sequelize-typescript'
+import { User } from './models/user.model'
+import { Order } from './models/order.model'
+import { Project } from './models/project.model'
+import { UserRepository } from './user.repository'
+import { OrderRepository } from './order.repository'
+import { NestlizeRepository } from '../src/nestlize.repository'
+import { InMemoryRepository } from '../src/testing'
+import { DuplicateEntityError } from '../src/repository.errors'
+import { TenantContext } from '../src/tenant.context'
+
+let sequelize: Sequelize
+let userRepo: UserRepository
+let orderRepo: OrderRepository
+
+beforeAll(async () => {
+  sequelize = new Sequelize({
+    dialect: 'sqlite',
+    storage: ':memory:',
+    logging: false,
+  })
+
+  sequelize.addModels([User, Order, Project])
+  await sequelize.sync({ force: true })
+
+  userRepo = new UserRepository()
+  orderRepo = new OrderRepository()
+})
+
+afterAll(async () => {
+  await sequelize.close()
+})
+
+describe('upsert', () => {
+  it('creates a record and updates it on conflict', async () => {
+    const first = await userRepo.upsert(
+      { name: 'Alice', email: 'alice@old.com', unique_field: 'alice' },
+      { conflictFields: ['unique_field'] },
+    )
+    const second = await userRepo.upsert(
+      { name: 'Alice', email: 'alice@new.com', unique_field: 'alice' },
+      { conflictFields: ['unique_field'] },
+    )
+
+    expect(first.created).toBe(true)
+    expect(second.created).toBe(false)
+    expect(second.entity.id).toBe(first.entity.id)
+    expect(second.entity.email).toBe('alice@new.com')
+    expect(await userRepo.count({ unique_field: 'alice' })).toBe(1)
+  })
+
+  it('upserts by primary key by default', async () => {
+    const order = await orderRepo.create({ userId: 'pk', total: 1 })
+
+    const result = await orderRepo.upsert({
+      id: order.id,
+      userId: 'pk',
+      total: 2,
+    } as Order)
+
+    expect(result).toMatchObject({ created: false, entity: { total: 2 } })
+  })
+})
+
+describe('upsertMany', () => {
+  it('reports which records were created', async () => {
+    await userRepo.create({
+      name: 'Bob',
+      email: 'bob@old.com',
+      unique_field: 'bob',
+    })
+
+    const results = await userRepo.upsertMany(
+      [
+        { name: 'Robert', email: 'bob@new.com', unique_field: 'bob' },
+        { name: 'Carol', email: 'carol@new.com', unique_field: 'carol' },
+      ],
+      { conflictFields: ['unique_field'], updateFields: ['email'] },
+    )
+
+    expect(results.map(({ created }) => created)).toEqual([false, true])
+    expect(results[0].entity.toJSON()).toMatchObject({
+      name: 'Bob',
+      email: 'bob@new.com',
+    })
+    expect(results[1].entity.unique_field).toBe('carol')
+  })
+
+  it('joins the active transaction', async () => {
+    await expect(
+      userRepo.transaction(async () => {
+        await userRepo.upsertMany(
+          [{ name: 'Dave', email: 'dave@new.com', unique_field: 'dave' }],
+          { conflictFields: ['unique_field'] },
+        )
+        throw new Error('rollback')
+      }),
+    ).rejects.toThrow()
+
+    expect(await userRepo.count({ unique_field: 'dave' })).toBe(0)
+  })
+})
+
+describe('tenant-scoped upserts', () => {
+  it('refuses to take over a record of another tenant', async () => {
+    const projectRepo = new NestlizeRepository(Project, { tenant: {} })
+    const project = await TenantContext.run('globex', () =>
+      projectRepo.create({ name: 'Dome' }),
+    )
+    const hijack = { id: project.id, name: 'Hijacked' } as Project
+
+    await expect(
+      TenantContext.run('acme', () => projectRepo.upsert(hijack)),
+    ).rejects.toThrow(DuplicateEntityError)
+    await expect(
+      TenantContext.run('acme', () => projectRepo.upsertMany([hijack])),
+    ).rejects.toThrow(DuplicateEntityError)
+    expect(await Project.findByPk(project.id)).toMatchObject({
+      name: 'Dome',
+      tenantId: 'globex',
+    })
+
+    const own = await TenantContext.run('globex', () =>
+      projectRepo.upsert({ id: project.id, name: 'Dome 2' } as Project),
+    )
+
+    expect(own).toMatchObject({ created: false, entity: { name: 'Dome 2' } })
+  })
+})
+
+describe('findOrCreate', () => {
+  it('finds an existing record or creates one with the defaults', async () => {
+    const created = await orderRepo.findOrCreate(
+      { userId: 'find-or-create' },
+      { total: 10 },
+    )
+    const found = await orderRepo.findOrCreate(
+      { userId: 'find-or-create' },
+      { total: 20 },
+    )
+
+    expect(created.created).toBe(true)
+    expect(created.entity.toJSON()).toMatchObject({
+      userId: 'find-or-create',
+      total: 10,
+    })
+    expect(found.created).toBe(false)
+    expect(found.entity.id).toBe(created.entity.id)
+  })
+
+  it('maps errors of the create call', async () => {
+    await expect(
+      userRepo.findOrCreate(
+        { email: 'frank@example.com' },
+        { name: 'Frank', unique_field: 'bob' },
+      ),
+    ).rejects.toThrow(DuplicateEntityError)
+  })
+})
+
+describe('upsert events', () => {
+  it('emits create and update events for the written records', async () => {
+    const repository = new OrderRepository()
+    const created = jest.fn()
+    const updated = jest.fn()
+    repository.onAfterCreate(created)
+    repository.onBeforeUpdate(updated)
+
+    const { entity } = await repository.upsert({
+      userId: 'events',
+      total: 1,
+    } as Order)
+    await repository.upsert({
+      id: entity.id,
+      userId: 'events',
+      total: 2,
+    } as Order)
+    await repository.upsertMany([
+      { id: entity.id, userId: 'events', total: 3 } as Order,
+      { userId: 'events', total: 4 } as Order,
+    ])
+    await repository.findOrCreate({ userId: 'events' }, { total: 5 })
+    await repository.findOrCreate({ userId: 'events-new' }, { total: 6 })
+
+    expect(
+      created.mock.calls.map(([{ operation, entities }]) => [
+        operation,
+        entities.map(({ total }: Order) => total),
+      ]),
+    ).toEqual([
+      ['upsert', [1]],
+      ['upsertMany', [4]],
+      ['findOrCreate', [6]],
+    ])
+    expect(updated.mock.calls.map(([event]) => event)).toMatchObject([
+      { operation: 'upsert', changes: { total: { from: 1, to: 2 } } },
+      { operation: 'upsertMany', changes: { total: { from: 2, to: 3 } } },
+    ])
+  })
+})
+
+describe('InMemoryRepository upserts', () => {
+  it('upserts records and finds or creates them', async () => {
+    const users = new InMemoryRepository(User, [
+      { name: 'Alice', email: 'alice@old.com', unique_field: 'alice' },
+    ])
+
+    const [updated, created] = await users.upsertMany(
+      [
+        { name: 'Alice', email: 'alice@new.com', unique_field: 'alice' },
+        { name: 'Bob', email: 'bob@new.com', unique_field: 'bob' },
+      ],
+      { conflictFields: ['unique_field'] },
+    )
+    const found = await users.findOrCreate(
+      { unique_field: 'bob' },
+      { name: 'Robert', email: 'robert@new.com' },
+    )
+
+    expect(updated).toMatchObject({
+      created: false,
+      entity: { email: 'alice@new.com' },
+    })
+    expect(created.created).toBe(true)
+    expect(found).toMatchObject({ created: false, entity: { name: 'Bob' } })
+    expect(await users.count()).toBe(2)
+  })
+})